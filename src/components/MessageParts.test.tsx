@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import React from "react";
+import { render } from "@testing-library/react";
+import type { ChatMessage } from "../hooks/types";
+import { MessageParts } from "./MessageParts";
+
+function messageWith(parts: ChatMessage["parts"]): ChatMessage {
+  return { role: "assistant", content: "", parts };
+}
+
+describe("MessageParts", () => {
+  it("links and loads safe source and file URLs", () => {
+    const view = render(
+      <MessageParts
+        message={messageWith([
+          { type: "source", sourceId: "s1", title: "Docs", url: "https://example.com/docs" },
+          { type: "file", mediaType: "image/png", url: "https://example.com/chart.png", filename: "chart.png" },
+        ])}
+      />,
+    );
+
+    expect(view.container.querySelector("a")?.getAttribute("href")).toBe("https://example.com/docs");
+    expect(view.container.querySelector("img")?.getAttribute("src")).toBe("https://example.com/chart.png");
+  });
+
+  it("renders unsafe URLs as plain text", () => {
+    const view = render(
+      <MessageParts
+        message={messageWith([
+          { type: "source", sourceId: "s1", title: "Docs", url: "javascript:alert(1)" },
+          { type: "file", mediaType: "image/png", url: "javascript:alert(2)", filename: "chart.png" },
+          { type: "file", mediaType: "application/pdf", url: "javascript:alert(3)", filename: "report.pdf" },
+        ])}
+      />,
+    );
+
+    expect(view.container.querySelector("a, img")).toBeNull();
+    expect(view.container.textContent).toBe("Docschart.pngreport.pdf");
+  });
+});
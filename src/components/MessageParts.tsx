@@ -0,0 +1,159 @@
+"use client";
+
+import React, { memo, type ReactNode } from "react";
+import { isSafeUrl, sanitizeUrl } from "@onegenui/utils";
+import type { ChatMessage, ChatMessagePart } from "../hooks/types";
+import { cn } from "../utils";
+import { MarkdownText } from "./MarkdownText";
+import { toolLabels } from "./tool-progress";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type MessagePartType = ChatMessagePart["type"];
+
+export interface MessagePartRendererProps<T extends MessagePartType = MessagePartType> {
+  part: Extract<ChatMessagePart, { type: T }>;
+  message: ChatMessage;
+  index: number;
+}
+
+/** One renderer per part type; missing entries use the defaults */
+export type MessagePartRenderers = {
+  [T in MessagePartType]?: (props: MessagePartRendererProps<T>) => ReactNode;
+};
+
+export interface MessagePartsProps {
+  message: ChatMessage;
+  /** Override how some part types are rendered */
+  renderers?: MessagePartRenderers;
+  className?: string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Default renderers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function formatJson(value: unknown): string {
+  if (typeof value === "string") return value;
+  try {
+    return JSON.stringify(value, null, 2);
+  } catch {
+    return String(value);
+  }
+}
+
+/** URLs come from stream frames: only safe ones are linked or loaded */
+function safeUrl(url: string | undefined): string | undefined {
+  return url && isSafeUrl(url) ? sanitizeUrl(url) : undefined;
+}
+
+export const defaultMessagePartRenderers: Required<MessagePartRenderers> = {
+  text: ({ part }) => <MarkdownText content={part.text} />,
+  reasoning: ({ part }) => (
+    <details className="text-[13px] opacity-70">
+      <summary className="cursor-pointer select-none">Reasoning</summary>
+      <div className="whitespace-pre-wrap mt-1">{part.text}</div>
+    </details>
+  ),
+  "tool-call": ({ part }) => (
+    <div className="flex items-center gap-2 text-[13px] opacity-80">
+      <span className="font-semibold">{toolLabels[part.toolName] ?? part.toolName}</span>
+      {part.message && <span className="truncate">{part.message}</span>}
+      {part.status && <span className="ml-auto text-[11px] uppercase">{part.status}</span>}
+    </div>
+  ),
+  "tool-result": ({ part }) => (
+    <details className={cn("text-[13px]", part.isError && "text-red-400")}>
+      <summary className="cursor-pointer select-none">
+        {toolLabels[part.toolName] ?? part.toolName} result
+      </summary>
+      <pre className="overflow-x-auto text-[12px] font-mono mt-1">{formatJson(part.result)}</pre>
+    </details>
+  ),
+  source: ({ part }) => {
+    const url = safeUrl(part.url);
+    return (
+      <div className="text-[13px]">
+        {url ? (
+          <a href={url} target="_blank" rel="noopener noreferrer" className="underline">
+            {part.title ?? part.url}
+          </a>
+        ) : (
+          <span>{part.title ?? part.sourceId}</span>
+        )}
+        {part.snippet && <div className="opacity-70">{part.snippet}</div>}
+      </div>
+    );
+  },
+  file: ({ part }) => {
+    const url = safeUrl(part.url);
+    if (!url) {
+      return <span className="text-[13px]">{part.filename ?? part.mediaType}</span>;
+    }
+    return part.mediaType.startsWith("image/") ? (
+      <img src={url} alt={part.filename ?? ""} className="max-w-full rounded-lg" />
+    ) : (
+      <a href={url} target="_blank" rel="noopener noreferrer" className="underline text-[13px]">
+        {part.filename ?? part.url}
+      </a>
+    );
+  },
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Main Component
+// ─────────────────────────────────────────────────────────────────────────────
+
+function renderPart(
+  part: ChatMessagePart,
+  message: ChatMessage,
+  index: number,
+  renderers: MessagePartRenderers | undefined,
+): ReactNode {
+  const render = (renderers?.[part.type] ?? defaultMessagePartRenderers[part.type]) as (
+    props: MessagePartRendererProps,
+  ) => ReactNode;
+  return render({ part, message, index });
+}
+
+function partKey(part: ChatMessagePart, index: number): string {
+  if (part.type === "tool-call" || part.type === "tool-result") {
+    return `${part.type}-${part.toolCallId}`;
+  }
+  if (part.type === "source") return `source-${part.sourceId}`;
+  return `${part.type}-${index}`;
+}
+
+/**
+ * MessageParts - Renders a chat message's parts in order
+ *
+ * Messages without parts render their `content` as a single text part.
+ *
+ * @example
+ * ```tsx
+ * <MessageParts
+ *   message={message}
+ *   renderers={{ "tool-call": ({ part }) => <ToolChip call={part} /> }}
+ * />
+ * ```
+ */
+export const MessageParts = memo(function MessageParts({
+  message,
+  renderers,
+  className,
+}: MessagePartsProps) {
+  const parts: ChatMessagePart[] =
+    message.parts ?? (message.content ? [{ type: "text", text: message.content }] : []);
+
+  return (
+    <div className={cn("flex flex-col gap-2", className)} data-role={message.role}>
+      {parts.map((part, index) => (
+        <React.Fragment key={partKey(part, index)}>
+          {renderPart(part, message, index, renderers)}
+        </React.Fragment>
+      ))}
+    </div>
+  );
+});
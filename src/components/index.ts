@@ -26,6 +26,14 @@ export {
   ToolProgressOverlay,
   type ToolProgressOverlayProps,
 } from "./ToolProgressOverlay";
+export {
+  MessageParts,
+  defaultMessagePartRenderers,
+  type MessagePartsProps,
+  type MessagePartRenderers,
+  type MessagePartRendererProps,
+  type MessagePartType,
+} from "./MessageParts";
 export {
   LongPressIndicator,
   type LongPressIndicatorProps,
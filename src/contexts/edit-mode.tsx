@@ -6,7 +6,7 @@
  *
  * Features:
  * - Auto-save with debounce
- * - Undo/Redo support
+ * - Undo/Redo support (shared stack, see UndoManagerProvider)
  * - Change history tracking
  * - Keyboard shortcuts (Escape to cancel)
  */
@@ -23,6 +23,7 @@ import React, {
   useEffect,
   type ReactNode,
 } from "react";
+import { useUndoManager, useUndoStack } from "./undo-manager";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
@@ -103,6 +104,44 @@ export interface EditModeProviderProps {
   maxHistoryItems?: number;
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Rebuild ElementChange[] from a history item. "undo" restores old values,
+ * "redo" re-applies new ones.
+ */
+function toElementChanges(
+  item: ChangeHistoryItem,
+  direction: "undo" | "redo",
+): ElementChange[] {
+  const elementMap = new Map<string, { props: Record<string, unknown>; previousProps: Record<string, unknown> }>();
+
+  for (const change of item.changes) {
+    const existing = elementMap.get(change.elementKey) || { props: {}, previousProps: {} };
+    const [value, previous] = direction === "undo"
+      ? [change.oldValue, change.newValue]
+      : [change.newValue, change.oldValue];
+    existing.props[change.propName] = value;
+    existing.previousProps[change.propName] = previous;
+    elementMap.set(change.elementKey, existing);
+  }
+
+  return Array.from(elementMap.entries()).map(([key, data]) => ({
+    key,
+    props: data.props,
+    previousProps: data.previousProps,
+    timestamp: Date.now(),
+  }));
+}
+
+function describeChanges(changes: SinglePropChange[]): string {
+  const first = changes[0];
+  if (changes.length === 1 && first) return `Edit ${first.propName}`;
+  return `Edit ${changes.length} fields`;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Context
 // ─────────────────────────────────────────────────────────────────────────────
@@ -129,9 +168,13 @@ export function EditModeProvider({
     Map<string, Record<string, unknown>>
   >(new Map());
 
-  // History for undo/redo
+  // Change history for diff view; undo/redo go through the shared stack
   const [history, setHistory] = useState<ChangeHistoryItem[]>([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
+  const undoManager = useUndoManager();
+  const { canUndo, canRedo } = useUndoStack();
+  const onCommitRef = useRef(onCommit);
+  onCommitRef.current = onCommit;
 
   // Auto-save debounce timer
   const autoSaveTimerRef = useRef<NodeJS.Timeout | null>(null);
@@ -232,9 +275,10 @@ export function EditModeProvider({
     });
 
     // Add to history with SinglePropChange format
+    const item: ChangeHistoryItem = { changes: propChanges, timestamp: now };
     setHistory((prev) => {
       const newHistory = prev.slice(0, historyIndex + 1);
-      newHistory.push({ changes: propChanges, timestamp: now });
+      newHistory.push(item);
       // Limit history size
       if (newHistory.length > maxHistoryItems) {
         return newHistory.slice(-maxHistoryItems);
@@ -243,6 +287,19 @@ export function EditModeProvider({
     });
     setHistoryIndex((prev) => prev + 1);
 
+    undoManager.record({
+      label: describeChanges(propChanges),
+      source: "edit-mode",
+      undo: () => {
+        onCommitRef.current?.(toElementChanges(item, "undo"));
+        setHistoryIndex((prev) => prev - 1);
+      },
+      redo: () => {
+        onCommitRef.current?.(toElementChanges(item, "redo"));
+        setHistoryIndex((prev) => prev + 1);
+      },
+    });
+
     if (onCommit) {
       onCommit(elementChanges);
     }
@@ -256,7 +313,7 @@ export function EditModeProvider({
       clearTimeout(autoSaveTimerRef.current);
       autoSaveTimerRef.current = null;
     }
-  }, [pendingChanges, previousValues, historyIndex, maxHistoryItems, onCommit]);
+  }, [pendingChanges, previousValues, historyIndex, maxHistoryItems, onCommit, undoManager]);
 
   // Keep ref updated
   commitChangesRef.current = commitChanges;
@@ -271,69 +328,13 @@ export function EditModeProvider({
   }, []);
 
   const undo = useCallback(() => {
-    if (historyIndex < 0) return;
-
-    const item = history[historyIndex];
-    if (!item) return;
-
-    // Reconstruct ElementChange[] from SinglePropChange[] for onCommit
-    const elementMap = new Map<string, { props: Record<string, unknown>; previousProps: Record<string, unknown> }>();
-    
-    for (const change of item.changes) {
-      const existing = elementMap.get(change.elementKey) || { props: {}, previousProps: {} };
-      // Undo: swap old/new - new becomes "what to restore", old becomes "what was there"
-      existing.props[change.propName] = change.oldValue;
-      existing.previousProps[change.propName] = change.newValue;
-      elementMap.set(change.elementKey, existing);
-    }
-
-    const undoChanges: ElementChange[] = Array.from(elementMap.entries()).map(([key, data]) => ({
-      key,
-      props: data.props,
-      previousProps: data.previousProps,
-      timestamp: Date.now(),
-    }));
-
-    if (onCommit) {
-      onCommit(undoChanges);
-    }
-
-    setHistoryIndex((prev) => prev - 1);
-  }, [history, historyIndex, onCommit]);
+    undoManager.undo();
+  }, [undoManager]);
 
   const redo = useCallback(() => {
-    if (historyIndex >= history.length - 1) return;
-
-    const item = history[historyIndex + 1];
-    if (!item) return;
-
-    // Reconstruct ElementChange[] from SinglePropChange[] for onCommit
-    const elementMap = new Map<string, { props: Record<string, unknown>; previousProps: Record<string, unknown> }>();
-    
-    for (const change of item.changes) {
-      const existing = elementMap.get(change.elementKey) || { props: {}, previousProps: {} };
-      // Redo: apply the new values again
-      existing.props[change.propName] = change.newValue;
-      existing.previousProps[change.propName] = change.oldValue;
-      elementMap.set(change.elementKey, existing);
-    }
-
-    const redoChanges: ElementChange[] = Array.from(elementMap.entries()).map(([key, data]) => ({
-      key,
-      props: data.props,
-      previousProps: data.previousProps,
-      timestamp: Date.now(),
-    }));
-
-    if (onCommit) {
-      onCommit(redoChanges);
-    }
-
-    setHistoryIndex((prev) => prev + 1);
-  }, [history, historyIndex, onCommit]);
+    undoManager.redo();
+  }, [undoManager]);
 
-  const canUndo = historyIndex >= 0;
-  const canRedo = historyIndex < history.length - 1;
   const pendingCount = pendingChanges.size;
 
   const value = useMemo(
@@ -0,0 +1,144 @@
+"use client";
+
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useSyncExternalStore,
+  type ReactNode,
+} from "react";
+import {
+  createUndoManager,
+  type UndoManager,
+  type UndoEntryInfo,
+} from "../hooks/history/undo-manager";
+import { OneGenUIStoreContext, type OneGenUIStore } from "../store";
+
+/**
+ * Manager used when neither an UndoManagerProvider nor an
+ * OneGenUIStoreProvider is mounted, so tree edits, inline edits and
+ * component state still share one stack.
+ */
+export const defaultUndoManager: UndoManager = createUndoManager();
+
+// Without an UndoManagerProvider, each provided store gets its own stack:
+// isolated panels and server requests do not share undo entries
+const storeUndoManagers = new WeakMap<OneGenUIStore, UndoManager>();
+
+function getStoreUndoManager(store: OneGenUIStore): UndoManager {
+  let manager = storeUndoManagers.get(store);
+  if (!manager) {
+    manager = createUndoManager();
+    storeUndoManagers.set(store, manager);
+  }
+  return manager;
+}
+
+const UndoManagerContext = createContext<UndoManager | null>(null);
+
+/**
+ * Props for UndoManagerProvider
+ */
+export interface UndoManagerProviderProps {
+  children: ReactNode;
+  /** Manager instance (default: a new manager per provider) */
+  manager?: UndoManager;
+  /** Bind Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z / Ctrl+Y (default: true) */
+  shortcuts?: boolean;
+}
+
+/**
+ * Provides the undo manager shared by useUIStream, EditModeProvider and
+ * useElementState below it
+ */
+export function UndoManagerProvider({
+  children,
+  manager,
+  shortcuts = true,
+}: UndoManagerProviderProps) {
+  const value = useMemo(() => manager ?? createUndoManager(), [manager]);
+  useUndoShortcuts({ manager: value, enabled: shortcuts });
+
+  return (
+    <UndoManagerContext.Provider value={value}>
+      {children}
+    </UndoManagerContext.Provider>
+  );
+}
+
+/**
+ * Get the nearest undo manager, else the one of the nearest store provider,
+ * else the default one
+ */
+export function useUndoManager(): UndoManager {
+  const manager = useContext(UndoManagerContext);
+  const store = useContext(OneGenUIStoreContext);
+  return manager ?? (store ? getStoreUndoManager(store) : defaultUndoManager);
+}
+
+/**
+ * Reactive view of the undo stack
+ */
+export function useUndoStack(): {
+  entries: UndoEntryInfo[];
+  canUndo: boolean;
+  canRedo: boolean;
+} {
+  const manager = useUndoManager();
+  const version = useSyncExternalStore(manager.subscribe, manager.version, () => 0);
+  return useMemo(
+    () => ({
+      entries: manager.entries(),
+      canUndo: manager.canUndo(),
+      canRedo: manager.canRedo(),
+    }),
+    [manager, version],
+  );
+}
+
+export interface UseUndoShortcutsOptions {
+  /** Manager to drive (default: nearest manager) */
+  manager?: UndoManager;
+  enabled?: boolean;
+  /**
+   * Also handle shortcuts while focus is in an input, textarea or
+   * contentEditable (default: false - native text undo applies there)
+   */
+  includeEditable?: boolean;
+}
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  const tag = target.tagName;
+  return tag === "INPUT" || tag === "TEXTAREA" || tag === "SELECT" || target.isContentEditable;
+}
+
+/**
+ * Undo/redo keyboard shortcuts bound to the unified undo stack
+ */
+export function useUndoShortcuts(options: UseUndoShortcutsOptions = {}): void {
+  const contextManager = useUndoManager();
+  const manager = options.manager ?? contextManager;
+  const { enabled = true, includeEditable = false } = options;
+
+  useEffect(() => {
+    if (!enabled || typeof window === "undefined") return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.altKey) return;
+      if (!includeEditable && isEditableTarget(event.target)) return;
+      const key = event.key.toLowerCase();
+      const isRedo = (key === "z" && event.shiftKey) || (key === "y" && !event.shiftKey);
+      const isUndo = key === "z" && !event.shiftKey;
+      if (isUndo && manager.canUndo()) {
+        event.preventDefault();
+        manager.undo();
+      } else if (isRedo && manager.canRedo()) {
+        event.preventDefault();
+        manager.redo();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [manager, enabled, includeEditable]);
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { createHistoryEngine } from "../engine";
+import { diffStates, applyHistoryPatches } from "../diff";
+
+interface State {
+  tree: { root: string; elements: Record<string, { props: Record<string, unknown>; children?: string[] }> };
+  conversation: string[];
+}
+
+const base: State = {
+  tree: {
+    root: "a",
+    elements: {
+      a: { props: { title: "A" }, children: ["b"] },
+      b: { props: { title: "B" } },
+    },
+  },
+  conversation: ["first"],
+};
+
+function edit(state: State, title: string): State {
+  return {
+    ...state,
+    tree: {
+      ...state.tree,
+      elements: { ...state.tree.elements, b: { props: { title } } },
+    },
+  };
+}
+
+describe("history diff", () => {
+  it("only emits patches for changed branches", () => {
+    const next = edit(base, "B2");
+    const { forward, inverse } = diffStates(base, next);
+    expect(forward).toEqual([{ op: "replace", path: "/tree/elements/b/props/title", value: "B2" }]);
+    expect(applyHistoryPatches(next, inverse)).toEqual(base);
+  });
+
+  it("round-trips added elements, children and array growth", () => {
+    const next: State = {
+      tree: {
+        root: "a",
+        elements: {
+          a: { props: { title: "A" }, children: ["b", "c"] },
+          b: base.tree.elements.b!,
+          c: { props: { title: "C" } },
+        },
+      },
+      conversation: ["first", "second"],
+    };
+    const { forward, inverse } = diffStates(base, next);
+    expect(applyHistoryPatches(base, forward)).toEqual(next);
+    expect(applyHistoryPatches(next, inverse)).toEqual(base);
+    // Untouched branches keep their references
+    expect(applyHistoryPatches(next, inverse).tree.elements.b).toBe(next.tree.elements.b);
+  });
+});
+
+describe("createHistoryEngine", () => {
+  it("undoes and redoes recorded changes", () => {
+    const engine = createHistoryEngine<State>();
+    const s1 = edit(base, "one");
+    const s2 = edit(s1, "two");
+    engine.record(base, s1, "first edit");
+    engine.record(s1, s2, "second edit");
+
+    const undone = engine.undo(s2)!;
+    expect(undone).toEqual(s1);
+    expect(engine.redo(undone)).toEqual(s2);
+    expect(engine.timeline().map((e) => [e.label, e.applied])).toEqual([
+      ["first edit", true],
+      ["second edit", true],
+    ]);
+  });
+
+  it("drops the redo branch on a new change and ignores no-op records", () => {
+    const engine = createHistoryEngine<State>();
+    const s1 = edit(base, "one");
+    engine.record(base, s1);
+    engine.undo(s1);
+    expect(engine.record(base, base)).toBeNull();
+    engine.record(base, edit(base, "other"));
+    expect(engine.timeline()).toHaveLength(1);
+    expect(engine.canRedo()).toBe(false);
+  });
+
+  it("evicts the oldest entries beyond the memory budget", () => {
+    const engine = createHistoryEngine<State>({ maxBytes: 400 });
+    let state = base;
+    for (let i = 0; i < 10; i++) {
+      const next = edit(state, `title ${i}`);
+      engine.record(state, next);
+      state = next;
+    }
+    expect(engine.totalBytes()).toBeLessThanOrEqual(400);
+    expect(engine.timeline().length).toBeLessThan(10);
+    expect(engine.canUndo()).toBe(true);
+  });
+});
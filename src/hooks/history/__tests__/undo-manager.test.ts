@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { createUndoManager } from "../undo-manager";
+
+function createLog() {
+  const calls: string[] = [];
+  const command = (name: string, source = "tree", coalesceKey?: string) => ({
+    label: name,
+    source,
+    coalesceKey,
+    undo: () => calls.push(`undo ${name}`),
+    redo: () => calls.push(`redo ${name}`),
+  });
+  return { calls, command };
+}
+
+describe("createUndoManager", () => {
+  it("undoes across sources in chronological order", () => {
+    const manager = createUndoManager();
+    const { calls, command } = createLog();
+    manager.record(command("title", "edit-mode"));
+    manager.record(command("resize", "tree"));
+    manager.record(command("checkbox", "component-state"));
+
+    manager.undo();
+    manager.undo();
+    manager.redo();
+
+    expect(calls).toEqual(["undo checkbox", "undo resize", "redo resize"]);
+    expect(manager.entries().map((e) => [e.label, e.applied])).toEqual([
+      ["title", true],
+      ["resize", true],
+      ["checkbox", false],
+    ]);
+  });
+
+  it("groups a transaction into one labelled entry", () => {
+    const manager = createUndoManager();
+    const { calls, command } = createLog();
+    manager.transaction("Apply layout", () => {
+      manager.record(command("a"));
+      manager.record(command("b", "component-state"));
+    });
+
+    expect(manager.entries()).toHaveLength(1);
+    expect(manager.entries()[0]?.sources).toEqual(["tree", "component-state"]);
+    manager.undo();
+    expect(calls).toEqual(["undo b", "undo a"]);
+  });
+
+  it("coalesces rapid commands with the same key and ignores records while replaying", () => {
+    const manager = createUndoManager();
+    const { command } = createLog();
+    manager.record(command("type 1", "component-state", "field"));
+    manager.record(command("type 2", "component-state", "field"));
+    expect(manager.entries()).toHaveLength(1);
+
+    manager.record({
+      ...command("nested"),
+      undo: () => manager.record(command("during undo")),
+    });
+    manager.undo();
+    expect(manager.entries()).toHaveLength(2);
+  });
+
+  it("removes matching commands and keeps the cursor on the same change", () => {
+    const manager = createUndoManager();
+    const { calls, command } = createLog();
+    const stale = command("resize");
+    manager.record(command("title", "edit-mode"));
+    manager.record(stale);
+    manager.transaction("Apply layout", () => {
+      manager.record(command("move"));
+      manager.record(command("checkbox", "component-state"));
+    });
+    manager.undo();
+
+    manager.remove((c) => c === stale || c.label === "move");
+
+    expect(manager.entries().map((e) => [e.label, e.commandCount, e.applied])).toEqual([
+      ["title", 1, true],
+      ["Apply layout", 1, false],
+    ]);
+    manager.undo();
+    manager.redo();
+    manager.redo();
+    expect(calls).toEqual(["undo checkbox", "undo move", "undo title", "redo title", "redo checkbox"]);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * History diffing - forward/inverse JSON patches between immutable states
+ *
+ * Trees and conversations are updated with structural sharing, so unchanged
+ * branches keep their references and are skipped without being walked.
+ * Patch values are stored by reference; states must never be mutated.
+ */
+
+export interface HistoryPatch {
+  op: "add" | "remove" | "replace";
+  /** JSON Pointer (RFC 6901) */
+  path: string;
+  value?: unknown;
+}
+
+export interface HistoryDiff {
+  /** Patches that turn `prev` into `next` */
+  forward: HistoryPatch[];
+  /** Patches that turn `next` back into `prev`, in apply order */
+  inverse: HistoryPatch[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function escapeSegment(segment: string): string {
+  return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function unescapeSegment(segment: string): string {
+  return segment.replace(/~1/g, "/").replace(/~0/g, "~");
+}
+
+function collect(
+  prev: unknown,
+  next: unknown,
+  path: string,
+  pairs: Array<[HistoryPatch, HistoryPatch]>,
+): void {
+  if (Object.is(prev, next)) return;
+
+  if (Array.isArray(prev) && Array.isArray(next)) {
+    const common = Math.min(prev.length, next.length);
+    for (let i = 0; i < common; i++) {
+      collect(prev[i], next[i], `${path}/${i}`, pairs);
+    }
+    for (let i = common; i < next.length; i++) {
+      pairs.push([
+        { op: "add", path: `${path}/${i}`, value: next[i] },
+        { op: "remove", path: `${path}/${i}` },
+      ]);
+    }
+    for (let i = prev.length - 1; i >= common; i--) {
+      pairs.push([
+        { op: "remove", path: `${path}/${i}` },
+        { op: "add", path: `${path}/${i}`, value: prev[i] },
+      ]);
+    }
+    return;
+  }
+
+  if (isPlainObject(prev) && isPlainObject(next)) {
+    for (const key of Object.keys(prev)) {
+      const childPath = `${path}/${escapeSegment(key)}`;
+      if (!(key in next)) {
+        pairs.push([
+          { op: "remove", path: childPath },
+          { op: "add", path: childPath, value: prev[key] },
+        ]);
+      } else {
+        collect(prev[key], next[key], childPath, pairs);
+      }
+    }
+    for (const key of Object.keys(next)) {
+      if (key in prev) continue;
+      const childPath = `${path}/${escapeSegment(key)}`;
+      pairs.push([
+        { op: "add", path: childPath, value: next[key] },
+        { op: "remove", path: childPath },
+      ]);
+    }
+    return;
+  }
+
+  pairs.push([
+    { op: "replace", path, value: next },
+    { op: "replace", path, value: prev },
+  ]);
+}
+
+/**
+ * Compute forward and inverse patches between two states
+ */
+export function diffStates(prev: unknown, next: unknown): HistoryDiff {
+  const pairs: Array<[HistoryPatch, HistoryPatch]> = [];
+  collect(prev, next, "", pairs);
+  return {
+    forward: pairs.map(([forward]) => forward),
+    inverse: pairs.map(([, inverse]) => inverse).reverse(),
+  };
+}
+
+function cloneContainer(value: unknown): Record<string, unknown> | unknown[] {
+  if (Array.isArray(value)) return [...value];
+  if (isPlainObject(value)) return { ...value };
+  return {};
+}
+
+function applyOne(root: unknown, patch: HistoryPatch): unknown {
+  if (patch.path === "") return patch.op === "remove" ? undefined : patch.value;
+
+  const segments = patch.path.slice(1).split("/").map(unescapeSegment);
+  const result = cloneContainer(root);
+  let current: Record<string, unknown> | unknown[] = result;
+
+  // Clone only the containers along the patched path
+  for (let i = 0; i < segments.length - 1; i++) {
+    const segment = segments[i]!;
+    const container = current as Record<string, unknown>;
+    const child = cloneContainer(container[segment]);
+    container[segment] = child;
+    current = child;
+  }
+
+  const last = segments[segments.length - 1]!;
+  if (Array.isArray(current)) {
+    const index = Number(last);
+    if (patch.op === "add") current.splice(index, 0, patch.value);
+    else if (patch.op === "remove") current.splice(index, 1);
+    else current[index] = patch.value;
+  } else if (patch.op === "remove") {
+    delete current[last];
+  } else {
+    current[last] = patch.value;
+  }
+  return result;
+}
+
+/**
+ * Apply history patches with structural sharing (never mutates `root`)
+ */
+export function applyHistoryPatches<T>(root: T, patches: HistoryPatch[]): T {
+  let result: unknown = root;
+  for (const patch of patches) {
+    result = applyOne(result, patch);
+  }
+  return result as T;
+}
+
+/**
+ * Rough memory cost of a patch list in bytes (UTF-16 JSON size)
+ */
+export function estimatePatchBytes(patches: HistoryPatch[]): number {
+  try {
+    return JSON.stringify(patches).length * 2;
+  } catch {
+    return 0;
+  }
+}
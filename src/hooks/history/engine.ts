@@ -0,0 +1,144 @@
+/**
+ * History Engine - Patch-based undo/redo timeline
+ *
+ * Each entry stores the forward and inverse patches between two states
+ * instead of full snapshots. Entries are evicted oldest-first once the
+ * timeline exceeds its entry count or memory budget.
+ */
+
+import {
+  diffStates,
+  applyHistoryPatches,
+  estimatePatchBytes,
+  type HistoryPatch,
+} from "./diff";
+
+export interface HistoryEntry {
+  id: string;
+  /** Human-readable description (e.g. "Resize Card") */
+  label?: string;
+  timestamp: number;
+  forward: HistoryPatch[];
+  inverse: HistoryPatch[];
+  /** Estimated memory cost of both patch lists */
+  bytes: number;
+}
+
+/** Inspectable view of a timeline entry */
+export interface HistoryTimelineEntry {
+  id: string;
+  label?: string;
+  timestamp: number;
+  patchCount: number;
+  bytes: number;
+  /** False for entries that were undone and can be redone */
+  applied: boolean;
+}
+
+export interface HistoryEngineOptions {
+  /** Maximum number of entries (default: 100) */
+  maxEntries?: number;
+  /** Memory budget in bytes across all entries (default: 5MB) */
+  maxBytes?: number;
+}
+
+export interface HistoryEngine<T> {
+  /** Record the change from `before` to `after`. Returns null if nothing changed. */
+  record(before: T, after: T, label?: string): HistoryEntry | null;
+  /** Revert the last applied entry on `current`; null when there is nothing to undo */
+  undo(current: T): T | null;
+  /** Re-apply the next undone entry on `current`; null when there is nothing to redo */
+  redo(current: T): T | null;
+  canUndo(): boolean;
+  canRedo(): boolean;
+  /** Number of applied entries */
+  cursor(): number;
+  timeline(): HistoryTimelineEntry[];
+  /** Total estimated bytes held by the timeline */
+  totalBytes(): number;
+  clear(): void;
+}
+
+const DEFAULT_MAX_ENTRIES = 100;
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+
+let entryCounter = 0;
+
+export function createHistoryEngine<T>(
+  options: HistoryEngineOptions = {},
+): HistoryEngine<T> {
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  let entries: HistoryEntry[] = [];
+  let cursor = 0;
+  let bytes = 0;
+
+  const evict = () => {
+    // Always keep the newest entry, even if it alone exceeds the budget
+    while (entries.length > 1 && (entries.length > maxEntries || bytes > maxBytes)) {
+      const dropped = entries.shift()!;
+      bytes -= dropped.bytes;
+      cursor--;
+    }
+  };
+
+  return {
+    record(before, after, label) {
+      const { forward, inverse } = diffStates(before, after);
+      if (forward.length === 0) return null;
+
+      // A new change discards the redo branch
+      for (const dropped of entries.splice(cursor)) bytes -= dropped.bytes;
+
+      const entry: HistoryEntry = {
+        id: `history-${++entryCounter}`,
+        label,
+        timestamp: Date.now(),
+        forward,
+        inverse,
+        bytes: estimatePatchBytes(forward) + estimatePatchBytes(inverse),
+      };
+      entries.push(entry);
+      bytes += entry.bytes;
+      cursor = entries.length;
+      evict();
+      return entry;
+    },
+
+    undo(current) {
+      const entry = entries[cursor - 1];
+      if (!entry) return null;
+      cursor--;
+      return applyHistoryPatches(current, entry.inverse);
+    },
+
+    redo(current) {
+      const entry = entries[cursor];
+      if (!entry) return null;
+      cursor++;
+      return applyHistoryPatches(current, entry.forward);
+    },
+
+    canUndo: () => cursor > 0,
+    canRedo: () => cursor < entries.length,
+    cursor: () => cursor,
+
+    timeline: () =>
+      entries.map((entry, index) => ({
+        id: entry.id,
+        label: entry.label,
+        timestamp: entry.timestamp,
+        patchCount: entry.forward.length,
+        bytes: entry.bytes,
+        applied: index < cursor,
+      })),
+
+    totalBytes: () => bytes,
+
+    clear() {
+      entries = [];
+      cursor = 0;
+      bytes = 0;
+    },
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * History Module
+ *
+ * Patch-based undo/redo: diffing, timeline engine, shared undo manager.
+ */
+
+export {
+  diffStates,
+  applyHistoryPatches,
+  estimatePatchBytes,
+  type HistoryPatch,
+  type HistoryDiff,
+} from "./diff";
+
+export {
+  createHistoryEngine,
+  type HistoryEngine,
+  type HistoryEngineOptions,
+  type HistoryEntry,
+  type HistoryTimelineEntry,
+} from "./engine";
+
+export {
+  createUndoManager,
+  type UndoManager,
+  type UndoManagerOptions,
+  type UndoCommand,
+  type UndoEntryInfo,
+  type UndoSource,
+} from "./undo-manager";
@@ -0,0 +1,249 @@
+/**
+ * Undo Manager - One chronological undo stack for every edit source
+ *
+ * Tree edits (useHistory), inline text edits (EditModeProvider) and
+ * component state overrides (useElementState) each record commands here,
+ * so Ctrl+Z always reverts the most recent change whatever its origin.
+ * Commands recorded inside a transaction become a single labelled entry.
+ */
+
+export type UndoSource = "tree" | "edit-mode" | "component-state" | (string & {});
+
+export interface UndoCommand {
+  /** Human-readable description (e.g. "Edit title") */
+  label: string;
+  source: UndoSource;
+  undo(): void;
+  redo(): void;
+  /**
+   * Consecutive commands with the same key (e.g. keystrokes in one field)
+   * are merged into the previous entry when recorded within `coalesceMs`.
+   */
+  coalesceKey?: string;
+}
+
+/** Inspectable view of an undo entry */
+export interface UndoEntryInfo {
+  id: string;
+  label: string;
+  sources: UndoSource[];
+  timestamp: number;
+  commandCount: number;
+  /** False for entries that were undone and can be redone */
+  applied: boolean;
+}
+
+export interface UndoManagerOptions {
+  /** Maximum number of entries (default: 100) */
+  maxEntries?: number;
+  /** Merge window for commands with the same coalesceKey (default: 1000ms) */
+  coalesceMs?: number;
+}
+
+export interface UndoManager {
+  /** Add a command (joins the open transaction, if any). Ignored while replaying. */
+  record(command: UndoCommand): void;
+  /** Open a transaction; commands until commit() form one entry */
+  begin(label: string): void;
+  /** Close the transaction opened by begin() */
+  commit(): void;
+  /** Run `fn` inside a transaction */
+  transaction<R>(label: string, fn: () => R): R;
+  /** Revert the most recent entry; returns it, or null when there is nothing to undo */
+  undo(): UndoEntryInfo | null;
+  /** Re-apply the most recently undone entry */
+  redo(): UndoEntryInfo | null;
+  canUndo(): boolean;
+  canRedo(): boolean;
+  /** True while an entry is being undone/redone */
+  isReplaying(): boolean;
+  entries(): UndoEntryInfo[];
+  clear(): void;
+  /**
+   * Drop the commands matching `predicate` (e.g. those of a source whose own
+   * history was reset). Entries left without commands are removed.
+   */
+  remove(predicate: (command: UndoCommand) => boolean): void;
+  /** Counter bumped on every stack change (for useSyncExternalStore) */
+  version(): number;
+  /** Listen for stack changes; returns an unsubscribe function */
+  subscribe(listener: () => void): () => void;
+}
+
+interface UndoEntry {
+  id: string;
+  label: string;
+  timestamp: number;
+  commands: UndoCommand[];
+  coalesceKey?: string;
+}
+
+const DEFAULT_MAX_ENTRIES = 100;
+const DEFAULT_COALESCE_MS = 1000;
+
+let entryCounter = 0;
+
+export function createUndoManager(options: UndoManagerOptions = {}): UndoManager {
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  const coalesceMs = options.coalesceMs ?? DEFAULT_COALESCE_MS;
+  let entries: UndoEntry[] = [];
+  let cursor = 0;
+  let replaying = false;
+  let version = 0;
+  let transaction: { label: string; depth: number; commands: UndoCommand[] } | null = null;
+  const listeners = new Set<() => void>();
+
+  const notify = () => {
+    version++;
+    for (const listener of listeners) listener();
+  };
+
+  const toInfo = (entry: UndoEntry, index: number): UndoEntryInfo => ({
+    id: entry.id,
+    label: entry.label,
+    sources: Array.from(new Set(entry.commands.map((c) => c.source))),
+    timestamp: entry.timestamp,
+    commandCount: entry.commands.length,
+    applied: index < cursor,
+  });
+
+  const push = (label: string, commands: UndoCommand[], coalesceKey?: string) => {
+    if (commands.length === 0) return;
+    const now = Date.now();
+    const last = entries[cursor - 1];
+    const canCoalesce = coalesceKey !== undefined
+      && cursor === entries.length
+      && last?.coalesceKey === coalesceKey
+      && now - last.timestamp <= coalesceMs;
+    if (canCoalesce && last) {
+      last.commands.push(...commands);
+      last.timestamp = now;
+      notify();
+      return;
+    }
+
+    // A new change discards the redo branch
+    entries.splice(cursor);
+    entries.push({ id: `undo-${++entryCounter}`, label, timestamp: now, commands, coalesceKey });
+    if (entries.length > maxEntries) entries = entries.slice(-maxEntries);
+    cursor = entries.length;
+    notify();
+  };
+
+  const replay = (run: () => void) => {
+    replaying = true;
+    try {
+      run();
+    } finally {
+      replaying = false;
+    }
+  };
+
+  const manager: UndoManager = {
+    record(command) {
+      if (replaying) return;
+      if (transaction) {
+        transaction.commands.push(command);
+        return;
+      }
+      push(command.label, [command], command.coalesceKey);
+    },
+
+    begin(label) {
+      if (transaction) {
+        transaction.depth++;
+        return;
+      }
+      transaction = { label, depth: 1, commands: [] };
+    },
+
+    commit() {
+      if (!transaction) return;
+      transaction.depth--;
+      if (transaction.depth > 0) return;
+      const { label, commands } = transaction;
+      transaction = null;
+      push(label, commands);
+    },
+
+    transaction(label, fn) {
+      manager.begin(label);
+      try {
+        return fn();
+      } finally {
+        manager.commit();
+      }
+    },
+
+    undo() {
+      const entry = entries[cursor - 1];
+      if (!entry) return null;
+      cursor--;
+      replay(() => {
+        for (let i = entry.commands.length - 1; i >= 0; i--) entry.commands[i]!.undo();
+      });
+      notify();
+      return toInfo(entry, cursor);
+    },
+
+    redo() {
+      const entry = entries[cursor];
+      if (!entry) return null;
+      replay(() => {
+        for (const command of entry.commands) command.redo();
+      });
+      cursor++;
+      notify();
+      return toInfo(entry, cursor - 1);
+    },
+
+    canUndo: () => cursor > 0,
+    canRedo: () => cursor < entries.length,
+    isReplaying: () => replaying,
+    version: () => version,
+    entries: () => entries.map(toInfo),
+
+    clear() {
+      entries = [];
+      cursor = 0;
+      transaction = null;
+      notify();
+    },
+
+    remove(predicate) {
+      let removed = false;
+      let nextCursor = cursor;
+      const kept: UndoEntry[] = [];
+      entries.forEach((entry, index) => {
+        const commands = entry.commands.filter((command) => !predicate(command));
+        if (commands.length === entry.commands.length) {
+          kept.push(entry);
+          return;
+        }
+        removed = true;
+        if (commands.length === 0) {
+          if (index < cursor) nextCursor--;
+          return;
+        }
+        entry.commands = commands;
+        kept.push(entry);
+      });
+      if (transaction) {
+        transaction.commands = transaction.commands.filter((command) => !predicate(command));
+      }
+      if (!removed) return;
+      entries = kept;
+      cursor = nextCursor;
+      notify();
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+
+  return manager;
+}
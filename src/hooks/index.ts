@@ -4,8 +4,13 @@
 // Types
 export type {
   ChatMessage,
+  ChatMessagePart,
   ConversationTurn,
+  QueuedPrompt,
+  ConversationBranch,
   ConversationMessage,
+  ContextStrategy,
+  ContextWindowInput,
   UseUIStreamOptions,
   UseUIStreamReturn,
   FlatElement,
@@ -34,8 +39,18 @@ export type {
   DocumentIndexNode,
 } from "./types";
 
-// Utilities from types
-export { buildConversationMessages } from "./types";
+// Conversation context window
+export {
+  buildConversationMessages,
+  estimateTokens,
+  createFullHistoryStrategy,
+  createLastTurnsStrategy,
+  createTokenBudgetStrategy,
+  createRollingSummaryStrategy,
+  type ConversationSummarizer,
+  type TokenBudgetStrategyOptions,
+  type RollingSummaryStrategyOptions,
+} from "./ui-stream/context-window";
 
 // Text Selection types
 export type { TextSelectionInfo } from "./useTextSelection";
@@ -61,7 +76,7 @@ export type {
 } from "./useLayoutManager";
 
 // History types
-export type { HistorySnapshot, UseHistoryReturn } from "./useHistory";
+export type { HistorySnapshot, UseHistoryOptions, UseHistoryReturn } from "./useHistory";
 
 // Constants
 export { DEFAULT_AI_SETTINGS } from "./types";
@@ -69,6 +84,70 @@ export { DEFAULT_AI_SETTINGS } from "./types";
 // Main hook
 export { useUIStream } from "./useUIStream";
 
+// Stream transports (fetch SSE, WebSocket, in-memory)
+export {
+  createFetchSSETransport,
+  createWebSocketTransport,
+  createInMemoryTransport,
+  createRecordingTransport,
+  createReplayTransport,
+  type StreamTransport,
+  type TransportRequest,
+  type TransportStream,
+  type FetchSSETransportOptions,
+  type WebSocketTransportOptions,
+  type InMemoryFrameSource,
+  type StreamCassette,
+  type CassetteFrame,
+  type RecordingTransportOptions,
+  type ReplaySpeed,
+  type ReplayController,
+  type ReplayTransport,
+  type ReplayTransportOptions,
+} from "./ui-stream/transports";
+export {
+  replayCassetteToTree,
+  type CassetteReplayResult,
+} from "./ui-stream/replay-cassette";
+export {
+  hashTree,
+  TREE_DELTA_CAPABILITY,
+  TREE_BASE_MISMATCH_CODE,
+  type TreePayload,
+} from "./ui-stream/tree-sync";
+export {
+  DEFAULT_FRAME_BUDGET_MS,
+  type PatchPipelineMetrics,
+} from "./ui-stream/patch-pipeline";
+export {
+  createElementVisibilityTracker,
+  type ElementVisibilityTracker,
+} from "./ui-stream/element-visibility";
+export {
+  startPatchWorker,
+  createPatchWorkerClient,
+  type PatchWorkerClient,
+  type PatchWorkerScope,
+} from "./ui-stream/patch-worker";
+export {
+  STREAM_IDLE_TIMEOUT_CODE,
+  isIdleTimeoutError,
+} from "./ui-stream/stream-reader";
+export {
+  createFrameParser,
+  detectProtocolVersion,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  PROTOCOL_VERSIONS_HEADER,
+  type ProtocolVersion,
+  type FrameParser,
+  type FrameParserOptions,
+} from "./ui-stream/protocol-version";
+export type {
+  ProtocolPolicy,
+  ProtocolDiagnostic,
+  ParseFrameOptions,
+} from "./ui-stream/stream-parser";
+
 // Text Selection hook
 export { useTextSelection } from "./useTextSelection";
 
@@ -84,14 +163,33 @@ export { useResizable, getResizeCursor } from "./useResizable";
 // Layout Manager hook
 export { useLayoutManager } from "./useLayoutManager";
 
-// History hook (extracted for SOLID compliance)
+// History hook (patch-based undo/redo)
 export { useHistory } from "./useHistory";
+export {
+  createHistoryEngine,
+  diffStates,
+  applyHistoryPatches,
+  type HistoryEngine,
+  type HistoryEngineOptions,
+  type HistoryEntry,
+  type HistoryTimelineEntry,
+  type HistoryPatch,
+  type HistoryDiff,
+} from "./history";
 
 // Note: Plan state now managed by Zustand store. Use usePlanExecution() from store.
 
 // Deep Research hook
 export { useDeepResearch } from "./useDeepResearch";
 
+// Element streaming lifecycle hook
+export { useElementStreamingState } from "./useElementStreamingState";
+export {
+  getElementStreamingState,
+  type ElementStreamingPhase,
+  type ElementStreamingState,
+} from "./patches/streaming-lifecycle";
+
 // Editable Text rendering hook
 export {
   useRenderEditableText,
@@ -108,3 +206,5 @@ export {
   applyPatch,
   removeNodeFromTree,
 } from "./patch-utils";
+export { touchAncestors } from "./patches/structural-sharing";
+export { diffTrees } from "./tree-diff";
@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 import type { UITree } from "@onegenui/core";
-import { applyPatch } from "./patch-utils";
+import { applyPatch, isPlaceholder } from "./patch-utils";
 
 function createBaseTree(): UITree {
   return {
@@ -181,4 +181,28 @@ describe("patch-utils turn metadata", () => {
     expect(updated.elements["main-stack"]?.children).toEqual(["existing-card"]);
     expect(updated.elements["main-stack"]?.props.gap).toBe("xl");
   });
+
+  it("replaces a forward-referenced placeholder with the real element", () => {
+    const withChild = applyPatch(
+      createBaseTree(),
+      { op: "add", path: "/elements/main-stack/children/0", value: "late-card" },
+      { turnId: "turn-8" },
+    );
+    expect(isPlaceholder(withChild.elements["late-card"]!)).toBe(true);
+
+    const updated = applyPatch(
+      withChild,
+      {
+        op: "add",
+        path: "/elements/late-card",
+        value: { key: "late-card", type: "Card", props: { title: "Late" }, children: [] },
+      },
+      { turnId: "turn-8" },
+    );
+
+    const element = updated.elements["late-card"]!;
+    expect(element.type).toBe("Card");
+    expect(isPlaceholder(element)).toBe(false);
+    expect(element._meta?.createdTurnId).toBe("turn-8");
+  });
 });
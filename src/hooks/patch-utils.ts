@@ -7,6 +7,7 @@ import {
 import {
   setByPathWithStructuralSharing,
   removeByPath as removeByPathSharing,
+  touchAncestors,
 } from "./patches/structural-sharing";
 import {
   ensureChildrenExist,
@@ -16,7 +17,9 @@ import {
   createPlaceholder,
   isPlaceholder,
   getPatchDepth,
+  getPatchElementKey,
 } from "./patches/types";
+import { markStreamingPhases } from "./patches/streaming-lifecycle";
 
 // Re-exports from modular files
 export { isPlaceholder };
@@ -46,6 +49,8 @@ export interface ApplyPatchOptions {
   turnId?: string;
   /** Element types that should not be removed by AI (e.g., ["Canvas"]) */
   protectedTypes?: string[];
+  /** Record each element's streaming phase in `_meta.streamingPhase` */
+  trackStreaming?: boolean;
 }
 
 type ElementMeta = UIElement["_meta"];
@@ -123,6 +128,25 @@ export function applyPatch(
   tree: UITree,
   patch: JsonPatch,
   options: ApplyPatchOptions = {},
+): UITree {
+  const newTree = applyPatchToTree(tree, patch, options);
+  const patchedKey = getPatchElementKey(patch);
+  if (newTree !== tree && patchedKey) {
+    touchAncestors(newTree.elements, [patchedKey], { previous: tree.elements, root: newTree.root });
+  }
+  return newTree;
+}
+
+/**
+ * Apply a JSON patch without touching ancestors (batches touch them once).
+ * With `owned`, the tree and its elements map are updated in place instead
+ * of copied, so a batch copies them once rather than once per patch.
+ */
+function applyPatchToTree(
+  tree: UITree,
+  patch: JsonPatch,
+  options: ApplyPatchOptions,
+  owned = false,
 ): UITree {
   const { turnId, protectedTypes = [] } = options;
   const parsedPatch = NormalizedUiPatchSchema.safeParse(patch);
@@ -138,7 +162,7 @@ export function applyPatch(
     throw new Error("Invalid UI patch: path is required.");
   }
 
-  const newTree = { ...tree, elements: { ...tree.elements } };
+  const newTree = owned ? tree : { ...tree, elements: { ...tree.elements } };
 
   switch (normalizedPatch.op) {
     case "set":
@@ -159,7 +183,9 @@ export function applyPatch(
 
         if (pathParts.length === 1) {
           const element = normalizedPatch.value as UIElement;
-          const existingElement = newTree.elements[elementKey];
+          // A placeholder only reserves the key; the real element replaces it
+          const current = newTree.elements[elementKey];
+          const existingElement = current && !isPlaceholder(current) ? current : undefined;
           const mergedElement =
             (normalizedPatch.op === "add" ||
               normalizedPatch.op === "replace") &&
@@ -344,7 +370,7 @@ export function applyPatchesBatch(
   const applyGroup = (group: JsonPatch[]) => {
     for (const patch of group) {
       try {
-        newTree = applyPatch(newTree, patch, options);
+        newTree = applyPatchToTree(newTree, patch, options, true);
       } catch (e) {
         if (typeof console !== "undefined") {
           console.warn("[applyPatchesBatch] Skipping invalid patch:", patch.path, e);
@@ -357,5 +383,16 @@ export function applyPatchesBatch(
   applyGroup(propPatches);
   applyGroup(otherPatches);
 
-  return newTree;
+  // Ancestors of every patched element get new references, so renderers
+  // can skip an element whose reference is unchanged
+  const patchedKeys = new Set<string>();
+  for (const patch of patches) {
+    const key = getPatchElementKey(patch);
+    if (key) patchedKeys.add(key);
+  }
+  touchAncestors(newTree.elements, patchedKeys, { previous: tree.elements, root: newTree.root });
+
+  return options.trackStreaming
+    ? markStreamingPhases(tree, newTree, patches)
+    : newTree;
 }
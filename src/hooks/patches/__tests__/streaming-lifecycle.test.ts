@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import type { UITree, JsonPatch } from "@onegenui/core";
+import {
+  markStreamingPhases,
+  finalizeStreamingPhases,
+  getElementStreamingState,
+  getStreamingPhase,
+} from "../streaming-lifecycle";
+import { createPlaceholder } from "../types";
+
+const baseTree = (): UITree => ({
+  root: "root",
+  elements: {
+    root: { key: "root", type: "Stack", props: {}, children: ["card"] },
+    card: {
+      key: "card",
+      type: "Card",
+      props: { title: "A" },
+      parentKey: "root",
+      children: ["text"],
+    },
+    text: createPlaceholder("text"),
+  },
+});
+
+const setPatch = (path: string, value: unknown): JsonPatch =>
+  ({ op: "set", path, value }) as JsonPatch;
+
+describe("streaming-lifecycle", () => {
+  it("marks new elements as created and patched ones as receiving props", () => {
+    const prev = baseTree();
+    const next: UITree = {
+      ...prev,
+      elements: {
+        ...prev.elements,
+        card: { ...prev.elements.card!, props: { title: "B" } },
+        extra: { key: "extra", type: "Text", props: {} },
+      },
+    };
+
+    const result = markStreamingPhases(prev, next, [
+      setPatch("/elements/card/props/title", "B"),
+      setPatch("/elements/extra", next.elements.extra),
+    ]);
+
+    expect(getStreamingPhase(result.elements.card)).toBe("receiving-props");
+    expect(getStreamingPhase(result.elements.extra)).toBe("created");
+    expect(result.elements.root).toBe(prev.elements.root);
+  });
+
+  it("marks a parent children-complete when its last child arrives", () => {
+    const prev = baseTree();
+    prev.elements.card = {
+      ...prev.elements.card!,
+      _meta: { streamingPhase: "receiving-props" },
+    } as UITree["elements"][string];
+    const text = { key: "text", type: "Text", props: {}, parentKey: "card" };
+    const next: UITree = { ...prev, elements: { ...prev.elements, text } };
+
+    const result = markStreamingPhases(prev, next, [setPatch("/elements/text", text)]);
+
+    expect(getStreamingPhase(result.elements.text)).toBe("created");
+    expect(getStreamingPhase(result.elements.card)).toBe("children-complete");
+    // Root was never streamed: left alone
+    expect(getStreamingPhase(result.elements.root)).toBeNull();
+  });
+
+  it("finalizes streaming elements and keeps the tree when nothing streams", () => {
+    const prev = baseTree();
+    const extra = { key: "extra", type: "Text", props: {} };
+    const next = markStreamingPhases(
+      prev,
+      { ...prev, elements: { ...prev.elements, extra } },
+      [setPatch("/elements/extra", extra)],
+    );
+
+    const finalized = finalizeStreamingPhases(next);
+    expect(getElementStreamingState(finalized.elements.extra)).toEqual({
+      phase: "finalized",
+      isStreaming: false,
+    });
+    expect(finalizeStreamingPhases(finalized)).toBe(finalized);
+  });
+});
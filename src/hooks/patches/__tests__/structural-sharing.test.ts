@@ -1,7 +1,9 @@
 import { describe, it, expect } from "vitest";
+import type { UIElement } from "@onegenui/core";
 import {
   setByPathWithStructuralSharing,
   removeByPath,
+  touchAncestors,
 } from "../structural-sharing";
 
 describe("structural-sharing", () => {
@@ -92,4 +94,33 @@ describe("structural-sharing", () => {
       expect(obj).toEqual({ a: 1 });
     });
   });
+
+  describe("touchAncestors", () => {
+    const createElements = (): Record<string, UIElement> => ({
+      root: { key: "root", type: "Stack", props: {}, children: ["card", "other"] },
+      card: { key: "card", type: "Card", props: {}, children: ["text"] },
+      other: { key: "other", type: "Card", props: {}, children: [] },
+      text: { key: "text", type: "Text", props: {}, parentKey: "card" },
+    });
+
+    it("should copy every ancestor and nothing else", () => {
+      const previous = createElements();
+      const elements = { ...previous, text: { ...previous.text!, props: { v: 1 } } };
+      touchAncestors(elements, ["text"], { previous, root: "root" });
+
+      expect(elements.card).not.toBe(previous.card);
+      expect(elements.root).not.toBe(previous.root);
+      expect(elements.card).toEqual(previous.card);
+      expect(elements.other).toBe(previous.other);
+    });
+
+    it("should resolve removed keys through the previous elements", () => {
+      const previous = createElements();
+      const { text: _, ...elements } = previous;
+      touchAncestors(elements, ["text"], { previous });
+
+      expect(elements.card).not.toBe(previous.card);
+      expect(elements.root).not.toBe(previous.root);
+    });
+  });
 });
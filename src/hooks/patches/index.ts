@@ -20,6 +20,7 @@ export {
 export {
   setByPathWithStructuralSharing,
   removeByPath,
+  touchAncestors,
 } from "./structural-sharing";
 
 // Tree manipulation utilities
@@ -30,8 +31,21 @@ export {
   getDescendantKeys,
 } from "./tree-utils";
 
+// Element streaming lifecycle
+export {
+  type ElementStreamingPhase,
+  type ElementStreamingState,
+  getStreamingPhase,
+  getElementStreamingState,
+  markStreamingPhases,
+  finalizeStreamingPhases,
+} from "./streaming-lifecycle";
+
 // Re-export from main patch-utils
 export { parsePatchLine, applyPatch, applyPatchesBatch } from "../patch-utils";
 
+// Re-export diffTrees from its module
+export { diffTrees } from "../tree-diff";
+
 // Re-export flatToTree from its module
 export { flatToTree } from "../flat-to-tree";
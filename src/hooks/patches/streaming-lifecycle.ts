@@ -0,0 +1,125 @@
+/**
+ * Element streaming lifecycle
+ *
+ * Tracks where each element is in its stream, recorded as
+ * `_meta.streamingPhase`:
+ * - created: the element was added by the current batch
+ * - receiving-props: a later batch patched it
+ * - children-complete: every child it references has arrived
+ * - finalized: the turn that streamed it has ended
+ *
+ * Elements that were never streamed have no phase.
+ */
+
+import type { JsonPatch, UIElement, UITree } from "@onegenui/core";
+import { getPatchElementKey, isPlaceholder } from "./types";
+import { touchAncestors } from "./structural-sharing";
+
+export type ElementStreamingPhase =
+  | "created"
+  | "receiving-props"
+  | "children-complete"
+  | "finalized";
+
+export interface ElementStreamingState {
+  /** Current phase (null when the element was never streamed) */
+  phase: ElementStreamingPhase | null;
+  /** Whether the element may still change in the current turn */
+  isStreaming: boolean;
+}
+
+/**
+ * Get the streaming phase recorded on an element
+ */
+export function getStreamingPhase(
+  element: UIElement | undefined,
+): ElementStreamingPhase | null {
+  const meta = element?._meta as { streamingPhase?: ElementStreamingPhase } | undefined;
+  return meta?.streamingPhase ?? null;
+}
+
+/**
+ * Get the streaming state of an element
+ */
+export function getElementStreamingState(
+  element: UIElement | undefined,
+): ElementStreamingState {
+  const phase = getStreamingPhase(element);
+  return { phase, isStreaming: phase !== null && phase !== "finalized" };
+}
+
+function withPhase(element: UIElement, phase: ElementStreamingPhase): UIElement {
+  if (getStreamingPhase(element) === phase) return element;
+  return { ...element, _meta: { ...element._meta, streamingPhase: phase } } as UIElement;
+}
+
+function hasAllChildren(tree: UITree, element: UIElement): boolean {
+  return (element.children ?? []).every((childKey) => {
+    const child = tree.elements[childKey];
+    return child !== undefined && !isPlaceholder(child);
+  });
+}
+
+/**
+ * Stamp streaming phases after a batch of patches turned `prev` into `next`.
+ * Only elements whose phase changes get a new reference.
+ */
+export function markStreamingPhases(
+  prev: UITree,
+  next: UITree,
+  patches: JsonPatch[],
+): UITree {
+  if (next === prev) return next;
+
+  const touched = new Set<string>();
+  for (const patch of patches) {
+    const key = getPatchElementKey(patch);
+    if (key && next.elements[key] && !isPlaceholder(next.elements[key])) {
+      touched.add(key);
+    }
+  }
+  if (touched.size === 0) return next;
+
+  const elements = { ...next.elements };
+  const candidates = new Set<string>();
+
+  for (const key of touched) {
+    const before = prev.elements[key];
+    const isNew = !before || isPlaceholder(before);
+    elements[key] = withPhase(elements[key]!, isNew ? "created" : "receiving-props");
+    candidates.add(key);
+    // An arriving child can complete its parent
+    const parentKey = elements[key]!.parentKey;
+    if (isNew && parentKey && elements[parentKey]) candidates.add(parentKey);
+  }
+
+  const stamped = { ...next, elements };
+  for (const key of candidates) {
+    const element = elements[key]!;
+    const phase = getStreamingPhase(element);
+    // Untouched parents that were never streamed or already finalized stay as is
+    if (!touched.has(key) && (phase === null || phase === "finalized")) continue;
+    if (element.children?.length && hasAllChildren(stamped, element)) {
+      elements[key] = withPhase(element, "children-complete");
+    }
+  }
+
+  return stamped;
+}
+
+/**
+ * Mark every element still streaming as finalized (end of turn).
+ * Returns the same tree when nothing changed.
+ */
+export function finalizeStreamingPhases(tree: UITree): UITree {
+  const finalized: string[] = [];
+  for (const [key, element] of Object.entries(tree.elements)) {
+    if (getElementStreamingState(element).isStreaming) finalized.push(key);
+  }
+  if (finalized.length === 0) return tree;
+
+  const elements = { ...tree.elements };
+  for (const key of finalized) elements[key] = withPhase(elements[key]!, "finalized");
+  touchAncestors(elements, finalized, { previous: tree.elements, root: tree.root });
+  return { ...tree, elements };
+}
@@ -2,6 +2,8 @@
  * Structural sharing utilities for immutable updates
  */
 
+import type { UIElement } from "@onegenui/core";
+
 /**
  * Set a value by JSON Pointer path with structural sharing.
  * Only clones objects along the modified path.
@@ -139,3 +141,54 @@ export function removeByPath(
 
   delete current[lastSegment];
 }
+
+/**
+ * Give every ancestor of the changed elements a new reference, so a change
+ * anywhere in a subtree shows as a reference change on each element above
+ * it. Renderers can then skip an element when its reference is unchanged.
+ *
+ * `elements` must be owned by the caller (a copy, or an immer draft); it is
+ * updated in place. Ancestors that already differ from `previous` are not
+ * copied again, and removed keys are resolved through it. Parents come from
+ * `parentKey`, or from the children lists for elements without one (the
+ * root, when given, has no parent).
+ */
+export function touchAncestors(
+  elements: Record<string, UIElement>,
+  changedKeys: Iterable<string>,
+  options: { previous?: Record<string, UIElement>; root?: string } = {},
+): void {
+  const { previous, root } = options;
+  let parents: Map<string, string> | null = null;
+  const parentOf = (key: string): string | undefined => {
+    if (key === root) return undefined;
+    const element = elements[key] ?? previous?.[key];
+    if (element?.parentKey) return element.parentKey;
+    // Index the children lists once, on the first element without parentKey
+    if (!parents) {
+      parents = new Map();
+      for (const source of previous ? [previous, elements] : [elements]) {
+        for (const candidate of Object.values(source)) {
+          for (const childKey of candidate.children ?? []) {
+            parents.set(childKey, candidate.key);
+          }
+        }
+      }
+    }
+    return parents.get(key);
+  };
+
+  const touched = new Set<string>();
+  for (const key of changedKeys) {
+    let parentKey = parentOf(key);
+    while (parentKey && !touched.has(parentKey)) {
+      touched.add(parentKey);
+      const parent = elements[parentKey];
+      if (!parent) break;
+      if (!previous || parent === previous[parentKey]) {
+        elements[parentKey] = { ...parent };
+      }
+      parentKey = parentOf(parentKey);
+    }
+  }
+}
@@ -94,6 +94,15 @@ export function getPatchDepth(patch: JsonPatch): number {
   return parts.length;
 }
 
+/**
+ * Key of the element a patch targets (`/elements/<key>/...`), if any
+ */
+export function getPatchElementKey(patch: Pick<JsonPatch, "path">): string | null {
+  if (!patch.path.startsWith("/elements/")) return null;
+  const key = patch.path.slice("/elements/".length).split("/")[0];
+  return key ? key.replace(/~1/g, "/").replace(/~0/g, "~") : null;
+}
+
 /**
  * Sort patches for deterministic processing order
  */
@@ -73,7 +73,7 @@ export function parseSSELine(line: string): ParsedOperation | null {
 /**
  * Parse a data payload (object or array format)
  */
-function parseDataPayload(data: unknown): ParsedOperation {
+export function parseDataPayload(data: unknown): ParsedOperation {
   if (!data || typeof data !== "object") {
     return { type: "unknown", raw: data };
   }
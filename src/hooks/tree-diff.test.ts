@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import type { UIElement, UITree } from "@onegenui/core";
+import { applyPatchesBatch } from "./patch-utils";
+import { diffTrees } from "./tree-diff";
+
+function element(
+  key: string,
+  props: Record<string, unknown>,
+  children: string[] = [],
+): UIElement {
+  return {
+    key,
+    type: children.length > 0 ? "Stack" : "Text",
+    props,
+    children,
+    _meta: {
+      turnId: "turn-1",
+      createdTurnId: "turn-1",
+      lastModifiedTurnId: "turn-1",
+      createdAt: 1,
+      lastModifiedAt: 1,
+    },
+  } as UIElement;
+}
+
+function createBaseTree(): UITree {
+  return {
+    root: "main",
+    elements: {
+      main: element("main", { gap: "md" }, ["a", "b", "c"]),
+      a: element("a", { text: "A", tone: "muted" }),
+      b: element("b", { text: "B" }),
+      c: element("c", { text: "C" }),
+    },
+  };
+}
+
+describe("diffTrees", () => {
+  it("returns no patches for identical trees", () => {
+    const tree = createBaseTree();
+    expect(diffTrees(tree, tree)).toEqual([]);
+    expect(diffTrees(tree, createBaseTree())).toEqual([]);
+  });
+
+  it("emits per-prop patches for changed props", () => {
+    const prev = createBaseTree();
+    const next: UITree = {
+      ...prev,
+      elements: {
+        ...prev.elements,
+        a: { ...prev.elements.a!, props: { text: "A2", size: "lg" } },
+      },
+    };
+
+    expect(diffTrees(prev, next)).toEqual([
+      { op: "remove", path: "/elements/a/props/tone" },
+      { op: "set", path: "/elements/a/props/text", value: "A2" },
+      { op: "set", path: "/elements/a/props/size", value: "lg" },
+    ]);
+  });
+
+  it("round-trips additions, removals, moves and _meta through applyPatchesBatch", () => {
+    const prev = createBaseTree();
+    const next: UITree = {
+      root: "main",
+      elements: {
+        main: {
+          ...element("main", { gap: "lg" }, ["c", "d", "a"]),
+          _meta: { ...prev.elements.main!._meta!, lastModifiedTurnId: "turn-2" },
+        },
+        a: prev.elements.a!,
+        c: { ...prev.elements.c!, props: { text: "C2" } },
+        d: element("d", { text: "D" }),
+      },
+    };
+
+    const patches = diffTrees(prev, next);
+    expect(applyPatchesBatch(prev, patches)).toEqual(next);
+  });
+
+  it("diffs from an empty state", () => {
+    const next = createBaseTree();
+    expect(applyPatchesBatch({ root: "", elements: {} }, diffTrees(null, next))).toEqual(
+      next,
+    );
+  });
+});
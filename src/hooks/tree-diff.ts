@@ -0,0 +1,119 @@
+import type { UITree, UIElement, JsonPatch } from "@onegenui/core";
+
+/**
+ * Tree diffing - JSON patches between two UITrees
+ *
+ * The output is shaped for applyPatchesBatch (see ./patch-utils):
+ * - new elements are one whole-element `set`
+ * - removed elements are one element-level `remove`
+ * - changed props are per-prop `set` / `remove`
+ * - changed children arrays (inserts, removals, moves) are one `set` of the
+ *   full array, because index-based ops do not survive the batch's path sort
+ * - `_meta` and other element fields are replaced as a whole
+ *
+ * Unchanged elements are skipped by reference, so diffs between turn
+ * snapshots that share structure stay cheap.
+ */
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const aKeys = Object.keys(aRecord);
+  if (aKeys.length !== Object.keys(bRecord).length) return false;
+  return aKeys.every((key) => key in bRecord && isEqual(aRecord[key], bRecord[key]));
+}
+
+function diffProps(
+  basePath: string,
+  prev: Record<string, unknown>,
+  next: Record<string, unknown>,
+  patches: JsonPatch[],
+): void {
+  // Prop paths are not unescaped when applied; replace the whole map instead
+  const keys = [...Object.keys(prev), ...Object.keys(next)];
+  if (keys.some((key) => key.includes("/") || key.includes("~"))) {
+    patches.push({ op: "set", path: basePath, value: next });
+    return;
+  }
+
+  for (const key of Object.keys(prev)) {
+    if (!(key in next)) {
+      patches.push({ op: "remove", path: `${basePath}/${key}` });
+    }
+  }
+  for (const [key, value] of Object.entries(next)) {
+    if (!(key in prev) || !isEqual(prev[key], value)) {
+      patches.push({ op: "set", path: `${basePath}/${key}`, value });
+    }
+  }
+}
+
+function diffElement(
+  key: string,
+  prev: UIElement,
+  next: UIElement,
+  patches: JsonPatch[],
+): void {
+  const basePath = `/elements/${key}`;
+  const prevFields = prev as unknown as Record<string, unknown>;
+  const nextFields = next as unknown as Record<string, unknown>;
+
+  if (prev.props !== next.props) {
+    diffProps(`${basePath}/props`, prev.props ?? {}, next.props ?? {}, patches);
+  }
+
+  const fields = new Set([...Object.keys(prevFields), ...Object.keys(nextFields)]);
+  fields.delete("props");
+  for (const field of fields) {
+    const prevValue = prevFields[field];
+    const nextValue = nextFields[field];
+    if (isEqual(prevValue, nextValue)) continue;
+    if (nextValue === undefined) {
+      patches.push({ op: "remove", path: `${basePath}/${field}` });
+    } else {
+      patches.push({ op: "set", path: `${basePath}/${field}`, value: nextValue });
+    }
+  }
+}
+
+/**
+ * Compute the patches that turn `prev` into `next`.
+ * `applyPatchesBatch(prev, diffTrees(prev, next))` yields a tree equal to
+ * `next` (element `_meta` must carry its turn/timestamp fields, as trees
+ * built by the patch pipeline do).
+ */
+export function diffTrees(prev: UITree | null, next: UITree): JsonPatch[] {
+  const patches: JsonPatch[] = [];
+  const prevElements = prev?.elements ?? {};
+
+  if (prev?.root !== next.root) {
+    patches.push({ op: "set", path: "/root", value: next.root });
+  }
+  if (prev && prev.elements === next.elements) return patches;
+
+  for (const key of Object.keys(prevElements)) {
+    if (!(key in next.elements)) {
+      patches.push({ op: "remove", path: `/elements/${key}` });
+    }
+  }
+
+  for (const [key, element] of Object.entries(next.elements)) {
+    const prevElement = prevElements[key];
+    if (prevElement === element) continue;
+    if (!prevElement) {
+      patches.push({ op: "set", path: `/elements/${key}`, value: element });
+      continue;
+    }
+    diffElement(key, prevElement, element, patches);
+  }
+
+  return patches;
+}
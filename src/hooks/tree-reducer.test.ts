@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import type { UITree } from "@onegenui/core";
+import { treeReducer } from "./tree-reducer";
+
+function createTree(): UITree {
+  return {
+    root: "root",
+    elements: {
+      root: { key: "root", type: "Stack", props: {}, children: ["card", "aside"] },
+      card: { key: "card", type: "Card", props: {}, children: ["title"], parentKey: "root" },
+      title: { key: "title", type: "Text", props: { text: "Title" }, parentKey: "card" },
+      aside: { key: "aside", type: "Text", props: { text: "Aside" }, parentKey: "root" },
+    },
+  };
+}
+
+describe("treeReducer", () => {
+  it("gives the ancestors of a new element new references", () => {
+    const tree = createTree();
+    const next = treeReducer(tree, {
+      type: "PATCH",
+      patch: {
+        op: "add",
+        path: "/elements/body",
+        value: { key: "body", type: "Text", props: { text: "Body" }, parentKey: "card" },
+      },
+    });
+
+    expect(next.elements.body?.props.text).toBe("Body");
+    expect(next.elements.card).not.toBe(tree.elements.card);
+    expect(next.elements.root).not.toBe(tree.elements.root);
+    expect(next.elements.title).toBe(tree.elements.title);
+    expect(next.elements.aside).toBe(tree.elements.aside);
+  });
+
+  it("touches each ancestor once for a batch and leaves other branches shared", () => {
+    const tree = createTree();
+    const next = treeReducer(tree, {
+      type: "PATCH_BATCH",
+      patches: [
+        { op: "set", path: "/elements/title/props/text", value: "Renamed" },
+        { op: "set", path: "/elements/title/props/tone", value: "muted" },
+      ],
+    });
+
+    expect(next.elements.title?.props).toEqual({ text: "Renamed", tone: "muted" });
+    expect(next.elements.card).not.toBe(tree.elements.card);
+    expect(next.elements.root).not.toBe(tree.elements.root);
+    expect(next.elements.card).toEqual(tree.elements.card);
+    expect(next.elements.aside).toBe(tree.elements.aside);
+  });
+});
@@ -3,10 +3,14 @@
  *
  * Pure reducer function for managing UITree state.
  * Guarantees immutability - every action returns a NEW tree reference.
+ * Patches give the ancestors of each changed element new references, like
+ * applyPatch, so memoized renderers see changes anywhere in a subtree.
  */
 
 import type { UITree, UIElement, JsonPatch } from "@onegenui/core";
 import { setByPath } from "@onegenui/core";
+import { touchAncestors } from "./patches/structural-sharing";
+import { getPatchElementKey } from "./patches/types";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Action Types
@@ -34,12 +38,20 @@ export const initialTree: UITree = {
 export function treeReducer(state: UITree, action: TreeAction): UITree {
   switch (action.type) {
     case "PATCH":
-      return applyPatchImmutable(state, action.patch);
+      return touchPatchedAncestors(
+        state,
+        applyPatchImmutable(state, action.patch),
+        [action.patch],
+      );
 
     case "PATCH_BATCH":
-      return action.patches.reduce(
-        (tree, patch) => applyPatchImmutable(tree, patch),
+      return touchPatchedAncestors(
         state,
+        action.patches.reduce(
+          (tree, patch) => applyPatchImmutable(tree, patch),
+          state,
+        ),
+        action.patches,
       );
 
     case "RESET":
@@ -139,6 +151,24 @@ function applyPatchImmutable(tree: UITree, patch: JsonPatch): UITree {
 // Utilities
 // ─────────────────────────────────────────────────────────────────────────────
 
+function touchPatchedAncestors(
+  previous: UITree,
+  next: UITree,
+  patches: JsonPatch[],
+): UITree {
+  const patchedKeys = new Set<string>();
+  for (const patch of patches) {
+    const key = getPatchElementKey(patch);
+    if (key) patchedKeys.add(key);
+  }
+  // next.elements is a fresh copy made by applyPatchImmutable
+  touchAncestors(next.elements, patchedKeys, {
+    previous: previous.elements,
+    root: next.root,
+  });
+  return next;
+}
+
 function deepClone<T>(value: T): T {
   if (value === null || typeof value !== "object") {
     return value;
@@ -4,6 +4,11 @@ import type {
   DocumentIndex,
   DocumentIndexNode,
 } from "@onegenui/core";
+import type { StreamTransport } from "./ui-stream/transports/types";
+import type { ProtocolDiagnostic, ProtocolPolicy } from "./ui-stream/stream-parser";
+import type { ProtocolVersion } from "./ui-stream/protocol-version";
+import type { PatchPipelineMetrics } from "./ui-stream/patch-pipeline";
+import type { HistoryTimelineEntry } from "./history/engine";
 
 // Re-export core types for convenience
 export type { DocumentIndex, DocumentIndexNode };
@@ -86,6 +91,37 @@ export interface SuggestionChip {
 // Chat Types
 // ─────────────────────────────────────────────────────────────────────────────
 
+/**
+ * Typed part of a chat message, in display order
+ */
+export type ChatMessagePart =
+  | { type: "text"; text: string }
+  | { type: "reasoning"; text: string }
+  | {
+      type: "tool-call";
+      toolCallId: string;
+      toolName: string;
+      args?: unknown;
+      status?: ToolProgress["status"];
+      /** Latest progress message */
+      message?: string;
+    }
+  | {
+      type: "tool-result";
+      toolCallId: string;
+      toolName: string;
+      result: unknown;
+      isError?: boolean;
+    }
+  | {
+      type: "source";
+      sourceId: string;
+      title?: string;
+      url?: string;
+      snippet?: string;
+    }
+  | { type: "file"; mediaType: string; url: string; filename?: string };
+
 /**
  * Chat message type
  */
@@ -93,7 +129,10 @@ export interface ChatMessage {
   id?: string;
   mode?: "append" | "replace" | "final";
   role: "assistant" | "user" | "system";
+  /** Plain text of the message (the text parts, joined) */
   content: string;
+  /** Ordered text, reasoning, tool and source parts */
+  parts?: ChatMessagePart[];
 }
 
 /**
@@ -189,8 +228,50 @@ export interface ConversationTurn {
   error?: string;
   /** Whether turn is still loading */
   isLoading?: boolean;
-  /** Turn completion status for detailed state tracking */
-  status?: "pending" | "streaming" | "complete" | "failed" | "partial";
+  /**
+   * Turn completion status for detailed state tracking.
+   * "queued" while the prompt waits for the chat's current stream to finish;
+   * "reconnecting" while a dropped stream is being resumed; "partial" when
+   * resumption gave up and the turn holds only what arrived before the drop.
+   */
+  status?: "queued" | "pending" | "streaming" | "reconnecting" | "complete" | "failed" | "partial";
+  /**
+   * Other versions of this turn (edits / regenerations). Each entry is that
+   * version's turn followed by the turns after it, with their own snapshots.
+   */
+  siblings?: ConversationTurn[][];
+  /** Position of this version among all versions (siblings + this one) */
+  versionIndex?: number;
+  /** Summary of the conversation up to and including this turn (rolling summary strategy) */
+  contextSummary?: string;
+}
+
+/**
+ * One version at a conversation fork
+ */
+export interface ConversationBranch {
+  /** Position among the fork's versions, oldest first */
+  index: number;
+  /** First turn of the version */
+  turn: ConversationTurn;
+  /** Number of turns on this version's path */
+  length: number;
+  /** Whether this version is on the active path */
+  isActive: boolean;
+}
+
+/**
+ * Prompt waiting for its chat's current stream to finish
+ */
+export interface QueuedPrompt {
+  /** ID of the queued conversation turn */
+  id: string;
+  /** Chat the prompt will run in */
+  chatId: string;
+  prompt: string;
+  context?: Record<string, unknown>;
+  attachments?: Attachment[];
+  enqueuedAt: number;
 }
 
 /**
@@ -198,42 +279,32 @@ export interface ConversationTurn {
  * Used to pass conversation history to backend for native multi-turn support.
  */
 export interface ConversationMessage {
-  role: "user" | "assistant";
+  /** "system" is only used for rolling conversation summaries */
+  role: "user" | "assistant" | "system";
   content: string;
 }
 
 /**
- * Converts ConversationTurn[] to ConversationMessage[] for AI SDK.
- * Includes all completed turns - model handles context window.
+ * What a context strategy receives when a request is built
  */
-export function buildConversationMessages(
-  turns: ConversationTurn[],
-): ConversationMessage[] {
-  const messages: ConversationMessage[] = [];
-
-  for (const turn of turns) {
-    // Skip proactive turns and incomplete turns
-    if (turn.isProactive || !turn.assistantMessages?.length) continue;
-
-    // Add user message
-    if (turn.userMessage) {
-      messages.push({ role: "user", content: turn.userMessage });
-    }
-
-    // Add assistant response
-    const assistantContent = turn.assistantMessages
-      .map((m) => m.content)
-      .filter(Boolean)
-      .join("\n");
-
-    if (assistantContent) {
-      messages.push({ role: "assistant", content: assistantContent });
-    }
-  }
-
-  return messages;
+export interface ContextWindowInput {
+  /** Turns of the active path before the new prompt, oldest first */
+  turns: ConversationTurn[];
+  /** Cache data on a turn (e.g. `contextSummary`); kept with the conversation */
+  updateTurn: (turnId: string, updates: Partial<ConversationTurn>) => void;
+  /** Aborted with the turn; pass it on to model or network calls */
+  signal?: AbortSignal;
 }
 
+/**
+ * Chooses the conversation history sent with a request.
+ * See createLastTurnsStrategy, createTokenBudgetStrategy and
+ * createRollingSummaryStrategy.
+ */
+export type ContextStrategy = (
+  input: ContextWindowInput,
+) => ConversationMessage[] | Promise<ConversationMessage[]>;
+
 // ─────────────────────────────────────────────────────────────────────────────
 // useUIStream Types
 // ─────────────────────────────────────────────────────────────────────────────
@@ -254,6 +325,52 @@ export interface UseUIStreamOptions {
   getChatId?: () => string | undefined;
   /** Callback when stream completes for a different chat (background completion) */
   onBackgroundComplete?: (chatId: string, tree: UITree, conversation: ConversationTurn[]) => void;
+  /**
+   * Saved state of a chat that is not on screen, so a prompt sent to it
+   * (`context.chatId`) continues from its tree and history
+   */
+  getChatSession?: (chatId: string) => { tree: UITree | null; conversation: ConversationTurn[] } | null | undefined;
+  /**
+   * Transport that carries wire frames (default: fetch SSE POST to `api`).
+   * See createWebSocketTransport / createInMemoryTransport.
+   */
+  transport?: StreamTransport;
+  /**
+   * Selects the conversation history sent with each request
+   * (default: every finished turn of the active path).
+   */
+  contextStrategy?: ContextStrategy;
+  /**
+   * How frames that fail validation are handled: "strict" fails the turn,
+   * "lenient" skips the frame, "repair" converts legacy payloads and skips
+   * what it cannot convert. By default invalid frames fail the turn and
+   * lines that are not JSON are skipped.
+   */
+  protocolPolicy?: ProtocolPolicy;
+  /** Called for every rejected, skipped or repaired frame */
+  onDiagnostic?: (diagnostic: ProtocolDiagnostic) => void;
+  /**
+   * Stream protocol versions the client accepts, preferred first
+   * (default: ["3", "2"]). The backend's version is detected per stream.
+   */
+  protocolVersions?: ProtocolVersion[];
+  /**
+   * Resume a stream that sends nothing (not even a heartbeat) for this long.
+   * A function picks the timeout per request. Default: 2 minutes, or
+   * 5 minutes when `context.deepResearch` is set.
+   */
+  idleTimeoutMs?: number | ((prompt: string, context?: Record<string, unknown>) => number);
+  /**
+   * Worker running startPatchWorker(). Patches are then applied off the
+   * main thread; leave unset during SSR and in tests.
+   */
+  patchWorker?: Worker;
+  /** Main-thread time per frame for applying and rendering patches (default 8ms) */
+  frameBudgetMs?: number;
+  /** Hold back prop patches for off-screen elements until visible work is done (default true) */
+  deferOffscreenPatches?: boolean;
+  /** Called after every patch flush (queue depth, flush duration, patches per second) */
+  onPipelineMetrics?: (metrics: PatchPipelineMetrics) => void;
 }
 
 /**
@@ -264,18 +381,37 @@ export interface UseUIStreamReturn {
   tree: UITree | null;
   /** Full conversation history (user messages + assistant messages + snapshots) */
   conversation: ConversationTurn[];
-  /** Whether currently streaming */
+  /** Whether the current chat is streaming */
   isStreaming: boolean;
+  /** IDs of every chat with a live stream, including background chats */
+  streamingChatIds: string[];
   /** Error if any */
   error: Error | null;
+  /** Frames rejected, skipped or repaired by the protocol policy (most recent last) */
+  diagnostics: ProtocolDiagnostic[];
   /** Send a prompt to generate UI */
   send: (
     prompt: string,
     context?: Record<string, unknown>,
     attachments?: Attachment[],
   ) => Promise<void>;
-  /** Clear the current tree and conversation */
+  /** Clear the current tree, conversation and prompt queue */
   clear: () => void;
+  /** Prompts of the current chat waiting to run, in order */
+  queue: QueuedPrompt[];
+  /**
+   * Queue a prompt to run after the current chat's stream finishes (runs
+   * immediately when idle). Returns the ID of its conversation turn.
+   */
+  enqueue: (
+    prompt: string,
+    context?: Record<string, unknown>,
+    attachments?: Attachment[],
+  ) => string;
+  /** Drop a queued prompt */
+  removeFromQueue: (id: string) => void;
+  /** Move a queued prompt to a new position in the queue */
+  reorderQueue: (id: string, toIndex: number) => void;
   /** Remove an element from the tree */
   removeElement: (elementKey: string) => void;
   /** Remove specific sub-items from an element's array prop by index or ID (supports undo) */
@@ -298,10 +434,19 @@ export interface UseUIStreamReturn {
       resizable?: boolean;
     },
   ) => void;
-  /** Delete a turn and rollback to previous state */
+  /**
+   * Delete a turn. If it has other versions the nearest one becomes active,
+   * otherwise the conversation rolls back to the previous turn.
+   */
   deleteTurn: (turnId: string) => void;
-  /** Edit a turn message and regenerate */
+  /** Edit a turn message and generate it as a new version (sibling branch) */
   editTurn: (turnId: string, newMessage: string) => Promise<void>;
+  /** Generate a new version of a turn from the same prompt */
+  regenerate: (turnId: string) => Promise<void>;
+  /** Make one of a turn's versions the active path */
+  switchBranch: (turnId: string, index: number) => void;
+  /** List the versions of a turn */
+  getBranches: (turnId: string) => ConversationBranch[];
   /** Undo last action */
   undo: () => void;
   /** Redo last undone action */
@@ -310,6 +455,12 @@ export interface UseUIStreamReturn {
   canUndo: boolean;
   /** Whether redo is available */
   canRedo: boolean;
+  /** Undo steps, oldest first (patch-based, see createHistoryEngine) */
+  historyTimeline: HistoryTimelineEntry[];
+  /** Fold every change until endHistoryGroup() into one undo step */
+  beginHistoryGroup: (label?: string) => void;
+  /** Close the group opened by beginHistoryGroup() */
+  endHistoryGroup: () => void;
   /** Load a full session state */
   loadSession: (session: {
     tree: UITree;
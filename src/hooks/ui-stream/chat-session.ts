@@ -0,0 +1,122 @@
+"use client";
+
+/**
+ * Chat Stream Session - Per-chat isolation for concurrent streams
+ *
+ * Each send() owns a ChatStreamSession holding a private tree and
+ * conversation for its chat. While the chat is in the foreground, writes
+ * also go to the Zustand store / React conversation state so the UI
+ * renders them. Once the user switches away, the stream keeps writing to
+ * its private copy only, and the result is handed to onBackgroundComplete.
+ * Switching back re-attaches the private state to the foreground.
+ */
+
+import type { UITree } from "@onegenui/core";
+import type { ConversationTurn } from "../types";
+import { applyPatchesBatch } from "../patch-utils";
+import type { TreeStoreBridge } from "./tree-store-bridge";
+
+/** Key used when no chat ID is available */
+export const DEFAULT_CHAT_KEY = "default";
+
+export interface ChatStreamSession {
+  readonly chatKey: string;
+  /** Tree bridge scoped to this chat */
+  readonly bridge: TreeStoreBridge;
+  /** Conversation setter scoped to this chat */
+  setConversation: React.Dispatch<React.SetStateAction<ConversationTurn[]>>;
+  /** Latest conversation of this chat */
+  getConversation(): ConversationTurn[];
+  /** Whether this chat is currently shown in the foreground */
+  isActive(): boolean;
+  /** Push private tree + conversation to the foreground */
+  attach(): void;
+}
+
+export interface ChatStreamSessionOptions {
+  chatKey: string;
+  isActive: () => boolean;
+  /** Store-backed bridge (foreground tree) */
+  storeBridge: TreeStoreBridge;
+  initialTree: UITree | null;
+  initialConversation: ConversationTurn[];
+  /** Latest foreground conversation (may include user edits) */
+  getForegroundConversation: () => ConversationTurn[];
+  /** Foreground conversation setter (React state) */
+  setForegroundConversation: React.Dispatch<React.SetStateAction<ConversationTurn[]>>;
+}
+
+export function createChatStreamSession(
+  options: ChatStreamSessionOptions,
+): ChatStreamSession {
+  const { chatKey, isActive, storeBridge, getForegroundConversation, setForegroundConversation } = options;
+  let tree = options.initialTree;
+  let conversation = options.initialConversation;
+  let wasActive = isActive();
+
+  const attach = () => {
+    storeBridge.setTree(tree);
+    setForegroundConversation(conversation);
+    wasActive = true;
+  };
+
+  /** Track foreground transitions; returns whether the chat is active now */
+  const sync = (): boolean => {
+    const active = isActive();
+    if (active && !wasActive) {
+      attach();
+    } else if (active) {
+      // Foreground edits (resize, inline edits) land in the store directly
+      tree = storeBridge.getTree() ?? tree;
+    }
+    wasActive = active;
+    return active;
+  };
+
+  const bridge: TreeStoreBridge = {
+    getTree() {
+      sync();
+      return tree;
+    },
+
+    applyPatches(patches, patchOptions = {}) {
+      const active = sync();
+      if (!tree || patches.length === 0) return tree;
+      tree = applyPatchesBatch(tree, patches, patchOptions);
+      if (active) storeBridge.setTree(tree);
+      return tree;
+    },
+
+    setTree(next) {
+      const active = sync();
+      tree = next;
+      if (active) storeBridge.setTree(next);
+    },
+
+    setStreaming(streaming) {
+      if (sync()) storeBridge.setStreaming(streaming);
+    },
+
+    clear() {
+      tree = null;
+      if (sync()) storeBridge.clear();
+    },
+  };
+
+  const setConversation: React.Dispatch<React.SetStateAction<ConversationTurn[]>> = (action) => {
+    const active = sync();
+    // In the foreground, build on the real foreground state (may include user edits)
+    const base = active ? getForegroundConversation() : conversation;
+    conversation = typeof action === "function" ? action(base) : action;
+    if (active) setForegroundConversation(conversation);
+  };
+
+  return {
+    chatKey,
+    bridge,
+    setConversation,
+    getConversation: () => conversation,
+    isActive,
+    attach,
+  };
+}
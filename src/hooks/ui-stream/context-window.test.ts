@@ -0,0 +1,130 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ConversationTurn } from "../types";
+import {
+  buildConversationMessages,
+  createLastTurnsStrategy,
+  createRollingSummaryStrategy,
+  createTokenBudgetStrategy,
+} from "./context-window";
+
+function turn(id: string, overrides: Partial<ConversationTurn> = {}): ConversationTurn {
+  return {
+    id,
+    userMessage: `ask ${id}`,
+    assistantMessages: [{ role: "assistant", content: `answer ${id}` }],
+    treeSnapshot: null,
+    timestamp: 0,
+    status: "complete",
+    ...overrides,
+  };
+}
+
+const noopUpdate = () => {};
+
+describe("context-window", () => {
+  it("condenses snapshots and answers and skips unfinished turns", () => {
+    const messages = buildConversationMessages([
+      turn("t1", {
+        questions: [{ id: "q1", text: "Which region?", type: "text" }],
+        questionAnswers: { q1: { region: "EU" } },
+        treeSnapshot: {
+          root: "main",
+          elements: {
+            main: { key: "main", type: "Stack", props: {}, children: ["a", "b"] },
+            a: { key: "a", type: "Card", props: {} },
+            b: { key: "b", type: "Card", props: {} },
+          },
+        },
+      }),
+      turn("t2", { status: "queued" }),
+    ]);
+
+    expect(messages).toEqual([
+      { role: "user", content: "ask t1\n[Answers: Which region?: region=EU]" },
+      { role: "assistant", content: "answer t1\n[UI: 3 elements: Card×2, Stack×1]" },
+    ]);
+  });
+
+  it("keeps the last turns or the newest turns within a token budget", async () => {
+    const turns = [turn("t1"), turn("t2"), turn("t3")];
+
+    const last = await createLastTurnsStrategy(1)({ turns, updateTurn: noopUpdate });
+    expect(last.map((m) => m.content)).toEqual(["ask t3", "answer t3"]);
+
+    // Each turn costs 5 tokens: "ask tN" (2) + "answer tN" (3)
+    const budget = await createTokenBudgetStrategy({ maxTokens: 12 })({ turns, updateTurn: noopUpdate });
+    expect(budget.map((m) => m.content)).toEqual(["ask t2", "answer t2", "ask t3", "answer t3"]);
+  });
+
+  it("summarizes older turns once and reuses the cached summary", async () => {
+    const summarize = vi.fn(({ previousSummary, messages }) =>
+      [previousSummary, ...messages.map((m: { content: string }) => m.content)]
+        .filter(Boolean)
+        .join(" | "),
+    );
+    const strategy = createRollingSummaryStrategy({ summarize, keepRecentTurns: 1 });
+    let turns = [turn("t1"), turn("t2")];
+    const updateTurn = (id: string, updates: Partial<ConversationTurn>) => {
+      turns = turns.map((t) => (t.id === id ? { ...t, ...updates } : t));
+    };
+
+    const first = await strategy({ turns, updateTurn });
+    expect(first[0]).toEqual({
+      role: "system",
+      content: "Summary of the earlier conversation:\nask t1 | answer t1",
+    });
+    expect(turns[0]?.contextSummary).toBe("ask t1 | answer t1");
+
+    await strategy({ turns, updateTurn });
+    expect(summarize).toHaveBeenCalledTimes(1);
+
+    turns = [...turns, turn("t3")];
+    await strategy({ turns, updateTurn });
+    expect(summarize).toHaveBeenLastCalledWith({
+      previousSummary: "ask t1 | answer t1",
+      messages: [
+        { role: "user", content: "ask t2" },
+        { role: "assistant", content: "answer t2" },
+      ],
+    });
+  });
+
+  it("sends the unsummarized turns verbatim after the cached summary when the summarizer fails", async () => {
+    const summarize = vi.fn().mockRejectedValue(new Error("model unavailable"));
+    const strategy = createRollingSummaryStrategy({ summarize, keepRecentTurns: 1 });
+    const updateTurn = vi.fn();
+    const signal = new AbortController().signal;
+
+    const uncached = await strategy({ turns: [turn("t1"), turn("t2")], updateTurn, signal });
+    expect(uncached.map((m) => m.content)).toEqual(["ask t1", "answer t1", "ask t2", "answer t2"]);
+    expect(summarize).toHaveBeenCalledWith(expect.objectContaining({ signal }));
+
+    const cached = await strategy({
+      turns: [turn("t1", { contextSummary: "earlier" }), turn("t2"), turn("t3"), turn("t4")],
+      updateTurn,
+    });
+    expect(cached.map((m) => m.content)).toEqual([
+      "Summary of the earlier conversation:\nearlier",
+      "ask t2",
+      "answer t2",
+      "ask t3",
+      "answer t3",
+      "ask t4",
+      "answer t4",
+    ]);
+    expect(updateTurn).not.toHaveBeenCalled();
+  });
+
+  it("rethrows summarizer failures once the turn is aborted", async () => {
+    const controller = new AbortController();
+    const summarize = vi.fn(() => {
+      controller.abort();
+      return Promise.reject(new DOMException("Aborted", "AbortError"));
+    });
+    const strategy = createRollingSummaryStrategy({ summarize, keepRecentTurns: 1 });
+
+    await expect(
+      strategy({ turns: [turn("t1"), turn("t2")], updateTurn: noopUpdate, signal: controller.signal }),
+    ).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
@@ -0,0 +1,242 @@
+"use client";
+
+/**
+ * Context Window - Which conversation history goes into a request
+ *
+ * buildConversationMessages turns finished turns into messages, condensing
+ * what cannot be sent verbatim:
+ * - attachments → `[Attachments: name (type), ...]` on the user message
+ * - question answers → `[Answers: question: value; ...]` on the user message
+ * - tree snapshots → `[UI: N elements: Type×count, ...]` on the assistant message
+ *
+ * Strategies pick the messages for a request:
+ * - createFullHistoryStrategy: every finished turn (default)
+ * - createLastTurnsStrategy: the last N turns
+ * - createTokenBudgetStrategy: newest turns that fit an estimated token budget
+ * - createRollingSummaryStrategy: recent turns verbatim, older ones folded into
+ *   a summary produced by a caller-provided summarizer and cached on the turn
+ */
+
+import type { UITree } from "@onegenui/core";
+import type {
+  ContextStrategy,
+  ConversationMessage,
+  ConversationTurn,
+} from "../types";
+import { streamLog } from "./logger";
+
+const MAX_UI_TYPES = 8;
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value !== "object") return String(value);
+  if (Array.isArray(value)) return value.map(formatValue).join(", ");
+  const record = value as Record<string, unknown>;
+  return Object.keys(record)
+    .sort()
+    .map((key) => `${key}=${formatValue(record[key])}`)
+    .join(", ");
+}
+
+function condenseAttachments(turn: ConversationTurn): string | null {
+  const names = turn.persistedAttachments?.length
+    ? turn.persistedAttachments.map((a) => `${a.fileName} (${a.type})`)
+    : (turn.attachments ?? []).map((a) =>
+        a.type === "library-document"
+          ? `${a.fileName} (document)`
+          : `${a.file.name} (${a.type})`,
+      );
+  return names.length > 0 ? `[Attachments: ${names.join(", ")}]` : null;
+}
+
+function condenseAnswers(turn: ConversationTurn): string | null {
+  const answers = turn.questionAnswers;
+  if (!answers) return null;
+  const entries = Object.keys(answers)
+    .sort()
+    .map((questionId) => {
+      const question = turn.questions?.find((q) => q.id === questionId);
+      return `${question?.text ?? questionId}: ${formatValue(answers[questionId])}`;
+    });
+  return entries.length > 0 ? `[Answers: ${entries.join("; ")}]` : null;
+}
+
+function condenseTree(tree: UITree | null): string | null {
+  const elements = tree ? Object.values(tree.elements) : [];
+  if (elements.length === 0) return null;
+  const counts = new Map<string, number>();
+  for (const element of elements) {
+    counts.set(element.type, (counts.get(element.type) ?? 0) + 1);
+  }
+  const types = [...counts.entries()].sort(
+    ([aType, aCount], [bType, bCount]) => bCount - aCount || aType.localeCompare(bType),
+  );
+  const listed = types.slice(0, MAX_UI_TYPES).map(([type, count]) => `${type}×${count}`);
+  if (types.length > MAX_UI_TYPES) listed.push(`+${types.length - MAX_UI_TYPES} more`);
+  return `[UI: ${elements.length} elements: ${listed.join(", ")}]`;
+}
+
+/** Whether a turn is finished and belongs in the request history */
+export function isContextTurn(turn: ConversationTurn): boolean {
+  if (turn.isLoading) return false;
+  return (
+    turn.status !== "queued" &&
+    turn.status !== "pending" &&
+    turn.status !== "streaming" &&
+    turn.status !== "reconnecting"
+  );
+}
+
+/** Messages for one turn (user, then assistant), condensed */
+export function turnToMessages(turn: ConversationTurn): ConversationMessage[] {
+  const messages: ConversationMessage[] = [];
+
+  // Proactive prompts are hidden from the user; only the answer is history
+  const userParts = [
+    turn.isProactive ? null : turn.userMessage || null,
+    condenseAttachments(turn),
+    condenseAnswers(turn),
+  ].filter((part): part is string => !!part);
+  if (userParts.length > 0) {
+    messages.push({ role: "user", content: userParts.join("\n") });
+  }
+
+  const assistantParts = [
+    ...turn.assistantMessages.map((m) => m.content),
+    condenseTree(turn.treeSnapshot),
+  ].filter((part): part is string => !!part);
+  if (assistantParts.length > 0) {
+    messages.push({ role: "assistant", content: assistantParts.join("\n") });
+  }
+
+  return messages;
+}
+
+/**
+ * Converts ConversationTurn[] to ConversationMessage[] for AI SDK.
+ * Includes every finished turn of the active path - sibling versions are
+ * never sent. Use a ContextStrategy to bound the history.
+ */
+export function buildConversationMessages(
+  turns: ConversationTurn[],
+): ConversationMessage[] {
+  return turns.filter(isContextTurn).flatMap(turnToMessages);
+}
+
+/** Rough token estimate (~4 characters per token) */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** Every finished turn (previous behavior) */
+export function createFullHistoryStrategy(): ContextStrategy {
+  return ({ turns }) => buildConversationMessages(turns);
+}
+
+/** The last `count` finished turns */
+export function createLastTurnsStrategy(count: number): ContextStrategy {
+  return ({ turns }) =>
+    count > 0 ? buildConversationMessages(turns.filter(isContextTurn).slice(-count)) : [];
+}
+
+export interface TokenBudgetStrategyOptions {
+  /** Budget for the history messages */
+  maxTokens: number;
+  /** Token counter (default: ~4 characters per token) */
+  estimate?: (text: string) => number;
+}
+
+/** The newest finished turns whose messages fit in `maxTokens` */
+export function createTokenBudgetStrategy({
+  maxTokens,
+  estimate = estimateTokens,
+}: TokenBudgetStrategyOptions): ContextStrategy {
+  return ({ turns }) => {
+    const selected: ConversationMessage[][] = [];
+    let used = 0;
+    const finished = turns.filter(isContextTurn);
+    for (let i = finished.length - 1; i >= 0; i--) {
+      const messages = turnToMessages(finished[i]!);
+      const cost = messages.reduce((sum, m) => sum + estimate(m.content), 0);
+      if (used + cost > maxTokens) break;
+      used += cost;
+      selected.unshift(messages);
+    }
+    return selected.flat();
+  };
+}
+
+export interface ConversationSummarizer {
+  (input: {
+    /** Summary of the turns before `messages` (undefined on the first run) */
+    previousSummary?: string;
+    /** Messages to fold into the summary */
+    messages: ConversationMessage[];
+    /** Aborted with the turn */
+    signal?: AbortSignal;
+  }): string | Promise<string>;
+}
+
+export interface RollingSummaryStrategyOptions {
+  /** Produces the summary text (typically a call to a cheap model) */
+  summarize: ConversationSummarizer;
+  /** Turns sent verbatim after the summary (default: 4) */
+  keepRecentTurns?: number;
+}
+
+/**
+ * Recent turns verbatim, older ones as one summary message (role "system").
+ * The summary is cached on the last summarized turn (`contextSummary`), so
+ * each request only summarizes turns that dropped out of the window since
+ * the last one. Summaries cover a prefix of the active path, so they stay
+ * valid when later turns are edited, branched or deleted.
+ *
+ * When the summarizer fails, the request goes out with the last cached
+ * summary (if any) followed by the not yet summarized turns verbatim, so no
+ * turn drops out of the history; the next request tries again.
+ */
+export function createRollingSummaryStrategy({
+  summarize,
+  keepRecentTurns = 4,
+}: RollingSummaryStrategyOptions): ContextStrategy {
+  return async ({ turns, updateTurn, signal }) => {
+    const finished = turns.filter(isContextTurn);
+    const cutoff = Math.max(0, finished.length - keepRecentTurns);
+    const recent = buildConversationMessages(finished.slice(cutoff));
+    if (cutoff === 0) return recent;
+
+    const older = finished.slice(0, cutoff);
+    const lastOlder = older[older.length - 1]!;
+    let summary = lastOlder.contextSummary;
+    // Turns the summary does not cover yet (only when summarizing failed)
+    let unsummarized: ConversationMessage[] = [];
+
+    if (summary === undefined) {
+      let cachedIndex = -1;
+      for (let i = older.length - 2; i >= 0; i--) {
+        if (older[i]!.contextSummary !== undefined) {
+          cachedIndex = i;
+          break;
+        }
+      }
+      const previousSummary = older[cachedIndex]?.contextSummary;
+      const messages = buildConversationMessages(older.slice(cachedIndex + 1));
+      try {
+        summary = await summarize({ previousSummary, messages, signal });
+        updateTurn(lastOlder.id, { contextSummary: summary });
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        streamLog.warn("Conversation summary failed, sending unsummarized turns verbatim", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        summary = previousSummary;
+        unsummarized = messages;
+      }
+    }
+
+    const history = [...unsummarized, ...recent];
+    return summary
+      ? [{ role: "system", content: `Summary of the earlier conversation:\n${summary}` }, ...history]
+      : history;
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import type { UITree } from "@onegenui/core";
+import type { ConversationTurn } from "../types";
+import {
+  forkTurn,
+  getActivePathTree,
+  getTurnBranches,
+  removeTurnBranch,
+  switchTurnBranch,
+} from "./conversation-branches";
+
+function tree(root: string): UITree {
+  return { root, elements: {} };
+}
+
+function turn(id: string): ConversationTurn {
+  return {
+    id,
+    userMessage: id,
+    assistantMessages: [],
+    treeSnapshot: tree(id),
+    timestamp: 1,
+    status: "complete",
+  };
+}
+
+describe("conversation branches", () => {
+  const base = [turn("a"), turn("b"), turn("c")];
+
+  it("keeps the replaced path as a sibling version", () => {
+    const forked = forkTurn(base, "b", turn("b2"));
+
+    expect(forked.map((t) => t.id)).toEqual(["a", "b2"]);
+    const branches = getTurnBranches(forked, "b2");
+    expect(branches.map((b) => [b.turn.id, b.length, b.isActive])).toEqual([
+      ["b", 2, false],
+      ["b2", 1, true],
+    ]);
+  });
+
+  it("restores a branch with its own snapshot chain", () => {
+    const forked = forkTurn(base, "b", turn("b2"));
+    const switched = switchTurnBranch(forked, "b2", 0);
+
+    expect(switched.map((t) => t.id)).toEqual(["a", "b", "c"]);
+    expect(getActivePathTree(switched)?.root).toBe("c");
+    expect(getTurnBranches(switched, "b").map((b) => b.turn.id)).toEqual(["b", "b2"]);
+    expect(switchTurnBranch(switched, "b2", 1).map((t) => t.id)).toEqual(["a", "b2"]);
+  });
+
+  it("falls back to the previous version when the active one is removed", () => {
+    const forked = forkTurn(forkTurn(base, "b", turn("b2")), "b2", turn("b3"));
+    const removed = removeTurnBranch(forked, "b3");
+
+    expect(removed?.map((t) => t.id)).toEqual(["a", "b2"]);
+    expect(getTurnBranches(removed!, "b2").map((b) => b.turn.id)).toEqual(["b", "b2"]);
+    expect(removeTurnBranch(base, "b")).toBeNull();
+  });
+});
@@ -0,0 +1,147 @@
+"use client";
+
+/**
+ * Conversation Branches - Sibling versions of conversation turns
+ *
+ * The conversation array is always the active path. A turn that was edited
+ * or regenerated carries its other versions in `siblings`: each entry is
+ * that version's turn followed by the turns that came after it, with their
+ * own tree snapshots. `versionIndex` is the live version's position among
+ * all versions. Forks nest, so stored paths may contain forks of their own.
+ */
+
+import type { UITree } from "@onegenui/core";
+import type { ConversationTurn, ConversationBranch } from "../types";
+
+function stripForkMeta(turn: ConversationTurn): ConversationTurn {
+  const { siblings: _siblings, versionIndex: _versionIndex, ...rest } = turn;
+  return rest;
+}
+
+/** Position of the live version among all versions of its fork */
+function liveVersionIndex(live: ConversationTurn): number {
+  const count = live.siblings?.length ?? 0;
+  return Math.min(live.versionIndex ?? count, count);
+}
+
+/**
+ * Find the fork position of a turn. Matches the live turn or the first
+ * turn of any stored sibling version.
+ */
+export function findForkIndex(
+  turns: ConversationTurn[],
+  turnId: string,
+): number {
+  return turns.findIndex(
+    (t) => t.id === turnId || !!t.siblings?.some((path) => path[0]?.id === turnId),
+  );
+}
+
+/**
+ * All versions at a fork, in order. The live version is rebuilt from the
+ * active path.
+ */
+function getVersions(
+  turns: ConversationTurn[],
+  index: number,
+): ConversationTurn[][] {
+  const live = turns[index];
+  if (!live) return [];
+  const siblings = live.siblings ?? [];
+  const versionIndex = liveVersionIndex(live);
+  const livePath = [stripForkMeta(live), ...turns.slice(index + 1)];
+  return [...siblings.slice(0, versionIndex), livePath, ...siblings.slice(versionIndex)];
+}
+
+function activateVersion(
+  turns: ConversationTurn[],
+  index: number,
+  versions: ConversationTurn[][],
+  versionIndex: number,
+): ConversationTurn[] {
+  const chosen = versions[versionIndex];
+  const first = chosen?.[0];
+  if (!chosen || !first) return turns;
+  const siblings = versions.filter((_, i) => i !== versionIndex);
+  const head: ConversationTurn = siblings.length > 0
+    ? { ...first, siblings, versionIndex }
+    : stripForkMeta(first);
+  return [...turns.slice(0, index), head, ...chosen.slice(1)];
+}
+
+/**
+ * Add `turn` as a new version of `turnId` and make it the active path.
+ * The previous version and everything after it is kept as a sibling.
+ */
+export function forkTurn(
+  turns: ConversationTurn[],
+  turnId: string,
+  turn: ConversationTurn,
+): ConversationTurn[] {
+  const index = findForkIndex(turns, turnId);
+  if (index === -1) return [...turns, turn];
+  const versions = [...getVersions(turns, index), [turn]];
+  return activateVersion(turns, index, versions, versions.length - 1);
+}
+
+/**
+ * Make version `versionIndex` of the fork at `turnId` the active path
+ */
+export function switchTurnBranch(
+  turns: ConversationTurn[],
+  turnId: string,
+  versionIndex: number,
+): ConversationTurn[] {
+  const index = findForkIndex(turns, turnId);
+  if (index === -1) return turns;
+  const versions = getVersions(turns, index);
+  if (versionIndex < 0 || versionIndex >= versions.length) return turns;
+  return activateVersion(turns, index, versions, versionIndex);
+}
+
+/**
+ * Drop the active version at `turnId`. The nearest remaining version
+ * becomes active; returns null when the turn has no other versions.
+ */
+export function removeTurnBranch(
+  turns: ConversationTurn[],
+  turnId: string,
+): ConversationTurn[] | null {
+  const index = findForkIndex(turns, turnId);
+  const live = turns[index];
+  if (!live?.siblings?.length) return null;
+  const versions = getVersions(turns, index);
+  const liveIndex = liveVersionIndex(live);
+  const remaining = versions.filter((_, i) => i !== liveIndex);
+  return activateVersion(turns, index, remaining, Math.max(0, liveIndex - 1));
+}
+
+/**
+ * Describe the versions at the fork containing `turnId`
+ */
+export function getTurnBranches(
+  turns: ConversationTurn[],
+  turnId: string,
+): ConversationBranch[] {
+  const index = findForkIndex(turns, turnId);
+  const live = turns[index];
+  if (!live) return [];
+  const activeIndex = liveVersionIndex(live);
+  return getVersions(turns, index).map((path, i) => ({
+    index: i,
+    turn: path[0]!,
+    length: path.length,
+    isActive: i === activeIndex,
+  }));
+}
+
+/**
+ * Tree produced by the last turn of the active path that has a snapshot
+ */
+export function getActivePathTree(turns: ConversationTurn[]): UITree | null {
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const snapshot = turns[i]?.treeSnapshot;
+    if (snapshot) return snapshot;
+  }
+  return null;
+}
@@ -0,0 +1,93 @@
+"use client";
+
+/**
+ * Element Visibility - Which rendered elements are off-screen
+ *
+ * Observes every `[data-element-key]` node (added later ones too) with an
+ * IntersectionObserver. An element counts as off-screen only when all its
+ * nodes were reported outside the viewport; elements that have not been
+ * rendered or observed yet count as visible, so new content is never held
+ * back. Without IntersectionObserver (SSR, tests) nothing is off-screen.
+ */
+
+export interface ElementVisibilityTracker {
+  isOffscreen(elementKey: string): boolean;
+  disconnect(): void;
+}
+
+const ELEMENT_SELECTOR = "[data-element-key]";
+
+export function createElementVisibilityTracker(
+  root?: Document | Element,
+  rootMargin = "200px",
+): ElementVisibilityTracker {
+  const container = root ?? (typeof document !== "undefined" ? document : null);
+  if (
+    !container ||
+    typeof IntersectionObserver === "undefined" ||
+    typeof MutationObserver === "undefined"
+  ) {
+    return { isOffscreen: () => false, disconnect: () => {} };
+  }
+
+  // Element key -> its nodes and whether each intersects the viewport
+  const nodes = new Map<string, Map<Element, boolean>>();
+
+  const intersection = new IntersectionObserver(
+    (entries) => {
+      for (const entry of entries) {
+        const key = entry.target.getAttribute("data-element-key");
+        if (!key) continue;
+        let keyNodes = nodes.get(key);
+        if (!keyNodes) {
+          keyNodes = new Map();
+          nodes.set(key, keyNodes);
+        }
+        keyNodes.set(entry.target, entry.isIntersecting);
+      }
+    },
+    { rootMargin },
+  );
+
+  const forEachElementNode = (node: Node, callback: (element: Element) => void) => {
+    if (!(node instanceof Element)) return;
+    if (node.matches(ELEMENT_SELECTOR)) callback(node);
+    node.querySelectorAll(ELEMENT_SELECTOR).forEach(callback);
+  };
+
+  const unobserve = (element: Element) => {
+    intersection.unobserve(element);
+    const key = element.getAttribute("data-element-key");
+    const keyNodes = key ? nodes.get(key) : undefined;
+    if (!keyNodes) return;
+    keyNodes.delete(element);
+    if (keyNodes.size === 0) nodes.delete(key!);
+  };
+
+  const mutations = new MutationObserver((records) => {
+    for (const record of records) {
+      record.addedNodes.forEach((node) => forEachElementNode(node, (element) => intersection.observe(element)));
+      record.removedNodes.forEach((node) => forEachElementNode(node, unobserve));
+    }
+  });
+
+  container.querySelectorAll(ELEMENT_SELECTOR).forEach((element) => intersection.observe(element));
+  mutations.observe(container, { childList: true, subtree: true });
+
+  return {
+    isOffscreen(elementKey) {
+      const keyNodes = nodes.get(elementKey);
+      if (!keyNodes || keyNodes.size === 0) return false;
+      for (const intersecting of keyNodes.values()) {
+        if (intersecting) return false;
+      }
+      return true;
+    },
+
+    disconnect() {
+      intersection.disconnect();
+      mutations.disconnect();
+      nodes.clear();
+    },
+  };
+}
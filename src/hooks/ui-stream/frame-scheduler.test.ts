@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createFrameScheduler } from "./frame-scheduler";
+
+/** Animation frames that only run when the test says so */
+function stubFrames() {
+  const callbacks = new Map<number, FrameRequestCallback>();
+  let nextId = 0;
+  vi.stubGlobal("requestAnimationFrame", (callback: FrameRequestCallback) => {
+    callbacks.set(++nextId, callback);
+    return nextId;
+  });
+  vi.stubGlobal("cancelAnimationFrame", (id: number) => callbacks.delete(id));
+  return {
+    pending: () => callbacks.size,
+    runFrame() {
+      const due = [...callbacks.values()];
+      callbacks.clear();
+      for (const callback of due) callback(0);
+    },
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe("createFrameScheduler", () => {
+  it("runs the callback once per frame however often it is scheduled", () => {
+    const frames = stubFrames();
+    const callback = vi.fn();
+    const scheduler = createFrameScheduler(callback);
+
+    scheduler.schedule();
+    scheduler.schedule();
+    scheduler.schedule();
+    expect(frames.pending()).toBe(1);
+    expect(callback).not.toHaveBeenCalled();
+
+    frames.runFrame();
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    scheduler.schedule();
+    frames.runFrame();
+    expect(callback).toHaveBeenCalledTimes(2);
+  });
+
+  it("flushes a scheduled callback now and cancels it without running", () => {
+    const frames = stubFrames();
+    const callback = vi.fn();
+    const scheduler = createFrameScheduler(callback);
+
+    scheduler.flush();
+    expect(callback).not.toHaveBeenCalled();
+
+    scheduler.schedule();
+    scheduler.flush();
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(frames.pending()).toBe(0);
+
+    scheduler.schedule();
+    scheduler.cancel();
+    frames.runFrame();
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it("falls back to a timer without requestAnimationFrame", () => {
+    vi.useFakeTimers();
+    vi.stubGlobal("requestAnimationFrame", undefined);
+    const callback = vi.fn();
+    const scheduler = createFrameScheduler(callback);
+
+    scheduler.schedule();
+    scheduler.schedule();
+    vi.runAllTimers();
+
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+});
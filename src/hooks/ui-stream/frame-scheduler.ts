@@ -0,0 +1,60 @@
+"use client";
+
+/**
+ * Frame Scheduler - Coalesces repeated work into one call per animation frame
+ *
+ * Used for text deltas: every token updates the accumulated message at once,
+ * but the conversation state (and React render) follows at most once per
+ * frame, like the PatchPipeline does for tree patches.
+ */
+
+export interface FrameScheduler {
+  /** Run the callback on the next frame (no-op when already scheduled) */
+  schedule(): void;
+  /** Run a scheduled callback now */
+  flush(): void;
+  /** Drop a scheduled callback without running it */
+  cancel(): void;
+}
+
+export function createFrameScheduler(callback: () => void): FrameScheduler {
+  let rafId: number | null = null;
+  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  const cancel = () => {
+    if (rafId !== null) {
+      cancelAnimationFrame(rafId);
+      rafId = null;
+    }
+    if (timeoutId !== null) {
+      clearTimeout(timeoutId);
+      timeoutId = null;
+    }
+  };
+
+  const run = () => {
+    rafId = null;
+    timeoutId = null;
+    callback();
+  };
+
+  return {
+    schedule() {
+      if (rafId !== null || timeoutId !== null) return;
+      if (typeof requestAnimationFrame !== "undefined") {
+        rafId = requestAnimationFrame(run);
+      } else {
+        // SSR/test fallback
+        timeoutId = setTimeout(run, 0);
+      }
+    },
+
+    flush() {
+      if (rafId === null && timeoutId === null) return;
+      cancel();
+      callback();
+    },
+
+    cancel,
+  };
+}
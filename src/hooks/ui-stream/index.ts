@@ -1,19 +1,30 @@
 export * from "./tree-mutations";
 export * from "./tree-store-bridge";
-export * from "./use-history";
 export * from "./logger";
 export * from "./plan-handler";
+export * from "./context-window";
 export * from "./request-builder";
+export * from "./tree-sync";
 export * from "./patch-pipeline";
+export * from "./patch-worker";
+export * from "./element-visibility";
 export * from "./stream-parser";
+export * from "./legacy-adapter";
+export * from "./protocol-version";
+export * from "./message-parts";
 export * from "./document-index-handler";
 export * from "./use-store-refs";
 export * from "./turn-manager";
+export * from "./conversation-branches";
 export * from "./question-handler";
 export * from "./stream-reader";
 export * from "./reconnection-manager";
+export * from "./chat-session";
 export * from "./use-stream-session";
+export * from "./use-prompt-queue";
 export * from "./use-stream-connection";
 export * from "./use-stream-event-loop";
 export * from "./use-patch-pipeline-hook";
 export * from "./use-deep-research-tracker";
+export * from "./transports";
+export * from "./replay-cassette";
@@ -0,0 +1,55 @@
+"use client";
+
+/**
+ * Legacy Adapter - Protocol v2 (AI SDK data stream) to StreamEvents
+ *
+ * v2 backends send `0:"text"` text parts and `d:` / `data:` data parts
+ * holding `{ op, path, value }`, `[op, path, value]`, `{ type: "data" }`
+ * or `{ type: "text-delta" }` payloads (see hooks/stream-parser.ts).
+ * Operations are normalized into the same StreamEvents the v3 parser
+ * produces; v2 has no sequences, so frames are never deduplicated or resumed.
+ */
+
+import {
+  parseDataPayload,
+  parseSSELine as parseLegacySSELine,
+  type ParsedOperation,
+} from "../stream-parser";
+import type { ParsedFrame, StreamEvent } from "./stream-parser";
+
+/** Message id for v2 text, which has no message ids of its own */
+export const LEGACY_TEXT_MESSAGE_ID = "legacy-text";
+
+/**
+ * Convert a legacy operation. Unknown operations return null.
+ */
+export function legacyOperationToEvent(operation: ParsedOperation): StreamEvent | null {
+  switch (operation.type) {
+    case "text-delta":
+      return operation.text
+        ? { type: "text-delta", messageId: LEGACY_TEXT_MESSAGE_ID, delta: operation.text, role: "assistant" }
+        : null;
+    case "message":
+      return { type: "message", message: operation.message };
+    case "question":
+      return { type: "question", question: operation.question };
+    case "suggestion":
+      return { type: "suggestion", suggestions: operation.suggestions };
+    case "patch":
+      return { type: "patch", patches: [operation.patch] };
+    default:
+      return null;
+  }
+}
+
+/** Convert a parsed legacy data payload */
+export function legacyPayloadToEvent(payload: unknown): StreamEvent | null {
+  return legacyOperationToEvent(parseDataPayload(payload));
+}
+
+/** Parse a v2 stream line */
+export function parseLegacyFrame(line: string): ParsedFrame | null {
+  const operation = parseLegacySSELine(line);
+  const event = operation ? legacyOperationToEvent(operation) : null;
+  return event ? { event } : null;
+}
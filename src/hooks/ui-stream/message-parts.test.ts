@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import type { ChatMessage } from "../types";
+import {
+  applyMessageEvent,
+  applyMessagePart,
+  parseMessagePart,
+  toolProgressToPart,
+} from "./message-parts";
+
+describe("message-parts", () => {
+  it("keeps text-only messages without parts", () => {
+    const messages: ChatMessage[] = [];
+    applyMessageEvent(messages, { id: "m1", mode: "append", role: "assistant", content: "Hel" });
+    applyMessageEvent(messages, { id: "m1", mode: "append", role: "assistant", content: "lo" });
+
+    expect(messages).toEqual([{ id: "m1", mode: "final", role: "assistant", content: "Hello" }]);
+  });
+
+  it("interleaves tool calls with text in arrival order", () => {
+    const messages: ChatMessage[] = [];
+    applyMessageEvent(messages, { id: "m1", mode: "append", role: "assistant", content: "Searching. " });
+    applyMessagePart(messages, toolProgressToPart({ toolCallId: "c1", toolName: "web-search", status: "running" }));
+    applyMessagePart(messages, toolProgressToPart({ toolCallId: "c1", toolName: "web-search", status: "complete" }));
+    applyMessageEvent(messages, { id: "m1", mode: "append", role: "assistant", content: "Found it." });
+
+    expect(messages[0]?.parts).toEqual([
+      { type: "text", text: "Searching. " },
+      { type: "tool-call", toolCallId: "c1", toolName: "web-search", status: "complete", message: undefined },
+      { type: "text", text: "Found it." },
+    ]);
+    expect(messages[0]?.content).toBe("Searching. Found it.");
+  });
+
+  it("merges reasoning deltas and rejects malformed wire parts", () => {
+    const messages: ChatMessage[] = [];
+    applyMessagePart(messages, { type: "reasoning", text: "Think" }, { messageId: "m2" });
+    applyMessagePart(messages, { type: "reasoning", text: "ing" }, { messageId: "m2" });
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]?.parts).toEqual([{ type: "reasoning", text: "Thinking" }]);
+    expect(messages[0]?.content).toBe("");
+    expect(parseMessagePart({ type: "tool-result", result: 1 })).toBeNull();
+    expect(parseMessagePart({ type: "video", url: "x" })).toBeNull();
+  });
+});
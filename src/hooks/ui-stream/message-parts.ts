@@ -0,0 +1,210 @@
+"use client";
+
+/**
+ * Message Parts - Builds ordered ChatMessage parts from stream events
+ *
+ * - text from `message` frames becomes text parts (append / replace by id)
+ * - `message-part` control frames add reasoning, tool, source and file parts
+ * - tool progress and citations are folded into the current assistant
+ *   message as tool-call and source parts, interleaved with the text
+ *
+ * `content` is kept equal to the joined text parts, so code that only reads
+ * text keeps working. Text-only messages have no `parts` until another kind
+ * of part arrives.
+ */
+
+import type { ChatMessage, ChatMessagePart, ToolProgress } from "../types";
+
+export type MessagePartMode = "append" | "replace";
+
+const PART_TYPES = new Set<ChatMessagePart["type"]>([
+  "text", "reasoning", "tool-call", "tool-result", "source", "file",
+]);
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Validate a part received on the wire. Returns null for unknown types or
+ * parts missing their required fields.
+ */
+export function parseMessagePart(raw: unknown): ChatMessagePart | null {
+  if (!raw || typeof raw !== "object") return null;
+  const part = raw as Record<string, unknown>;
+  const type = part.type as ChatMessagePart["type"];
+  if (!PART_TYPES.has(type)) return null;
+
+  switch (type) {
+    case "text":
+    case "reasoning":
+      return typeof part.text === "string" ? { type, text: part.text } : null;
+    case "tool-call":
+      if (typeof part.toolCallId !== "string") return null;
+      return {
+        type,
+        toolCallId: part.toolCallId,
+        toolName: optionalString(part.toolName) ?? "tool",
+        args: part.args,
+        status: optionalString(part.status) as ToolProgress["status"] | undefined,
+        message: optionalString(part.message),
+      };
+    case "tool-result":
+      if (typeof part.toolCallId !== "string") return null;
+      return {
+        type,
+        toolCallId: part.toolCallId,
+        toolName: optionalString(part.toolName) ?? "tool",
+        result: part.result,
+        isError: part.isError === true ? true : undefined,
+      };
+    case "source": {
+      const sourceId = optionalString(part.sourceId) ?? optionalString(part.id);
+      if (!sourceId) return null;
+      return {
+        type,
+        sourceId,
+        title: optionalString(part.title),
+        url: optionalString(part.url),
+        snippet: optionalString(part.snippet),
+      };
+    }
+    case "file":
+      if (typeof part.url !== "string" || typeof part.mediaType !== "string") return null;
+      return { type, mediaType: part.mediaType, url: part.url, filename: optionalString(part.filename) };
+    default:
+      return null;
+  }
+}
+
+/** Joined text of a message's text parts */
+export function getMessageText(parts: ChatMessagePart[]): string {
+  return parts
+    .filter((part): part is Extract<ChatMessagePart, { type: "text" }> => part.type === "text")
+    .map((part) => part.text)
+    .join("");
+}
+
+function withParts(message: ChatMessage, parts: ChatMessagePart[]): ChatMessage {
+  return { ...message, parts, content: getMessageText(parts) };
+}
+
+function mergePart(
+  parts: ChatMessagePart[],
+  part: ChatMessagePart,
+  mode: MessagePartMode,
+): ChatMessagePart[] {
+  switch (part.type) {
+    case "text":
+    case "reasoning": {
+      const last = parts[parts.length - 1];
+      if (mode === "append" && last?.type === part.type) {
+        return [...parts.slice(0, -1), { ...last, text: last.text + part.text }];
+      }
+      if (mode === "replace") {
+        const index = parts.findIndex((p) => p.type === part.type);
+        if (index !== -1) {
+          return [...parts.slice(0, index), part, ...parts.slice(index + 1).filter((p) => p.type !== part.type)];
+        }
+      }
+      return [...parts, part];
+    }
+    case "tool-call":
+    case "tool-result": {
+      const index = parts.findIndex((p) => p.type === part.type && p.toolCallId === part.toolCallId);
+      if (index === -1) return [...parts, part];
+      const next = [...parts];
+      next[index] = { ...parts[index], ...part } as ChatMessagePart;
+      return next;
+    }
+    case "source":
+      return parts.some((p) => p.type === "source" && p.sourceId === part.sourceId)
+        ? parts
+        : [...parts, part];
+    default:
+      return [...parts, part];
+  }
+}
+
+function partsOf(message: ChatMessage): ChatMessagePart[] {
+  if (message.parts) return message.parts;
+  return message.content ? [{ type: "text", text: message.content }] : [];
+}
+
+/**
+ * Add a part to the message with `messageId`, or to the latest assistant
+ * message. Starts a new assistant message when there is none.
+ */
+export function applyMessagePart(
+  messages: ChatMessage[],
+  part: ChatMessagePart,
+  options: { messageId?: string; mode?: MessagePartMode } = {},
+): void {
+  const { messageId, mode = "append" } = options;
+  let index = -1;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const candidate = messages[i]!;
+    if (messageId ? candidate.id === messageId : candidate.role === "assistant") {
+      index = i;
+      break;
+    }
+  }
+
+  if (index === -1) {
+    messages.push(withParts({ id: messageId, role: "assistant", mode: "final", content: "" }, [part]));
+    return;
+  }
+  const existing = messages[index]!;
+  messages[index] = withParts(existing, mergePart(partsOf(existing), part, mode));
+}
+
+/**
+ * Apply a `message` frame: final messages are added, append/replace update
+ * the text of the message with the same id. Text-only messages keep no parts.
+ */
+export function applyMessageEvent(messages: ChatMessage[], message: ChatMessage): void {
+  const mode = message.mode ?? "final";
+  const messageId = message.id;
+  const existingIndex = messageId && mode !== "final"
+    ? messages.findIndex((item) => item.id === messageId)
+    : -1;
+  const existing = messages[existingIndex];
+  if (!existing) {
+    messages.push(message.parts ? withParts({ ...message, mode: "final" }, message.parts) : { ...message, mode: "final" });
+    return;
+  }
+  if (!existing.parts) {
+    const nextContent = mode === "append" ? `${existing.content}${message.content}` : message.content;
+    messages[existingIndex] = { ...existing, ...message, mode: "final", content: nextContent };
+    return;
+  }
+  const parts = mergePart(existing.parts, { type: "text", text: message.content }, mode === "append" ? "append" : "replace");
+  messages[existingIndex] = withParts({ ...existing, ...message, mode: "final" }, parts);
+}
+
+/** Tool progress as a tool-call part */
+export function toolProgressToPart(progress: ToolProgress): ChatMessagePart {
+  return {
+    type: "tool-call",
+    toolCallId: progress.toolCallId,
+    toolName: progress.toolName,
+    status: progress.status,
+    message: progress.message,
+  };
+}
+
+/** Citations (see CitationProvider) as source parts */
+export function citationsToParts(citations: unknown[]): ChatMessagePart[] {
+  return citations
+    .map((citation) => {
+      const c = (citation ?? {}) as Record<string, unknown>;
+      return parseMessagePart({
+        type: "source",
+        sourceId: c.id,
+        title: c.title ?? c.documentTitle,
+        url: c.url ?? undefined,
+        snippet: c.snippet ?? c.excerpt ?? undefined,
+      });
+    })
+    .filter((part): part is ChatMessagePart => part !== null);
+}
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { JsonPatch, UITree } from "@onegenui/core";
+import { createPatchPipeline } from "./patch-pipeline";
+import type { TreeStoreBridge } from "./tree-store-bridge";
+import type { PatchWorkerClient } from "./patch-worker";
+
+function createRecordingBridge() {
+  const applied: JsonPatch[][] = [];
+  const tree: UITree = { root: "a", elements: {} };
+  const bridge: TreeStoreBridge = {
+    getTree: () => tree,
+    applyPatches: (patches) => {
+      applied.push(patches);
+      return tree;
+    },
+    setTree: () => {},
+    setStreaming: () => {},
+    clear: () => {},
+  };
+  return { bridge, applied };
+}
+
+const prop = (key: string, value: number): JsonPatch => ({
+  op: "set",
+  path: `/elements/${key}/props/value`,
+  value,
+});
+
+describe("createPatchPipeline", () => {
+  let frames: FrameRequestCallback[] = [];
+  const runFrame = async () => {
+    frames.shift()?.(0);
+    await Promise.resolve();
+  };
+
+  beforeEach(() => {
+    frames = [];
+    vi.stubGlobal("requestAnimationFrame", (callback: FrameRequestCallback) => frames.push(callback));
+    vi.stubGlobal("cancelAnimationFrame", () => {});
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("splits large buffers across frames without splitting atomic groups", async () => {
+    const { bridge, applied } = createRecordingBridge();
+    // Initial estimate of 0.25ms per patch: a 1ms budget fits 4 patches
+    const pipeline = createPatchPipeline(bridge, { frameBudgetMs: 1 });
+
+    pipeline.push([prop("a", 1), prop("a", 2), prop("a", 3)]);
+    pipeline.push([prop("b", 1), prop("b", 2), prop("b", 3)], true);
+    pipeline.push([prop("c", 1)]);
+
+    await runFrame();
+    expect(applied.flat()).toHaveLength(3);
+    expect(pipeline.getMetrics().queueDepth).toBe(4);
+
+    while (frames.length > 0) await runFrame();
+    expect(applied).toContainEqual([prop("b", 1), prop("b", 2), prop("b", 3)]);
+    expect(applied.flat()).toHaveLength(7);
+    expect(pipeline.getMetrics()).toMatchObject({ queueDepth: 0, totalApplied: 7 });
+  });
+
+  it("applies off-screen prop patches after visible ones", async () => {
+    const { bridge, applied } = createRecordingBridge();
+    const pipeline = createPatchPipeline(bridge, { isOffscreen: (key) => key === "below" });
+    const addBelow: JsonPatch = { op: "set", path: "/elements/below", value: { key: "below", type: "Text", props: {} } };
+
+    pipeline.push([prop("below", 1), prop("top", 1), addBelow, prop("top", 2)]);
+    expect(pipeline.getMetrics().deferredCount).toBe(2);
+
+    pipeline.flush();
+    expect(applied).toEqual([[prop("top", 1), prop("top", 2), prop("below", 1), addBelow]]);
+  });
+
+  it("applies the patches on the main thread when the worker fails", async () => {
+    const { bridge, applied } = createRecordingBridge();
+    const worker: PatchWorkerClient = {
+      apply: () => Promise.reject(new Error("worker crashed")),
+      dispose: () => {},
+      close: () => {},
+    };
+    const pipeline = createPatchPipeline(bridge, { worker });
+
+    pipeline.push([prop("a", 1)]);
+    pipeline.push([prop("b", 1), prop("b", 2)], true);
+    pipeline.flush();
+    await pipeline.settled();
+
+    expect(applied).toEqual([[prop("a", 1)], [prop("b", 1), prop("b", 2)]]);
+    expect(pipeline.getMetrics()).toMatchObject({ queueDepth: 0, totalApplied: 3 });
+  });
+});
@@ -5,91 +5,73 @@
  *
  * Replaces the old setTimeout(24ms) approach with browser-aligned rendering.
  * Features:
+ * - Frame budget: each frame applies only what its measured cost allows
+ * - Off-screen prop patches wait until visible work is done
  * - Backpressure: force-flush when buffer exceeds maxBufferSize
  * - Atomic groups: patches that must be applied together (e.g., skeleton + children)
- * - Selection preservation across DOM updates
+ * - Selection and caret preservation across DOM updates (see ./selection-anchor)
+ * - Per-element streaming phases in `_meta` (see ../patches/streaming-lifecycle)
+ * - Optional Web Worker mode: patches are applied off-thread and only the
+ *   changed elements are merged back (see ./patch-worker)
  */
 
-import type { JsonPatch } from "@onegenui/core";
+import type { JsonPatch, UITree } from "@onegenui/core";
 import type { ApplyPatchOptions } from "../patch-utils";
+import { finalizeStreamingPhases } from "../patches/streaming-lifecycle";
 import type { TreeStoreBridge } from "./tree-store-bridge";
 import { streamLog } from "./logger";
+import { saveSelection, restoreSelection } from "./selection-anchor";
+import {
+  mergePatchGroups,
+  mergeWorkerResult,
+  type PatchGroup,
+  type PatchWorkerClient,
+} from "./patch-worker";
 
-// ─────────────────────────────────────────────────────────────────────────────
-// Selection Preservation
-// ─────────────────────────────────────────────────────────────────────────────
-
-interface SavedSelection {
-  anchorNodePath: number[];
-  anchorOffset: number;
-  focusNodePath: number[];
-  focusOffset: number;
-}
-
-function getNodePath(node: Node | null): number[] {
-  const path: number[] = [];
-  let current = node;
-  while (current?.parentNode) {
-    const parent = current.parentNode;
-    const index = Array.from(parent.childNodes).indexOf(current as ChildNode);
-    path.unshift(index);
-    current = parent;
-  }
-  return path;
-}
-
-function resolveNodePath(path: number[], root: Document): Node | null {
-  let node: Node = root.body;
-  for (const idx of path) {
-    if (!node.childNodes[idx]) return null;
-    node = node.childNodes[idx];
-  }
-  return node;
-}
-
-export function saveSelection(): SavedSelection | null {
-  if (typeof window === "undefined") return null;
-  const sel = window.getSelection();
-  if (!sel || sel.rangeCount === 0 || sel.isCollapsed) return null;
-  return {
-    anchorNodePath: getNodePath(sel.anchorNode),
-    anchorOffset: sel.anchorOffset,
-    focusNodePath: getNodePath(sel.focusNode),
-    focusOffset: sel.focusOffset,
-  };
-}
-
-export function restoreSelection(saved: SavedSelection | null): void {
-  if (!saved || typeof window === "undefined") return;
-  try {
-    const anchor = resolveNodePath(saved.anchorNodePath, document);
-    const focus = resolveNodePath(saved.focusNodePath, document);
-    if (!anchor || !focus) return;
-    const sel = window.getSelection();
-    if (!sel) return;
-    const range = document.createRange();
-    range.setStart(anchor, Math.min(saved.anchorOffset, anchor.textContent?.length ?? 0));
-    range.setEnd(focus, Math.min(saved.focusOffset, focus.textContent?.length ?? 0));
-    sel.removeAllRanges();
-    sel.addRange(range);
-  } catch {
-    // DOM structure changed — selection cannot be restored
-  }
-}
+export { saveSelection, restoreSelection };
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Patch Pipeline
 // ─────────────────────────────────────────────────────────────────────────────
 
-/** A group of patches, optionally atomic (must be applied together) */
-interface PatchGroup {
-  patches: JsonPatch[];
-  atomic: boolean;
+/** Target main-thread time per frame for apply + render */
+export const DEFAULT_FRAME_BUDGET_MS = 8;
+/** Cost estimate until the first flush has been measured */
+const INITIAL_PATCH_COST_MS = 0.25;
+const COST_SMOOTHING = 0.2;
+
+export interface PatchPipelineMetrics {
+  /** Patches waiting to be applied, deferred ones included */
+  queueDepth: number;
+  /** Patches held back because their element is off-screen */
+  deferredCount: number;
+  /** Apply + render time of the last flush */
+  lastFlushMs: number;
+  /** Smoothed apply + render time per patch, used to size each frame */
+  costPerPatchMs: number;
+  /** Patches applied over the last second */
+  patchesPerSecond: number;
+  totalApplied: number;
 }
 
 export interface PatchPipelineOptions {
+  /** Apply everything at once when this many patches are queued (default 500) */
   maxBufferSize?: number;
   patchOptions?: ApplyPatchOptions;
+  /**
+   * Apply patches in a Web Worker (see createPatchWorkerClient). Without
+   * one, patches are applied synchronously on the main thread.
+   */
+  worker?: PatchWorkerClient;
+  /** Main-thread time to spend per frame (default DEFAULT_FRAME_BUDGET_MS) */
+  frameBudgetMs?: number;
+  /**
+   * Whether an element is known to be off-screen. Prop patches for such
+   * elements wait until visible work is done (see createElementVisibilityTracker).
+   */
+  isOffscreen?: (elementKey: string) => boolean;
+  /** Called after every flush */
+  onMetrics?: (metrics: PatchPipelineMetrics) => void;
 }
 
 export interface PatchPipeline {
@@ -97,68 +79,158 @@ export interface PatchPipeline {
   push(patches: JsonPatch[], atomic?: boolean): void;
   /** Force-flush all buffered patches immediately */
   flush(): void;
+  /** Resolves once every flushed patch is in the tree (immediately without a worker) */
+  settled(): Promise<void>;
+  /** Mark the elements still streaming as finalized (end of turn) */
+  finalize(): void;
   /** Clear buffer without applying */
   reset(): void;
   /** Destroy: flush + cancel any pending rAF */
   destroy(): void;
+  /** Current queue and timing figures */
+  getMetrics(): PatchPipelineMetrics;
 }
 
+let nextPipelineId = 0;
+
+function now(): number {
+  return typeof performance !== "undefined" ? performance.now() : Date.now();
+}
+
+/** Element a patch targets, and whether it only touches part of it */
+function patchTarget(patch: JsonPatch): { key: string; partial: boolean } | null {
+  const match = /^\/elements\/([^/]+)(\/.)?/.exec(patch.path);
+  return match ? { key: match[1]!, partial: match[2] !== undefined } : null;
+}
+
+/**
+ * Create a pipeline that applies streamed patches once per animation frame.
+ *
+ * Each frame applies as many patches as fit in the frame budget, using the
+ * measured cost per patch; the rest waits for the next frame. Atomic groups
+ * are never split. Cost covers the store update and the React render it
+ * triggers: useSyncExternalStore renders in a microtask queued during the
+ * update, so a microtask queued after it sees both.
+ */
 export function createPatchPipeline(
   bridge: TreeStoreBridge,
   options: PatchPipelineOptions = {},
 ): PatchPipeline {
-  const maxBuffer = options.maxBufferSize ?? 50;
+  const maxBuffer = options.maxBufferSize ?? 500;
   const patchOpts = options.patchOptions ?? {};
+  const frameBudget = options.frameBudgetMs ?? DEFAULT_FRAME_BUDGET_MS;
+  const { worker, isOffscreen, onMetrics } = options;
+  const pipelineId = `pipeline-${++nextPipelineId}`;
 
   let buffer: PatchGroup[] = [];
+  // Non-atomic prop patches for off-screen elements, in arrival order
+  let deferred: JsonPatch[] = [];
+  let deferredKeys = new Set<string>();
   let totalPatches = 0;
   let rafId: number | null = null;
 
-  function applyBuffer(): void {
-    if (buffer.length === 0) return;
+  let costPerPatch = INITIAL_PATCH_COST_MS;
+  let lastFlushMs = 0;
+  let totalApplied = 0;
+  let recentFlushes: { time: number; count: number }[] = [];
+
+  // Worker mode: one request in flight; later patches wait in the buffer
+  let inFlight = false;
+  let generation = 0;
+  // Main-thread tree the worker's copy matches (null: resend the tree)
+  let workerTree: UITree | null = null;
+  let settleWaiters: (() => void)[] = [];
+
+  function getMetrics(): PatchPipelineMetrics {
+    const since = now() - 1000;
+    recentFlushes = recentFlushes.filter((flush) => flush.time >= since);
+    return {
+      queueDepth: totalPatches,
+      deferredCount: deferred.length,
+      lastFlushMs,
+      costPerPatchMs: costPerPatch,
+      patchesPerSecond: recentFlushes.reduce((sum, flush) => sum + flush.count, 0),
+      totalApplied,
+    };
+  }
 
+  function recordFlush(duration: number, count: number): void {
+    lastFlushMs = duration;
+    totalApplied += count;
+    recentFlushes.push({ time: now(), count });
+    if (count > 0) {
+      costPerPatch += COST_SMOOTHING * (duration / count - costPerPatch);
+    }
+    onMetrics?.(getMetrics());
+  }
+
+  /** Take every queued patch, deferred ones last */
+  function drainBuffer(): { groups: PatchGroup[]; count: number } {
     // Drain buffer BEFORE applying — prevents infinite retry on error
-    const toApply = buffer;
+    const groups = deferred.length > 0 ? [...buffer, { patches: deferred, atomic: false }] : buffer;
     const count = totalPatches;
     buffer = [];
+    deferred = [];
+    deferredKeys = new Set();
     totalPatches = 0;
     rafId = null;
+    return { groups, count };
+  }
 
-    const savedSel = saveSelection();
+  /** Take up to `limit` patches (a whole atomic group may exceed it) */
+  function takeBatch(limit: number): { groups: PatchGroup[]; count: number } {
+    const groups: PatchGroup[] = [];
+    let count = 0;
 
-    // Collect all non-atomic patches into one batch for efficiency
-    const allPatches: JsonPatch[] = [];
-    for (const group of toApply) {
+    while (buffer.length > 0 && count < limit) {
+      const group = buffer[0]!;
       if (group.atomic) {
-        // Flush accumulated non-atomic patches first
-        if (allPatches.length > 0) {
-          try {
-            bridge.applyPatches([...allPatches], patchOpts);
-          } catch (e) {
-            streamLog.error("Patch application failed", { error: e, patchCount: allPatches.length });
-          }
-          allPatches.length = 0;
-        }
-        // Apply atomic group as single batch
-        try {
-          bridge.applyPatches(group.patches, patchOpts);
-        } catch (e) {
-          streamLog.error("Atomic patch application failed", { error: e, patchCount: group.patches.length });
-        }
+        if (count > 0 && count + group.patches.length > limit) break;
+        groups.push(group);
+        count += group.patches.length;
+        buffer.shift();
+        continue;
+      }
+      const taken = group.patches.slice(0, limit - count);
+      groups.push({ patches: taken, atomic: false });
+      count += taken.length;
+      if (taken.length === group.patches.length) {
+        buffer.shift();
       } else {
-        allPatches.push(...group.patches);
+        buffer[0] = { patches: group.patches.slice(taken.length), atomic: false };
       }
     }
-    // Flush remaining non-atomic patches
-    if (allPatches.length > 0) {
+
+    // Spare budget goes to off-screen elements
+    if (buffer.length === 0 && deferred.length > 0 && count < limit) {
+      const taken = deferred.slice(0, limit - count);
+      deferred = deferred.slice(taken.length);
+      deferredKeys = new Set(deferred.map((patch) => patchTarget(patch)!.key));
+      groups.push({ patches: taken, atomic: false });
+      count += taken.length;
+    }
+
+    totalPatches -= count;
+    return { groups, count };
+  }
+
+  function applyGroups(groups: PatchGroup[], count: number): void {
+    const start = now();
+    const savedSel = saveSelection();
+
+    for (const batch of mergePatchGroups(groups)) {
       try {
-        bridge.applyPatches(allPatches, patchOpts);
+        bridge.applyPatches(batch.patches, patchOpts);
       } catch (e) {
-        streamLog.error("Patch application failed", { error: e, patchCount: allPatches.length });
+        streamLog.error(batch.atomic ? "Atomic patch application failed" : "Patch application failed", {
+          error: e,
+          patchCount: batch.patches.length,
+        });
       }
     }
 
-    streamLog.debug("Pipeline flushed", { groups: toApply.length, totalPatches: count });
+    queueMicrotask(() => recordFlush(now() - start, count));
+    streamLog.debug("Pipeline flushed", { groups: groups.length, totalPatches: count, remaining: totalPatches });
 
     // Restore selection after DOM reconciliation
     if (savedSel) {
@@ -166,28 +238,138 @@ export function createPatchPipeline(
     }
   }
 
+  /** Frame callback: apply what fits in the budget, leave the rest for later frames */
+  function applyFrame(): void {
+    rafId = null;
+    if (totalPatches === 0) return;
+    if (worker) {
+      postBuffer(worker);
+      return;
+    }
+    const { groups, count } = takeBatch(Math.max(1, Math.floor(frameBudget / costPerPatch)));
+    applyGroups(groups, count);
+    if (totalPatches > 0) scheduleFlush();
+    else settle();
+  }
+
+  /** Apply everything queued now */
+  function applyBuffer(): void {
+    if (totalPatches === 0) return;
+    if (worker) {
+      postBuffer(worker);
+      return;
+    }
+    const { groups, count } = drainBuffer();
+    applyGroups(groups, count);
+    settle();
+  }
+
+  function settle(): void {
+    if (inFlight || totalPatches > 0) return;
+    const waiters = settleWaiters;
+    settleWaiters = [];
+    for (const resolve of waiters) resolve();
+  }
+
+  function postBuffer(client: PatchWorkerClient): void {
+    if (inFlight) return;
+    const base = bridge.getTree();
+    if (!base) {
+      drainBuffer();
+      settle();
+      return;
+    }
+
+    const { groups, count } = drainBuffer();
+    const requestGeneration = generation;
+    const tree = base === workerTree ? undefined : base;
+    workerTree = base;
+    inFlight = true;
+    const start = now();
+
+    client
+      .apply(pipelineId, { tree, groups, options: patchOpts })
+      .then(
+        (result) => {
+          if (requestGeneration !== generation) return;
+          const current = bridge.getTree();
+          if (!current) return;
+          const savedSel = saveSelection();
+          const merged = mergeWorkerResult(current, result);
+          // Edits made on the main thread meanwhile are not in the worker's copy
+          workerTree = current === workerTree ? merged : null;
+          bridge.setTree(merged);
+          queueMicrotask(() => recordFlush(now() - start, count));
+          streamLog.debug("Pipeline flushed in worker", { groups: groups.length, totalPatches: count });
+          if (savedSel) {
+            requestAnimationFrame(() => restoreSelection(savedSel));
+          }
+        },
+        (e) => {
+          workerTree = null;
+          if (requestGeneration !== generation) return;
+          // The groups are no longer buffered: apply them here instead
+          streamLog.error("Worker patch application failed, applying on the main thread", {
+            error: e,
+            patchCount: count,
+          });
+          applyGroups(groups, count);
+        },
+      )
+      .catch((e) => {
+        workerTree = null;
+        streamLog.error("Worker patch result could not be merged", { error: e, patchCount: count });
+      })
+      .finally(() => {
+        inFlight = false;
+        // Someone is waiting on settled(): don't wait for the next frame
+        if (totalPatches > 0 && settleWaiters.length > 0) applyBuffer();
+        else if (totalPatches > 0) scheduleFlush();
+        settle();
+      });
+  }
+
   function scheduleFlush(): void {
     if (rafId !== null) return;
     if (typeof requestAnimationFrame !== "undefined") {
-      rafId = requestAnimationFrame(applyBuffer);
+      rafId = requestAnimationFrame(applyFrame);
     } else {
       // SSR/test fallback
-      setTimeout(applyBuffer, 0);
+      setTimeout(applyFrame, 0);
+    }
+  }
+
+  function cancelFrame(): void {
+    if (rafId !== null) {
+      cancelAnimationFrame(rafId);
+      rafId = null;
     }
   }
 
   return {
     push(patches, atomic = false) {
       if (patches.length === 0) return;
-      buffer.push({ patches, atomic });
+      if (atomic || !isOffscreen) {
+        buffer.push({ patches, atomic });
+      } else {
+        const visible: JsonPatch[] = [];
+        for (const patch of patches) {
+          const target = patchTarget(patch);
+          // Once deferred, an element's later patches queue behind the earlier ones
+          if (target && (deferredKeys.has(target.key) || (target.partial && isOffscreen(target.key)))) {
+            deferred.push(patch);
+            deferredKeys.add(target.key);
+          } else {
+            visible.push(patch);
+          }
+        }
+        if (visible.length > 0) buffer.push({ patches: visible, atomic: false });
+      }
       totalPatches += patches.length;
 
       // Backpressure: force-flush if buffer is too large
       if (totalPatches >= maxBuffer) {
-        if (rafId !== null) {
-          cancelAnimationFrame(rafId);
-          rafId = null;
-        }
+        cancelFrame();
         applyBuffer();
       } else {
         scheduleFlush();
@@ -195,24 +377,43 @@ export function createPatchPipeline(
     },
 
     flush() {
-      if (rafId !== null) {
-        cancelAnimationFrame(rafId);
-        rafId = null;
-      }
+      cancelFrame();
       applyBuffer();
     },
 
+    settled() {
+      if (!inFlight && totalPatches === 0) return Promise.resolve();
+      return new Promise((resolve) => {
+        settleWaiters.push(resolve);
+      });
+    },
+
+    finalize() {
+      const tree = bridge.getTree();
+      if (!tree) return;
+      const finalized = finalizeStreamingPhases(tree);
+      if (finalized !== tree) bridge.setTree(finalized);
+    },
+
     reset() {
-      if (rafId !== null) {
-        cancelAnimationFrame(rafId);
-        rafId = null;
-      }
+      cancelFrame();
       buffer = [];
+      deferred = [];
+      deferredKeys = new Set();
       totalPatches = 0;
+      if (worker) {
+        // Ignore the in-flight result and drop the worker's copy
+        generation++;
+        workerTree = null;
+        worker.dispose(pipelineId);
+        settle();
+      }
     },
 
     destroy() {
       this.flush();
     },
+
+    getMetrics,
   };
 }
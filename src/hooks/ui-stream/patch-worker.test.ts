@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import type { UITree } from "@onegenui/core";
+import { createPatchPipeline } from "./patch-pipeline";
+import { createPatchWorkerHandler, type PatchWorkerClient } from "./patch-worker";
+import type { TreeStoreBridge } from "./tree-store-bridge";
+
+function createMemoryBridge(initial: UITree): TreeStoreBridge {
+  let tree: UITree | null = initial;
+  return {
+    getTree: () => tree,
+    applyPatches: () => tree,
+    setTree: (next) => { tree = next; },
+    setStreaming: () => {},
+    clear: () => { tree = null; },
+  };
+}
+
+/** Runs the worker handler in-process, like a worker would after postMessage */
+function createInProcessClient(): PatchWorkerClient & { requests: { hasTree: boolean }[] } {
+  const handle = createPatchWorkerHandler();
+  const requests: { hasTree: boolean }[] = [];
+  let requestId = 0;
+  return {
+    requests,
+    async apply(pipelineId, request) {
+      requests.push({ hasTree: !!request.tree });
+      const tree = request.tree && structuredClone(request.tree);
+      const response = handle({ type: "apply", pipelineId, requestId: ++requestId, ...request, tree });
+      if (response?.type !== "applied") throw new Error("apply failed");
+      return structuredClone(response);
+    },
+    dispose(pipelineId) {
+      handle({ type: "dispose", pipelineId });
+    },
+    close() {},
+  };
+}
+
+describe("patch worker", () => {
+  it("merges only changed elements and keeps the rest shared", async () => {
+    const card = { key: "card", type: "Card", props: { title: "Sales" }, children: [] };
+    const chart = { key: "chart", type: "Chart", props: { kind: "bar" }, children: [] };
+    const bridge = createMemoryBridge({ root: "card", elements: { card, chart } });
+    const worker = createInProcessClient();
+    const pipeline = createPatchPipeline(bridge, { worker });
+
+    pipeline.push([{ op: "set", path: "/elements/chart/props/kind", value: "line" }]);
+    pipeline.flush();
+    await pipeline.settled();
+
+    const tree = bridge.getTree()!;
+    expect(tree.elements.card).toBe(card);
+    expect(tree.elements.chart?.props).toEqual({ kind: "line" });
+
+    pipeline.push([{ op: "remove", path: "/elements/chart" }]);
+    pipeline.flush();
+    await pipeline.settled();
+
+    expect(Object.keys(bridge.getTree()!.elements)).toEqual(["card"]);
+    // The tree is only sent once; later requests reuse the worker's copy
+    expect(worker.requests).toEqual([{ hasTree: true }, { hasTree: false }]);
+  });
+
+  it("resends the tree after a main-thread edit", async () => {
+    const bridge = createMemoryBridge({ root: "a", elements: { a: { key: "a", type: "Text", props: {} } } });
+    const worker = createInProcessClient();
+    const pipeline = createPatchPipeline(bridge, { worker });
+
+    pipeline.push([{ op: "set", path: "/elements/a/props/text", value: "1" }]);
+    pipeline.flush();
+    await pipeline.settled();
+    const edited = bridge.getTree()!;
+    bridge.setTree({ ...edited, elements: { ...edited.elements, b: { key: "b", type: "Text", props: {} } } });
+
+    pipeline.push([{ op: "set", path: "/elements/a/props/text", value: "2" }]);
+    pipeline.flush();
+    await pipeline.settled();
+
+    expect(Object.keys(bridge.getTree()!.elements)).toEqual(["a", "b"]);
+    expect(worker.requests.map((r) => r.hasTree)).toEqual([true, true]);
+  });
+});
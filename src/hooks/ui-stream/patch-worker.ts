@@ -0,0 +1,216 @@
+"use client";
+
+/**
+ * Patch Worker - Applies stream patches off the main thread
+ *
+ * Worker side: startPatchWorker() keeps one tree copy per pipeline and runs
+ * applyPatchesBatch on it. Only the elements whose reference changed are
+ * posted back, plus the keys of removed elements.
+ *
+ * Main side: createPatchWorkerClient() wraps a Worker for PatchPipeline.
+ * The pipeline merges each result into the current tree, so untouched
+ * elements keep their references (memoized renderers skip them).
+ *
+ * The library ships a single entry, so the worker script lives in the app:
+ *
+ * ```ts
+ * // patch.worker.ts
+ * import { startPatchWorker } from "@onegenui/react";
+ * startPatchWorker();
+ * ```
+ */
+
+import type { JsonPatch, UIElement, UITree } from "@onegenui/core";
+import { applyPatchesBatch, type ApplyPatchOptions } from "../patch-utils";
+
+/** A group of patches, optionally atomic (must be applied together) */
+export interface PatchGroup {
+  patches: JsonPatch[];
+  atomic: boolean;
+}
+
+export type PatchWorkerRequest =
+  | {
+      type: "apply";
+      pipelineId: string;
+      requestId: number;
+      /** Replaces the worker's copy (first request, or after the main tree changed) */
+      tree?: UITree;
+      groups: PatchGroup[];
+      options: ApplyPatchOptions;
+    }
+  | { type: "dispose"; pipelineId: string };
+
+export type PatchWorkerResponse =
+  | {
+      type: "applied";
+      pipelineId: string;
+      requestId: number;
+      root: string;
+      /** Elements added or changed, by key */
+      changed: Record<string, UIElement>;
+      removed: string[];
+    }
+  | { type: "failed"; pipelineId: string; requestId: number; message: string };
+
+export type PatchWorkerResult = Extract<PatchWorkerResponse, { type: "applied" }>;
+
+/**
+ * Merge consecutive non-atomic groups into one batch; atomic groups stay
+ * separate so they are applied together
+ */
+export function mergePatchGroups(groups: PatchGroup[]): PatchGroup[] {
+  const batches: PatchGroup[] = [];
+  for (const group of groups) {
+    const last = batches[batches.length - 1];
+    if (!group.atomic && last && !last.atomic) {
+      last.patches.push(...group.patches);
+    } else {
+      batches.push({ patches: [...group.patches], atomic: group.atomic });
+    }
+  }
+  return batches;
+}
+
+/** Elements whose reference changed between two trees */
+function diffElements(prev: UITree, next: UITree): Pick<PatchWorkerResult, "changed" | "removed"> {
+  const changed: Record<string, UIElement> = {};
+  const removed: string[] = [];
+  for (const [key, element] of Object.entries(next.elements)) {
+    if (prev.elements[key] !== element) changed[key] = element;
+  }
+  for (const key of Object.keys(prev.elements)) {
+    if (!(key in next.elements)) removed.push(key);
+  }
+  return { changed, removed };
+}
+
+/** Apply a worker result on top of a tree, keeping unchanged element references */
+export function mergeWorkerResult(tree: UITree, result: PatchWorkerResult): UITree {
+  const elements = { ...tree.elements, ...result.changed };
+  for (const key of result.removed) delete elements[key];
+  return { ...tree, root: result.root, elements };
+}
+
+/**
+ * Worker-side message handler. Exposed separately from startPatchWorker so
+ * it can run without a Worker (tests, custom hosts).
+ */
+export function createPatchWorkerHandler(): (request: PatchWorkerRequest) => PatchWorkerResponse | null {
+  const trees = new Map<string, UITree>();
+
+  return (request) => {
+    if (request.type === "dispose") {
+      trees.delete(request.pipelineId);
+      return null;
+    }
+
+    const { pipelineId, requestId } = request;
+    const base = request.tree ?? trees.get(pipelineId);
+    if (!base) {
+      return { type: "failed", pipelineId, requestId, message: "No tree for pipeline" };
+    }
+
+    let tree = base;
+    for (const batch of mergePatchGroups(request.groups)) {
+      tree = applyPatchesBatch(tree, batch.patches, request.options);
+    }
+    trees.set(pipelineId, tree);
+    return { type: "applied", pipelineId, requestId, root: tree.root, ...diffElements(base, tree) };
+  };
+}
+
+/** The parts of a DedicatedWorkerGlobalScope the worker uses */
+export interface PatchWorkerScope {
+  onmessage: ((event: MessageEvent<PatchWorkerRequest>) => void) | null;
+  postMessage(message: PatchWorkerResponse): void;
+}
+
+/** Call from a worker script to serve PatchPipeline requests */
+export function startPatchWorker(
+  scope: PatchWorkerScope = self as unknown as PatchWorkerScope,
+): void {
+  const handle = createPatchWorkerHandler();
+  scope.onmessage = (event) => {
+    const request = event.data;
+    let response: PatchWorkerResponse | null;
+    try {
+      response = handle(request);
+    } catch (e) {
+      if (request.type !== "apply") return;
+      response = {
+        type: "failed",
+        pipelineId: request.pipelineId,
+        requestId: request.requestId,
+        message: e instanceof Error ? e.message : String(e),
+      };
+    }
+    if (response) scope.postMessage(response);
+  };
+}
+
+export interface PatchWorkerClient {
+  /** Apply patch groups to a pipeline's tree in the worker */
+  apply(
+    pipelineId: string,
+    request: { tree?: UITree; groups: PatchGroup[]; options: ApplyPatchOptions },
+  ): Promise<PatchWorkerResult>;
+  /** Drop a pipeline's tree copy */
+  dispose(pipelineId: string): void;
+  /** Stop listening to the worker (the worker itself is not terminated) */
+  close(): void;
+}
+
+/**
+ * Main-side client for a worker running startPatchWorker(). One worker can
+ * serve every pipeline; requests are matched to responses by id.
+ */
+export function createPatchWorkerClient(worker: Worker): PatchWorkerClient {
+  let nextRequestId = 0;
+  const pending = new Map<number, { resolve: (result: PatchWorkerResult) => void; reject: (error: Error) => void }>();
+
+  const onMessage = (event: MessageEvent<PatchWorkerResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.requestId);
+    if (!request) return;
+    pending.delete(response.requestId);
+    if (response.type === "applied") {
+      request.resolve(response);
+    } else {
+      request.reject(new Error(response.message));
+    }
+  };
+
+  const onError = (event: ErrorEvent) => {
+    const error = new Error(event.message || "Patch worker failed");
+    for (const request of pending.values()) request.reject(error);
+    pending.clear();
+  };
+
+  worker.addEventListener("message", onMessage);
+  worker.addEventListener("error", onError);
+
+  return {
+    apply(pipelineId, { tree, groups, options }) {
+      const requestId = ++nextRequestId;
+      return new Promise((resolve, reject) => {
+        pending.set(requestId, { resolve, reject });
+        const message: PatchWorkerRequest = { type: "apply", pipelineId, requestId, tree, groups, options };
+        worker.postMessage(message);
+      });
+    },
+
+    dispose(pipelineId) {
+      const message: PatchWorkerRequest = { type: "dispose", pipelineId };
+      worker.postMessage(message);
+    },
+
+    close() {
+      worker.removeEventListener("message", onMessage);
+      worker.removeEventListener("error", onError);
+      const error = new Error("Patch worker client closed");
+      for (const request of pending.values()) request.reject(error);
+      pending.clear();
+    },
+  };
+}
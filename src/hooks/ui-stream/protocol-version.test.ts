@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { createFrameParser, detectProtocolVersion } from "./protocol-version";
+
+describe("protocol-version", () => {
+  it("detects the version from the first data line", () => {
+    expect(detectProtocolVersion('d:{"version":"3.0","event":{"kind":"done"}}')).toBe("3");
+    expect(detectProtocolVersion('d:{"event":{"kind":"text-delta"}}')).toBe("3");
+    expect(detectProtocolVersion('0:"Hello"')).toBe("2");
+    expect(detectProtocolVersion('d:{"op":"set","path":"/root","value":"main"}')).toBe("2");
+    expect(detectProtocolVersion('data:["add","/elements/a",{}]')).toBe("2");
+    expect(detectProtocolVersion("data: [DONE]")).toBeNull();
+    expect(detectProtocolVersion(": keep-alive")).toBeNull();
+  });
+
+  it("normalizes a v2 stream into stream events", () => {
+    const parser = createFrameParser();
+    const lines = [
+      '0:"Hel"',
+      '0:"lo"',
+      'd:{"op":"set","path":"/root","value":"main"}',
+      'd:["message",null,"Done"]',
+      'd:{"op":"noop"}',
+    ];
+
+    expect(lines.map((line) => parser.parse(line)?.event ?? null)).toEqual([
+      { type: "text-delta", messageId: "legacy-text", delta: "Hel", role: "assistant" },
+      { type: "text-delta", messageId: "legacy-text", delta: "lo", role: "assistant" },
+      { type: "patch", patches: [{ op: "set", path: "/root", value: "main" }] },
+      { type: "message", message: { role: "assistant", content: "Done" } },
+      null,
+    ]);
+    expect(parser.version).toBe("2");
+  });
+});
@@ -0,0 +1,94 @@
+"use client";
+
+/**
+ * Protocol Version - Negotiates the stream format with the backend
+ *
+ * - requests advertise the versions the client reads in
+ *   `X-OneGenUI-Protocol-Versions` (preferred first, e.g. `3, 2`)
+ * - the backend's version is detected from its first data frame:
+ *   wire frames (`{ version: "3.x", event }`) are v3; `0:` text parts and
+ *   bare operation payloads are v2 (AI SDK data stream)
+ * - every later line of the stream goes through the matching parser;
+ *   v2 lines are normalized by the legacy adapter
+ *
+ * A version the client did not advertise is parsed as v3, so the
+ * protocol policy decides what happens to its frames.
+ */
+
+import { parseSSEFrame, type ParsedFrame, type ParseFrameOptions } from "./stream-parser";
+import { parseLegacyFrame } from "./legacy-adapter";
+import { streamLog } from "./logger";
+
+export type ProtocolVersion = "3" | "2";
+
+export const PROTOCOL_VERSIONS_HEADER = "X-OneGenUI-Protocol-Versions";
+
+/** Versions the client reads, preferred first */
+export const SUPPORTED_PROTOCOL_VERSIONS: ProtocolVersion[] = ["3", "2"];
+
+/**
+ * Detect the protocol version from a stream line. Returns null for lines
+ * that carry no data (comments, `[DONE]`, blank or unparseable lines).
+ */
+export function detectProtocolVersion(line: string): ProtocolVersion | null {
+  const separatorIndex = line.indexOf(":");
+  if (separatorIndex === -1) return null;
+
+  const lineType = line.slice(0, separatorIndex);
+  if (lineType === "0") return "2";
+  if (lineType !== "d" && lineType !== "data") return null;
+
+  const content = line.slice(separatorIndex + 1).trim();
+  if (!content || content === "[DONE]") return null;
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(content);
+  } catch {
+    return null;
+  }
+  if (!payload || typeof payload !== "object") return null;
+  if (Array.isArray(payload)) return "2";
+
+  const { version, event } = payload as { version?: unknown; event?: unknown };
+  if (typeof version === "string") return version.startsWith("2") ? "2" : "3";
+  return event && typeof event === "object" ? "3" : "2";
+}
+
+export interface FrameParserOptions extends ParseFrameOptions {
+  /** Versions the client accepts (default: SUPPORTED_PROTOCOL_VERSIONS) */
+  versions?: ProtocolVersion[];
+}
+
+export interface FrameParser {
+  /** Parse one line, detecting the version on the first data line */
+  parse(line: string): ParsedFrame | null;
+  /** Detected version (null until the first data line) */
+  readonly version: ProtocolVersion | null;
+}
+
+/**
+ * Create a parser for one stream. Each stream negotiates on its own, so
+ * a resumed stream detects the version again.
+ */
+export function createFrameParser(options: FrameParserOptions = {}): FrameParser {
+  const { versions = SUPPORTED_PROTOCOL_VERSIONS, ...parseOptions } = options;
+  let version: ProtocolVersion | null = null;
+
+  return {
+    parse(line) {
+      if (!version) {
+        version = detectProtocolVersion(line);
+        if (version) streamLog.info("Stream protocol detected", { version });
+      }
+      if (version === "2" && versions.includes("2")) {
+        return parseLegacyFrame(line);
+      }
+      return parseSSEFrame(line, parseOptions);
+    },
+
+    get version() {
+      return version;
+    },
+  };
+}
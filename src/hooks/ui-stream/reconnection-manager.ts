@@ -29,6 +29,8 @@ export interface ReconnectionManager {
   recordSequence(sequence: number): void;
   /** Get the last successfully processed sequence */
   getLastSequence(): number;
+  /** Whether a frame with this sequence was already processed (replayed on resume) */
+  isDuplicate(sequence: number): boolean;
   /** Attempt reconnection. Returns true if should retry, false if exhausted. */
   shouldRetry(): boolean;
   /** Get delay before next retry (exponential backoff with jitter) */
@@ -59,6 +61,10 @@ export function createReconnectionManager(
       return lastSequence;
     },
 
+    isDuplicate(sequence) {
+      return sequence <= lastSequence;
+    },
+
     shouldRetry() {
       return retryCount < cfg.maxRetries;
     },
@@ -0,0 +1,71 @@
+"use client";
+
+/**
+ * Cassette Replay - deterministic, React-free playback of a StreamCassette
+ *
+ * Parses every recorded line with a FrameParser and applies patches
+ * through a PatchPipeline bound to an in-memory bridge. Use it for UI
+ * regression tests: same cassette, same final tree.
+ */
+
+import type { UITree } from "@onegenui/core";
+import { applyPatchesBatch } from "../patch-utils";
+import { createPatchPipeline } from "./patch-pipeline";
+import type { StreamEvent } from "./stream-parser";
+import { createFrameParser, type FrameParserOptions } from "./protocol-version";
+import type { TreeStoreBridge } from "./tree-store-bridge";
+import type { StreamCassette } from "./transports/types";
+
+export interface CassetteReplayResult {
+  /** Tree after all patches were applied */
+  tree: UITree;
+  /** Every parsed event, in order */
+  events: StreamEvent[];
+}
+
+function createMemoryBridge(initialTree: UITree): TreeStoreBridge {
+  let tree: UITree | null = initialTree;
+  return {
+    getTree: () => tree,
+    applyPatches(patches, options = {}) {
+      if (!tree || patches.length === 0) return tree;
+      tree = applyPatchesBatch(tree, patches, options);
+      return tree;
+    },
+    setTree(next) {
+      tree = next;
+    },
+    setStreaming() {},
+    clear() {
+      tree = null;
+    },
+  };
+}
+
+/**
+ * Replay a cassette synchronously and return the resulting tree
+ */
+export function replayCassetteToTree(
+  cassette: StreamCassette,
+  options: { initialTree?: UITree; turnId?: string; protocol?: FrameParserOptions } = {},
+): CassetteReplayResult {
+  const bridge = createMemoryBridge(options.initialTree ?? { root: "", elements: {} });
+  const pipeline = createPatchPipeline(bridge, {
+    patchOptions: { turnId: options.turnId },
+  });
+  const events: StreamEvent[] = [];
+  const parser = createFrameParser(options.protocol);
+
+  for (const { line } of cassette.frames) {
+    const frame = parser.parse(line);
+    if (!frame) continue;
+    events.push(frame.event);
+    const frameEvents = frame.event.type === "batch" ? frame.event.events : [frame.event];
+    for (const event of frameEvents) {
+      if (event.type === "patch") pipeline.push(event.patches, event.atomic);
+    }
+  }
+  pipeline.flush();
+
+  return { tree: bridge.getTree() ?? { root: "", elements: {} }, events };
+}
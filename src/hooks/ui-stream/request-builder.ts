@@ -7,15 +7,31 @@
  * - FormData for file uploads
  * - JSON for library documents only
  * - JSON for text-only requests
+ *
+ * The tree goes out either in full (`currentTree` + `componentState`) or,
+ * with a TreePayload in delta mode, as `baseTreeHash` + `treeDelta` +
+ * `componentStateDelta` (see ./tree-sync).
  */
 
 import type { UITree } from "@onegenui/core";
 import type {
   Attachment,
+  ConversationMessage,
   ConversationTurn,
   FileAttachment,
   LibraryAttachment,
 } from "../types";
+import { buildConversationMessages } from "./context-window";
+import {
+  CAPABILITIES_HEADER,
+  TREE_DELTA_CAPABILITY,
+  type TreePayload,
+} from "./tree-sync";
+import {
+  PROTOCOL_VERSIONS_HEADER,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  type ProtocolVersion,
+} from "./protocol-version";
 
 /**
  * Generate idempotency key for request deduplication
@@ -32,47 +48,20 @@ export function isLibraryAttachment(a: Attachment): a is LibraryAttachment {
   return a.type === "library-document" && "documentId" in a;
 }
 
-/** Build conversation messages array for multi-turn context */
-export function buildConversationMessages(
-  conversation: ConversationTurn[],
-): Array<{ role: "user" | "assistant"; content: string }> {
-  const messages: Array<{ role: "user" | "assistant"; content: string }> = [];
-
-  for (const turn of conversation) {
-    // Only include completed turns (not loading)
-    if (turn.isLoading) continue;
-
-    // Add user message
-    if (turn.userMessage) {
-      messages.push({ role: "user", content: turn.userMessage });
-    }
-
-    // Add assistant response (combine all messages)
-    const assistantContent = turn.assistantMessages
-      .map((m) => {
-        if (typeof m.content === "string") return m.content;
-        const fallback = (m as { text?: string }).text;
-        return typeof fallback === "string" ? fallback : "";
-      })
-      .filter(Boolean)
-      .join("\n");
-
-    if (assistantContent) {
-      messages.push({ role: "assistant", content: assistantContent });
-    }
-  }
-
-  return messages;
-}
-
 export interface RequestBuilderInput {
   prompt: string;
   context?: Record<string, unknown>;
   currentTree: UITree;
   conversation: ConversationTurn[];
+  /** History picked by a context strategy (default: built from `conversation`) */
+  messages?: ConversationMessage[];
   attachments?: Attachment[];
   /** Component state from Zustand store - current values modified by user */
   componentState?: Record<string, Record<string, unknown>>;
+  /** Tree fields from TreeSync; overrides currentTree/componentState when set */
+  treePayload?: TreePayload;
+  /** Stream protocol versions to advertise (default: SUPPORTED_PROTOCOL_VERSIONS) */
+  protocolVersions?: ProtocolVersion[];
 }
 
 export interface RequestBuilderOutput {
@@ -80,22 +69,61 @@ export interface RequestBuilderOutput {
   headers: Record<string, string>;
 }
 
+/**
+ * Body fields carrying the tree and component state
+ */
+function buildTreeFields(
+  input: RequestBuilderInput,
+  hasTreeContext: boolean,
+): Record<string, unknown> {
+  const payload: TreePayload = input.treePayload ?? {
+    mode: "full",
+    tree: input.currentTree,
+    componentState: input.componentState,
+  };
+  const fields: Record<string, unknown> = {};
+
+  if (payload.mode === "delta") {
+    if (!hasTreeContext) {
+      fields.baseTreeHash = payload.baseTreeHash;
+      fields.treeDelta = payload.treeDelta;
+    }
+    if (Object.keys(payload.componentStateDelta).length > 0) {
+      fields.componentStateDelta = payload.componentStateDelta;
+    }
+    return fields;
+  }
+
+  if (!hasTreeContext) {
+    fields.currentTree = payload.tree;
+  }
+  // Include component state for user modifications
+  if (payload.componentState && Object.keys(payload.componentState).length > 0) {
+    fields.componentState = payload.componentState;
+  }
+  return fields;
+}
+
 /**
  * Build request body and headers based on attachment types
  */
 export function buildRequest(input: RequestBuilderInput): RequestBuilderOutput {
-  const { prompt, context, currentTree, conversation, attachments, componentState } = input;
-  const headers: Record<string, string> = {};
+  const { prompt, context, conversation, attachments } = input;
+  const headers: Record<string, string> = {
+    [CAPABILITIES_HEADER]: TREE_DELTA_CAPABILITY,
+    [PROTOCOL_VERSIONS_HEADER]: (input.protocolVersions ?? SUPPORTED_PROTOCOL_VERSIONS).join(", "),
+  };
 
   // Generate idempotency key for deduplication
   const idempotencyKey = generateIdempotencyKey();
   headers["X-Idempotency-Key"] = idempotencyKey;
 
   const hasTreeContext =
-    context && typeof context === "object" && "tree" in context;
+    !!context && typeof context === "object" && "tree" in context;
+  const treeFields = buildTreeFields(input, hasTreeContext);
 
   // Build conversation history for multi-turn support
-  const conversationMessages = buildConversationMessages(conversation);
+  const conversationMessages = input.messages ?? buildConversationMessages(conversation);
 
   // Separate file attachments from library attachments
   const fileAttachments = attachments?.filter(isFileAttachment) ?? [];
@@ -109,17 +137,13 @@ export function buildRequest(input: RequestBuilderInput): RequestBuilderOutput {
     if (context) {
       formData.append("context", JSON.stringify(context));
     }
-    if (!hasTreeContext) {
-      formData.append("currentTree", JSON.stringify(currentTree));
+    for (const [name, value] of Object.entries(treeFields)) {
+      formData.append(name, JSON.stringify(value));
     }
     // Include conversation history for multi-turn context
     if (conversationMessages.length > 0) {
       formData.append("messages", JSON.stringify(conversationMessages));
     }
-    // Include component state for user modifications
-    if (componentState && Object.keys(componentState).length > 0) {
-      formData.append("componentState", JSON.stringify(componentState));
-    }
 
     fileAttachments.forEach((att) => {
       formData.append("files", att.file);
@@ -144,34 +168,21 @@ export function buildRequest(input: RequestBuilderInput): RequestBuilderOutput {
       context,
       idempotencyKey,
       libraryDocumentIds: libraryAttachments.map((a) => a.documentId),
+      ...treeFields,
     };
-    if (!hasTreeContext) {
-      bodyPayload.currentTree = currentTree;
-    }
     if (conversationMessages.length > 0) {
       bodyPayload.messages = conversationMessages;
     }
-    // Include component state for user modifications
-    if (componentState && Object.keys(componentState).length > 0) {
-      bodyPayload.componentState = componentState;
-    }
     headers["Content-Type"] = "application/json";
     return { body: JSON.stringify(bodyPayload), headers };
   }
 
   // Use JSON for text-only requests
-  const bodyPayload: Record<string, unknown> = { prompt, context, idempotencyKey };
-  if (!hasTreeContext) {
-    bodyPayload.currentTree = currentTree;
-  }
+  const bodyPayload: Record<string, unknown> = { prompt, context, idempotencyKey, ...treeFields };
   // Include conversation history for multi-turn context
   if (conversationMessages.length > 0) {
     bodyPayload.messages = conversationMessages;
   }
-  // Include component state for user modifications
-  if (componentState && Object.keys(componentState).length > 0) {
-    bodyPayload.componentState = componentState;
-  }
   headers["Content-Type"] = "application/json";
   return { body: JSON.stringify(bodyPayload), headers };
 }
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { restoreSelection, saveSelection } from "./selection-anchor";
+
+/** An element as the renderer mounts it */
+function owner(key: string, html: string): HTMLElement {
+  const element = document.createElement("div");
+  element.setAttribute("data-element-key", key);
+  element.innerHTML = html;
+  return element;
+}
+
+/** Replace an owner with a freshly mounted copy, as a re-render that remounts it would */
+function remount(element: HTMLElement): HTMLElement {
+  const copy = owner(element.getAttribute("data-element-key")!, element.innerHTML);
+  element.replaceWith(copy);
+  return copy;
+}
+
+describe("selection anchor", () => {
+  beforeEach(() => {
+    // jsdom has no CSS.escape; the keys used here need no escaping
+    if (typeof CSS === "undefined") vi.stubGlobal("CSS", { escape: (value: string) => value });
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    window.getSelection()?.removeAllRanges();
+    document.body.innerHTML = "";
+  });
+
+  it("restores a text selection after a node is inserted above it", () => {
+    const paragraph = owner("intro", "<p>Hello <b>streaming</b> world</p>");
+    document.body.append(paragraph);
+    const bold = paragraph.querySelector("b")!.firstChild!;
+    window.getSelection()!.setBaseAndExtent(bold, 0, bold, 6);
+    expect(window.getSelection()!.toString()).toBe("stream");
+
+    const saved = saveSelection();
+    const remounted = remount(paragraph);
+    document.body.prepend(owner("header", "<h1>New section</h1>"));
+    restoreSelection(saved);
+
+    const selection = window.getSelection()!;
+    expect(selection.toString()).toBe("stream");
+    expect(remounted.contains(selection.anchorNode)).toBe(true);
+  });
+
+  it("restores focus and caret in a re-mounted input", () => {
+    const field = owner("form", '<input value="Quarterly report">');
+    document.body.append(field);
+    const input = field.querySelector("input")!;
+    input.focus();
+    input.setSelectionRange(3, 9);
+
+    const saved = saveSelection();
+    const remounted = remount(field).querySelector("input")!;
+    restoreSelection(saved);
+
+    expect(document.activeElement).toBe(remounted);
+    expect([remounted.selectionStart, remounted.selectionEnd]).toEqual([3, 9]);
+  });
+
+  it("leaves a selection the browser kept alone", () => {
+    const paragraph = owner("intro", "<p>Hello world</p>");
+    document.body.append(paragraph);
+    const text = paragraph.querySelector("p")!.firstChild!;
+    window.getSelection()!.setBaseAndExtent(text, 0, text, 5);
+
+    const saved = saveSelection();
+    // The user moves the selection while the update renders
+    window.getSelection()!.setBaseAndExtent(text, 6, text, 11);
+    restoreSelection(saved);
+
+    expect(window.getSelection()!.toString()).toBe("world");
+  });
+
+  it("does not take focus back after the user moved away", () => {
+    const field = owner("form", '<input value="Title"><textarea>Notes</textarea>');
+    document.body.append(field);
+    const [input, textarea] = [field.querySelector("input")!, field.querySelector("textarea")!];
+    input.focus();
+
+    // The user tabs to the next field while the update renders
+    let saved = saveSelection();
+    textarea.focus();
+    restoreSelection(saved);
+    expect(document.activeElement).toBe(textarea);
+
+    // The input is re-mounted, but the user has clicked into search meanwhile
+    input.focus();
+    saved = saveSelection();
+    remount(field);
+    const search = document.createElement("input");
+    document.body.append(search);
+    search.focus();
+    restoreSelection(saved);
+    expect(document.activeElement).toBe(search);
+  });
+});
@@ -0,0 +1,197 @@
+"use client";
+
+/**
+ * Selection Anchor - Keeps the user's selection and caret across tree updates
+ *
+ * Positions are stored relative to the owning element (`data-element-key`,
+ * plus `data-prop-name` for EditableText) as an offset into its text
+ * content, so nodes inserted elsewhere while streaming don't move them.
+ *
+ * Handles:
+ * - text selections, and carets inside contentEditable (EditableText)
+ * - focus and caret / selection range of inputs and textareas
+ *
+ * Restoring only happens when the update actually lost the selection or
+ * focus (the owning node was re-mounted). If the browser kept it, it is left
+ * alone, so typing while nearby elements stream in is never interrupted.
+ */
+
+const OWNER_SELECTOR = "[data-element-key]";
+
+/** A point as (owning element, offset into its text content) */
+interface TextAnchor {
+  elementKey: string;
+  propName: string | null;
+  offset: number;
+}
+
+interface SavedRange {
+  kind: "range";
+  anchor: TextAnchor;
+  focus: TextAnchor;
+  /** Node the selection was in, to tell whether it survived */
+  anchorNode: Node;
+  /** Focused contentEditable owning the selection */
+  editable: boolean;
+}
+
+interface SavedInput {
+  kind: "input";
+  input: HTMLInputElement | HTMLTextAreaElement;
+  elementKey: string | null;
+  /** Position among the owner's inputs, to find a re-mounted one */
+  index: number;
+  selectionStart: number | null;
+  selectionEnd: number | null;
+  direction: "forward" | "backward" | "none" | null;
+}
+
+export type SavedSelection = SavedRange | SavedInput;
+
+function findOwner(node: Node | null): HTMLElement | null {
+  const element = node instanceof Element ? node : node?.parentElement ?? null;
+  return element?.closest<HTMLElement>(OWNER_SELECTOR) ?? null;
+}
+
+function ownerSelector(elementKey: string, propName: string | null): string {
+  const key = `[data-element-key="${CSS.escape(elementKey)}"]`;
+  return propName ? `${key}[data-prop-name="${CSS.escape(propName)}"]` : key;
+}
+
+function textNodes(root: Node): Text[] {
+  const nodes: Text[] = [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    nodes.push(node as Text);
+  }
+  return nodes;
+}
+
+/** Offset of a DOM point into the owner's text content */
+function toTextOffset(owner: HTMLElement, node: Node, offset: number): number {
+  const range = document.createRange();
+  range.selectNodeContents(owner);
+  range.setEnd(node, offset);
+  return range.toString().length;
+}
+
+/** DOM point at a text offset inside the owner (clamped to its length) */
+function fromTextOffset(owner: HTMLElement, offset: number): { node: Node; offset: number } {
+  let remaining = offset;
+  const nodes = textNodes(owner);
+  for (const node of nodes) {
+    if (remaining <= node.length) return { node, offset: remaining };
+    remaining -= node.length;
+  }
+  const last = nodes[nodes.length - 1];
+  return last ? { node: last, offset: last.length } : { node: owner, offset: owner.childNodes.length };
+}
+
+function toAnchor(node: Node | null, offset: number): TextAnchor | null {
+  const owner = findOwner(node);
+  const elementKey = owner?.getAttribute("data-element-key");
+  if (!owner || !node || !elementKey) return null;
+  return {
+    elementKey,
+    propName: owner.getAttribute("data-prop-name"),
+    offset: toTextOffset(owner, node, offset),
+  };
+}
+
+function isTextInput(element: Element | null): element is HTMLInputElement | HTMLTextAreaElement {
+  if (element instanceof HTMLTextAreaElement) return true;
+  if (!(element instanceof HTMLInputElement)) return false;
+  // selectionStart throws/returns null for types without a caret
+  try {
+    return element.selectionStart !== null;
+  } catch {
+    return false;
+  }
+}
+
+function saveInput(input: HTMLInputElement | HTMLTextAreaElement): SavedInput {
+  const owner = findOwner(input);
+  return {
+    kind: "input",
+    input,
+    elementKey: owner?.getAttribute("data-element-key") ?? null,
+    index: owner ? Array.from(owner.querySelectorAll("input, textarea")).indexOf(input) : -1,
+    selectionStart: input.selectionStart,
+    selectionEnd: input.selectionEnd,
+    direction: input.selectionDirection,
+  };
+}
+
+export function saveSelection(): SavedSelection | null {
+  if (typeof window === "undefined") return null;
+
+  const active = document.activeElement;
+  if (isTextInput(active)) return saveInput(active);
+
+  const sel = window.getSelection();
+  if (!sel || sel.rangeCount === 0 || !sel.anchorNode) return null;
+  const editable = active instanceof HTMLElement && active.isContentEditable && active.contains(sel.anchorNode);
+  // A collapsed selection only matters as a caret in editable text
+  if (sel.isCollapsed && !editable) return null;
+
+  const anchor = toAnchor(sel.anchorNode, sel.anchorOffset);
+  const focus = toAnchor(sel.focusNode, sel.focusOffset);
+  if (!anchor || !focus) return null;
+  return { kind: "range", anchor, focus, anchorNode: sel.anchorNode, editable };
+}
+
+/** Whether something other than the page itself has focus */
+function hasFocusElsewhere(): boolean {
+  const active = document.activeElement;
+  return active !== null && active !== document.body;
+}
+
+function restoreInput(saved: SavedInput): void {
+  // Still mounted: the update did not take its focus. Focused, the browser
+  // kept the caret (and any typing since); not focused, the user moved away.
+  if (saved.input.isConnected) return;
+  // Focus went to another element after the input was removed
+  if (hasFocusElsewhere()) return;
+
+  if (!saved.elementKey || saved.index === -1) return;
+  const owner = document.querySelector(ownerSelector(saved.elementKey, null));
+  const input = owner?.querySelectorAll("input, textarea")[saved.index] ?? null;
+  if (!isTextInput(input)) return;
+
+  input.focus({ preventScroll: true });
+  if (saved.selectionStart !== null && saved.selectionEnd !== null) {
+    input.setSelectionRange(saved.selectionStart, saved.selectionEnd, saved.direction ?? undefined);
+  }
+}
+
+function restoreRange(saved: SavedRange): void {
+  const sel = window.getSelection();
+  if (!sel) return;
+  // The selection survived the update: leave it (the user may have moved it)
+  if (saved.anchorNode.isConnected && sel.rangeCount > 0) return;
+
+  const anchorOwner = document.querySelector<HTMLElement>(ownerSelector(saved.anchor.elementKey, saved.anchor.propName));
+  const focusOwner = document.querySelector<HTMLElement>(ownerSelector(saved.focus.elementKey, saved.focus.propName));
+  if (!anchorOwner || !focusOwner) return;
+
+  if (saved.editable && anchorOwner.isContentEditable && document.activeElement !== anchorOwner) {
+    if (hasFocusElsewhere()) return;
+    anchorOwner.focus({ preventScroll: true });
+  }
+  const anchor = fromTextOffset(anchorOwner, saved.anchor.offset);
+  const focus = fromTextOffset(focusOwner, saved.focus.offset);
+  sel.setBaseAndExtent(anchor.node, anchor.offset, focus.node, focus.offset);
+}
+
+export function restoreSelection(saved: SavedSelection | null): void {
+  if (!saved || typeof window === "undefined") return;
+  try {
+    if (saved.kind === "input") {
+      restoreInput(saved);
+    } else {
+      restoreRange(saved);
+    }
+  } catch {
+    // DOM structure changed — selection cannot be restored
+  }
+}
@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 import { createWireFrame } from "@onegenui/core";
-import { parseSSELine } from "./stream-parser";
+import { parseSSEFrame, parseSSELine, type ProtocolDiagnostic } from "./stream-parser";
 
 function toLine(payload: unknown): string {
   return `d:${JSON.stringify(payload)}`;
@@ -117,4 +117,94 @@ describe("stream-parser", () => {
       expect(parsed.error.code).toBe("STREAM_PROTOCOL_ERROR");
     }
   });
+
+  it("exposes the frame sequence for resume tracking", () => {
+    const line = toLine(
+      createWireFrame({
+        correlationId: "corr-4",
+        sequence: 7,
+        event: { kind: "done" },
+      }),
+    );
+
+    const parsed = parseSSEFrame(line);
+    expect(parsed?.event.type).toBe("done");
+    expect(parsed?.sequence).toBe(7);
+  });
+
+  it("parses text-delta frames", () => {
+    const line = toLine({
+      correlationId: "corr-5",
+      sequence: 8,
+      event: { kind: "text-delta", messageId: "msg-1", delta: "Hel" },
+    });
+
+    expect(parseSSEFrame(line)).toEqual({
+      event: { type: "text-delta", messageId: "msg-1", delta: "Hel", role: "assistant" },
+      sequence: 8,
+    });
+    const malformed = toLine({ sequence: 9, event: { kind: "text-delta", delta: "x" } });
+    expect(parseSSELine(malformed)?.type).toBe("error");
+
+    const diagnostics: ProtocolDiagnostic[] = [];
+    expect(
+      parseSSELine(malformed, { policy: "lenient", onDiagnostic: (d) => diagnostics.push(d) }),
+    ).toBeNull();
+    expect(diagnostics).toMatchObject([{ action: "skipped", sequence: 9 }]);
+  });
+
+  it("keeps every operation of mixed patch payloads in order", () => {
+    const line = toLine(
+      createWireFrame({
+        correlationId: "corr-6",
+        sequence: 10,
+        event: {
+          kind: "patch",
+          patches: [
+            { op: "set", path: "/root", value: "main" },
+            { op: "message", path: "", value: "Done" },
+            { op: "add", path: "/elements/main/props/gap", value: "lg" },
+          ],
+        },
+      }),
+    );
+
+    const parsed = parseSSELine(line);
+    expect(parsed?.type).toBe("batch");
+    if (parsed?.type === "batch") {
+      expect(parsed.events.map((event) => event.type)).toEqual(["patch", "message", "patch"]);
+    }
+  });
+
+  it("skips or repairs invalid frames according to the policy", () => {
+    const diagnostics: ProtocolDiagnostic[] = [];
+    const onDiagnostic = (diagnostic: ProtocolDiagnostic) => diagnostics.push(diagnostic);
+    const legacy = toLine({ op: "set", path: "/root", value: "main" });
+
+    expect(parseSSELine("d:{not json", { policy: "strict" })?.type).toBe("error");
+    expect(parseSSELine(legacy, { policy: "lenient", onDiagnostic })).toBeNull();
+    expect(parseSSELine(legacy, { policy: "repair", onDiagnostic })).toEqual({
+      type: "patch",
+      patches: [{ op: "set", path: "/root", value: "main" }],
+    });
+    expect(parseSSELine('0:"Hi"', { policy: "repair", onDiagnostic })).toMatchObject({
+      type: "text-delta",
+      delta: "Hi",
+    });
+    expect(parseSSELine(toLine({ unknown: true }), { policy: "repair", onDiagnostic })).toBeNull();
+
+    expect(diagnostics.map((d) => d.action)).toEqual(["skipped", "repaired", "repaired", "skipped"]);
+  });
+
+  it("parses heartbeat control frames", () => {
+    const line = toLine(
+      createWireFrame({
+        correlationId: "corr-7",
+        sequence: 11,
+        event: { kind: "control", action: "heartbeat" },
+      }),
+    );
+
+    expect(parseSSELine(line)).toEqual({ type: "heartbeat" });
+  });
 });
@@ -2,23 +2,44 @@
 
 /**
  * Stream Parser - SSE line parser for wire protocol v3.
+ *
+ * `text-delta` frames (`{ kind: "text-delta", messageId, delta, role? }`)
+ * carry token-level message text. The core WireFrameSchema predates them,
+ * so they are validated here before the schema check.
+ *
+ * Frames that fail validation are handled by the protocol policy:
+ * - strict: invalid frames and invalid JSON become a non-recoverable
+ *   STREAM_PROTOCOL_ERROR
+ * - lenient: they are skipped
+ * - repair: pre-v3 shapes (`{ op, path, value }`, `[op, path, value]`,
+ *   `{ type: "data", data }`, AI SDK `text-delta` and `0:` text lines) are
+ *   coerced into events by the legacy adapter; anything else is skipped
+ * Without a policy, invalid frames are rejected and invalid JSON is
+ * skipped. Every rejected, skipped or repaired frame is reported as a
+ * diagnostic.
  */
 
 import { WireFrameSchema, type JsonPatch } from "@onegenui/core";
 import type {
   ChatMessage,
+  ChatMessagePart,
   QuestionPayload,
   SuggestionChip,
   ToolProgress,
 } from "../types";
 import { streamLog } from "./logger";
+import { parseMessagePart, type MessagePartMode } from "./message-parts";
+import { legacyPayloadToEvent, parseLegacyFrame } from "./legacy-adapter";
+
+type WireFrame = ReturnType<typeof WireFrameSchema.parse>;
 
 export type StreamEvent =
-  | { type: "text-delta" }
+  | { type: "text-delta"; messageId: string; delta: string; role: ChatMessage["role"] }
   | { type: "done" }
   | { type: "error"; error: { code: string; message: string; recoverable: boolean } }
-  | { type: "streaming-started"; timestamp: number }
+  | { type: "streaming-started"; timestamp: number; capabilities: string[] }
   | { type: "message"; message: ChatMessage }
+  | { type: "message-part"; part: ChatMessagePart; messageId?: string; mode: MessagePartMode }
   | { type: "question"; question: QuestionPayload }
   | { type: "suggestion"; suggestions: SuggestionChip[] }
   | { type: "tool-progress"; progress: ToolProgress }
@@ -34,8 +55,40 @@ export type StreamEvent =
   | { type: "level-completed"; level: number }
   | { type: "orchestration-done"; finalResult?: unknown }
   | { type: "citations"; citations: unknown[] }
+  /** Keep-alive control frame; resets the idle timeout, never reaches the event loop */
+  | { type: "heartbeat" }
+  /** Several operations from one frame (mixed patch payloads), in order */
+  | { type: "batch"; events: StreamEvent[] }
   | { type: "unknown"; payload: unknown };
 
+export type ProtocolPolicy = "strict" | "lenient" | "repair";
+
+/**
+ * A frame the parser rejected, skipped or repaired
+ */
+export interface ProtocolDiagnostic {
+  action: "rejected" | "skipped" | "repaired";
+  reason: string;
+  /** Raw line, truncated to 500 characters */
+  line: string;
+  sequence?: number;
+  timestamp: number;
+  /** Turn the frame belonged to (set by the event loop) */
+  turnId?: string;
+}
+
+export interface ParseFrameOptions {
+  /**
+   * How to handle frames that fail validation (default: invalid frames are
+   * rejected, invalid JSON is skipped)
+   */
+  policy?: ProtocolPolicy;
+  /** Receives every rejected, skipped or repaired frame */
+  onDiagnostic?: (diagnostic: ProtocolDiagnostic) => void;
+}
+
+const MAX_DIAGNOSTIC_LINE = 500;
+
 function parsePatchOperation(patch: JsonPatch): StreamEvent | null {
   if (patch.op === "message") {
     const content = (patch as { content?: unknown }).content ?? patch.value;
@@ -100,30 +153,20 @@ function parsePatchEvent(event: {
     return null;
   }
 
-  if (parsedEvents.length === 1) {
-    const first = parsedEvents[0]!;
-    if (first.type === "patch" && atomic) {
-      return { ...first, atomic };
+  // Keep every operation in order; consecutive patches stay one patch event
+  const events: StreamEvent[] = [];
+  for (const candidate of parsedEvents) {
+    const last = events[events.length - 1];
+    if (candidate.type === "patch" && last?.type === "patch") {
+      last.patches.push(...candidate.patches);
+    } else if (candidate.type === "patch") {
+      events.push({ type: "patch", patches: [...candidate.patches], ...(atomic ? { atomic } : {}) });
+    } else {
+      events.push(candidate);
     }
-    return first;
-  }
-
-  const patchEvents = parsedEvents.filter((candidate) => candidate.type === "patch");
-  if (patchEvents.length === parsedEvents.length) {
-    const mergedPatches = patchEvents.flatMap((candidate) => candidate.patches);
-    return { type: "patch", patches: mergedPatches, atomic };
   }
 
-  const firstNonPatch = parsedEvents.find((candidate) => candidate.type !== "patch");
-  if (firstNonPatch) {
-    streamLog.warn(
-      "Mixed patch payload: non-patch operations cannot be split per frame",
-      { operations: rawPatches.length },
-    );
-    return firstNonPatch;
-  }
-
-  return null;
+  return events.length === 1 ? events[0]! : { type: "batch", events };
 }
 
 function parseControlEvent(control: {
@@ -137,7 +180,12 @@ function parseControlEvent(control: {
       return {
         type: "streaming-started",
         timestamp: Date.now(),
+        capabilities: Array.isArray(data.capabilities)
+          ? data.capabilities.filter((c): c is string => typeof c === "string")
+          : [],
       };
+    case "heartbeat":
+      return { type: "heartbeat" };
     case "persisted-attachments":
       return {
         type: "persisted-attachments",
@@ -176,91 +224,218 @@ function parseControlEvent(control: {
       return { type: "document-index-ui", uiComponent: data.uiComponent };
     case "citations":
       return { type: "citations", citations: (data.citations as unknown[]) ?? [] };
+    case "message-part": {
+      const part = parseMessagePart(data.part);
+      if (!part) return { type: "unknown", payload: { control } };
+      return {
+        type: "message-part",
+        part,
+        messageId: typeof data.messageId === "string" ? data.messageId : undefined,
+        mode: data.mode === "replace" ? "replace" : "append",
+      };
+    }
     default:
       return { type: "unknown", payload: { control } };
   }
 }
 
-export function parseSSELine(line: string): StreamEvent | null {
+/**
+ * A parsed wire frame: the normalized event plus the frame's sequence number
+ * (used for duplicate detection and resume-after-sequence on reconnect).
+ */
+export interface ParsedFrame {
+  event: StreamEvent;
+  sequence?: number;
+}
+
+function toStreamEvent(
+  event: WireFrame["event"],
+  sequence: number,
+): StreamEvent | null {
+  switch (event.kind) {
+    case "control":
+      return parseControlEvent(event);
+    case "progress":
+      return {
+        type: "tool-progress",
+        progress: {
+          toolName: event.toolName ?? "system",
+          toolCallId: event.toolCallId ?? `progress-${sequence}`,
+          status: event.status ?? "progress",
+          message: event.message,
+          data: event.data,
+          progress: event.progress,
+        },
+      };
+    case "message":
+      return {
+        type: "message",
+        message: {
+          id: event.id,
+          mode: event.mode,
+          role: event.role,
+          content: event.content,
+        },
+      };
+    case "patch":
+      return parsePatchEvent(event);
+    case "error":
+      return {
+        type: "error",
+        error: {
+          code: event.code,
+          message: event.message,
+          recoverable: event.recoverable,
+        },
+      };
+    case "done":
+      return { type: "done" };
+    default:
+      return { type: "unknown", payload: event };
+  }
+}
+
+function isTextDeltaPayload(
+  payload: unknown,
+): payload is { sequence?: unknown; event: Record<string, unknown> } {
+  if (!payload || typeof payload !== "object") return false;
+  return (payload as { event?: { kind?: unknown } }).event?.kind === "text-delta";
+}
+
+function parseTextDeltaFrame(
+  frame: { sequence?: unknown; event: Record<string, unknown> },
+  line: string,
+  options: ParseFrameOptions,
+): ParsedFrame | null {
+  const { messageId, delta, role } = frame.event;
+  const sequence = typeof frame.sequence === "number" ? frame.sequence : undefined;
+  if (typeof messageId !== "string" || typeof delta !== "string") {
+    streamLog.warn("Invalid text-delta frame", { sequence });
+    return handleInvalidFrame(
+      "Invalid wire frame: text-delta requires string messageId and delta",
+      line,
+      frame,
+      options,
+      "strict",
+    );
+  }
+  return {
+    event: {
+      type: "text-delta",
+      messageId,
+      delta,
+      role: role === "user" || role === "system" ? role : "assistant",
+    },
+    sequence,
+  };
+}
+
+function reportDiagnostic(
+  options: ParseFrameOptions,
+  action: ProtocolDiagnostic["action"],
+  reason: string,
+  line: string,
+  payload?: unknown,
+): void {
+  const sequence = (payload as { sequence?: unknown } | null | undefined)?.sequence;
+  options.onDiagnostic?.({
+    action,
+    reason,
+    line: line.slice(0, MAX_DIAGNOSTIC_LINE),
+    sequence: typeof sequence === "number" ? sequence : undefined,
+    timestamp: Date.now(),
+  });
+}
+
+function handleInvalidFrame(
+  reason: string,
+  line: string,
+  payload: unknown,
+  options: ParseFrameOptions,
+  defaultPolicy: ProtocolPolicy,
+): ParsedFrame | null {
+  const policy = options.policy ?? defaultPolicy;
+  const report = (action: ProtocolDiagnostic["action"]) =>
+    reportDiagnostic(options, action, reason, line, payload);
+
+  if (policy === "strict") {
+    report("rejected");
+    return {
+      event: {
+        type: "error",
+        error: { code: "STREAM_PROTOCOL_ERROR", message: reason, recoverable: false },
+      },
+    };
+  }
+
+  if (policy === "repair") {
+    const repaired = legacyPayloadToEvent(payload);
+    if (repaired) {
+      report("repaired");
+      return { event: repaired };
+    }
+  }
+
+  report("skipped");
+  return null;
+}
+
+export function parseSSELine(line: string, options?: ParseFrameOptions): StreamEvent | null {
+  return parseSSEFrame(line, options)?.event ?? null;
+}
+
+export function parseSSEFrame(line: string, options: ParseFrameOptions = {}): ParsedFrame | null {
   if (!line) return null;
 
   const separatorIndex = line.indexOf(":");
   if (separatorIndex === -1) return null;
 
   const lineType = line.slice(0, separatorIndex);
+  const content = line.slice(separatorIndex + 1).trim();
+
+  // AI SDK text part (`0:"text"`)
+  if (lineType === "0" && options.policy === "repair") {
+    const frame = parseLegacyFrame(line);
+    if (frame) reportDiagnostic(options, "repaired", "Legacy text line", line);
+    return frame;
+  }
+
   if (lineType !== "d" && lineType !== "data") {
     return null;
   }
 
-  const content = line.slice(separatorIndex + 1).trim();
-  if (!content) return null;
+  if (!content || content === "[DONE]") return null;
 
+  let payload: unknown;
   try {
-    const payload = JSON.parse(content) as unknown;
-    const frame = WireFrameSchema.safeParse(payload);
-    if (!frame.success) {
-      const issues = frame.error.issues.map((issue) => issue.message);
-      streamLog.warn("Invalid wire frame", {
-        issues,
-      });
-      return {
-        type: "error",
-        error: {
-          code: "STREAM_PROTOCOL_ERROR",
-          message: `Invalid wire frame: ${issues.join("; ") || "unknown validation error"}`,
-          recoverable: false,
-        },
-      };
-    }
-
-    const event = frame.data.event;
-    switch (event.kind) {
-      case "control":
-        return parseControlEvent(event);
-      case "progress":
-        return {
-          type: "tool-progress",
-          progress: {
-            toolName: event.toolName ?? "system",
-            toolCallId: event.toolCallId ?? `progress-${frame.data.sequence}`,
-            status: event.status ?? "progress",
-            message: event.message,
-            data: event.data,
-            progress: event.progress,
-          },
-        };
-      case "message":
-        return {
-          type: "message",
-          message: {
-            id: event.id,
-            mode: event.mode,
-            role: event.role,
-            content: event.content,
-          },
-        };
-      case "patch":
-        return parsePatchEvent(event);
-      case "error":
-        return {
-          type: "error",
-          error: {
-            code: event.code,
-            message: event.message,
-            recoverable: event.recoverable,
-          },
-        };
-      case "done":
-        return { type: "done" };
-      default:
-        return { type: "unknown", payload: event };
-    }
+    payload = JSON.parse(content) as unknown;
   } catch {
     streamLog.warn("Failed to parse SSE line", {
       content: content.slice(0, 100),
     });
-    return null;
+    return handleInvalidFrame("Invalid JSON in stream line", line, undefined, options, "lenient");
+  }
+
+  if (isTextDeltaPayload(payload)) return parseTextDeltaFrame(payload, line, options);
+
+  const frame = WireFrameSchema.safeParse(payload);
+  if (!frame.success) {
+    const issues = frame.error.issues.map((issue) => issue.message);
+    streamLog.warn("Invalid wire frame", {
+      issues,
+    });
+    return handleInvalidFrame(
+      `Invalid wire frame: ${issues.join("; ") || "unknown validation error"}`,
+      line,
+      payload,
+      options,
+      "strict",
+    );
   }
+
+  const { sequence } = frame.data;
+  const event = toStreamEvent(frame.data.event, sequence);
+  return event ? { event, sequence } : null;
 }
 
 export function createLineBuffer(): {
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_IDLE_TIMEOUT_MS, isIdleTimeoutError, readStreamWithTimeout } from "./stream-reader";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function* linesEvery(ms: number, lines: string[]) {
+  for (const line of lines) {
+    await wait(ms);
+    yield line;
+  }
+}
+
+/** Collects the frames; settles as a result object so a pending read can be inspected */
+function collect(lines: AsyncIterable<string>, idleTimeoutMs?: number) {
+  const state: { frames: unknown[]; error?: unknown; settled: boolean } = { frames: [], settled: false };
+  const done = (async () => {
+    try {
+      for await (const frame of readStreamWithTimeout(lines, { idleTimeoutMs })) state.frames.push(frame);
+    } catch (error) {
+      state.error = error;
+    }
+    state.settled = true;
+  })();
+  return { state, done };
+}
+
+describe("readStreamWithTimeout", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("keeps reading while lines arrive within the idle timeout", async () => {
+    const { state, done } = collect(linesEvery(40_000, ['0:"a"', ": ping", ": ping", '0:"b"']), 60_000);
+
+    await vi.advanceTimersByTimeAsync(160_000);
+    await done;
+
+    expect(state.error).toBeUndefined();
+    expect(state.frames.map((frame) => (frame as { event: { type: string } }).event.type)).toEqual([
+      "text-delta",
+      "text-delta",
+    ]);
+  });
+
+  it("fails with an idle timeout error when the stream goes silent", async () => {
+    const { state } = collect(linesEvery(80_000, ['0:"a"']), 30_000);
+
+    await vi.advanceTimersByTimeAsync(29_999);
+    expect(state.settled).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(state.settled).toBe(true);
+    expect(isIdleTimeoutError(state.error)).toBe(true);
+  });
+
+  it("uses DEFAULT_IDLE_TIMEOUT_MS when no timeout is given", async () => {
+    const { state } = collect(linesEvery(DEFAULT_IDLE_TIMEOUT_MS * 2, ['0:"a"']));
+
+    await vi.advanceTimersByTimeAsync(DEFAULT_IDLE_TIMEOUT_MS - 1);
+    expect(state.settled).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(isIdleTimeoutError(state.error)).toBe(true);
+  });
+});
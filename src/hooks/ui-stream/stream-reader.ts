@@ -4,60 +4,93 @@
  * Stream Reader - Async iterator for SSE streams with timeout
  *
  * Provides:
- * - Idle timeout protection
- * - Line buffering
- * - Event parsing via parseSSELine
+ * - Idle timeout protection (one timer per stream, reset by any line
+ *   including heartbeat control frames)
+ * - Frame parsing via a FrameParser (protocol version detection, event +
+ *   wire sequence)
+ *
+ * Transport-agnostic: consumes the line stream of any StreamTransport.
  */
 
-import { parseSSELine, type StreamEvent } from "./stream-parser";
+import type { ParsedFrame } from "./stream-parser";
+import { createFrameParser, type FrameParserOptions } from "./protocol-version";
+
+/**
+ * Idle timeout for normal chats. Lowered from the former 5-minute timeout
+ * for every stream; pass `idleTimeoutMs: 300000` to keep the old behaviour.
+ */
+export const DEFAULT_IDLE_TIMEOUT_MS = 120000; // 2 minutes
+/** Idle timeout for deep research, which can stay silent much longer */
+export const DEEP_RESEARCH_IDLE_TIMEOUT_MS = 300000; // 5 minutes
+export const STREAM_IDLE_TIMEOUT_CODE = "STREAM_IDLE_TIMEOUT";
 
-const IDLE_TIMEOUT_MS = 300000; // 5 minutes - deep research can take longer
+export interface StreamReaderOptions extends FrameParserOptions {
+  /** Fail the read after this long without any line (default: DEFAULT_IDLE_TIMEOUT_MS) */
+  idleTimeoutMs?: number;
+}
+
+export function createIdleTimeoutError(timeoutMs: number): Error {
+  return new Error(
+    `[${STREAM_IDLE_TIMEOUT_CODE}] Stream idle timeout: no activity for ${timeoutMs / 1000}s`,
+  );
+}
+
+/** Whether an error is the reader's idle timeout (recoverable by resuming) */
+export function isIdleTimeoutError(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    error.message.startsWith(`[${STREAM_IDLE_TIMEOUT_CODE}]`)
+  );
+}
 
 /**
- * Read SSE stream with idle timeout protection
- * Yields parsed events from the stream
+ * Read SSE lines with idle timeout protection
+ * Yields parsed frames (event + sequence) from the stream
  */
 export async function* readStreamWithTimeout(
-  reader: ReadableStreamDefaultReader<Uint8Array>,
-): AsyncGenerator<StreamEvent, void, unknown> {
-  const decoder = new TextDecoder();
-  let buffer = "";
+  lines: AsyncIterable<string>,
+  options: StreamReaderOptions = {},
+): AsyncGenerator<ParsedFrame, void, unknown> {
+  const { idleTimeoutMs = DEFAULT_IDLE_TIMEOUT_MS, ...parseOptions } = options;
+  const iterator = lines[Symbol.asyncIterator]();
+  const parser = createFrameParser(parseOptions);
   let lastActivityTime = Date.now();
 
-  const resetIdleTimer = () => {
-    lastActivityTime = Date.now();
+  // Single deadline timer: when it fires early (there was activity since it
+  // was armed) it re-arms for the remaining time instead of failing
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let rejectIdle: (error: Error) => void = () => {};
+  const idle = new Promise<never>((_, reject) => {
+    rejectIdle = reject;
+  });
+  idle.catch(() => {});
+
+  const checkIdle = () => {
+    const idleFor = Date.now() - lastActivityTime;
+    if (idleFor >= idleTimeoutMs) {
+      rejectIdle(createIdleTimeoutError(idleTimeoutMs));
+      return;
+    }
+    timer = setTimeout(checkIdle, idleTimeoutMs - idleFor);
   };
+  timer = setTimeout(checkIdle, idleTimeoutMs);
+
+  try {
+    while (true) {
+      const { done, value } = await Promise.race([iterator.next(), idle]);
+      if (done) break;
+
+      // Raw data received - reset timer
+      lastActivityTime = Date.now();
 
-  while (true) {
-    // Create read with idle timeout check
-    const readPromise = reader.read();
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      const checkInterval = setInterval(() => {
-        if (Date.now() - lastActivityTime > IDLE_TIMEOUT_MS) {
-          clearInterval(checkInterval);
-          reject(new Error(`Stream idle timeout: no activity for ${IDLE_TIMEOUT_MS / 1000}s`));
-        }
-      }, 5000);
-      readPromise.finally(() => clearInterval(checkInterval));
-    });
-
-    const { done, value } = await Promise.race([readPromise, timeoutPromise]);
-    if (done) break;
-
-    // Raw data received - reset timer
-    resetIdleTimer();
-
-    buffer += decoder.decode(value, { stream: true });
-    const lines = buffer.split("\n");
-    buffer = lines.pop() ?? "";
-
-    for (const line of lines) {
-      if (!line) continue;
-
-      const event = parseSSELine(line);
-      if (event) {
-        yield event;
+      if (!value) continue;
+      const frame = parser.parse(value);
+      // Heartbeats only keep the stream alive
+      if (frame && frame.event.type !== "heartbeat") {
+        yield frame;
       }
     }
+  } finally {
+    clearTimeout(timer);
   }
 }
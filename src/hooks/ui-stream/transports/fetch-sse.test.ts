@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from "vitest";
+import { createFetchSSETransport, readSSELines } from "./fetch-sse";
+import type { TransportRequest } from "./types";
+
+function makeRequest(signal = new AbortController().signal): TransportRequest {
+  return {
+    api: "/api/generate",
+    body: JSON.stringify({ prompt: "hello" }),
+    headers: { "Content-Type": "application/json" },
+    signal,
+  };
+}
+
+/** A body delivered in the given chunks */
+function byteStream(chunks: (string | Uint8Array)[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(typeof chunk === "string" ? encoder.encode(chunk) : chunk);
+      }
+      controller.close();
+    },
+  });
+}
+
+async function collect(lines: AsyncIterable<string>): Promise<string[]> {
+  const result: string[] = [];
+  for await (const line of lines) result.push(line);
+  return result;
+}
+
+describe("readSSELines", () => {
+  it("joins lines split across chunks and skips blank lines", async () => {
+    const lines = readSSELines(byteStream(['d:{"sequ', 'ence":1}\nd:{"seq', 'uence":2}\n\n', "d:[DONE]"]).getReader());
+
+    expect(await collect(lines)).toEqual(['d:{"sequence":1}', 'd:{"sequence":2}', "d:[DONE]"]);
+  });
+
+  it("decodes characters split across chunks", async () => {
+    const bytes = new TextEncoder().encode('d:"café"\n');
+    const split = bytes.indexOf(0xc3) + 1;
+    const lines = readSSELines(byteStream([bytes.slice(0, split), bytes.slice(split)]).getReader());
+
+    expect(await collect(lines)).toEqual(['d:"café"']);
+  });
+});
+
+describe("createFetchSSETransport", () => {
+  it("sends the request and streams the response lines", async () => {
+    const fetchImpl = vi.fn(async () => new Response(byteStream(["d:1\nd:", "2\n"])));
+    const request = makeRequest();
+    const transport = createFetchSSETransport({ fetch: fetchImpl as unknown as typeof fetch });
+
+    const stream = await transport.connect(request);
+
+    expect(fetchImpl).toHaveBeenCalledWith("/api/generate", {
+      method: "POST",
+      headers: request.headers,
+      body: request.body,
+      signal: request.signal,
+    });
+    expect(await collect(stream.lines)).toEqual(["d:1", "d:2"]);
+  });
+
+  it("fails with the status and body of an error response", async () => {
+    const fetchImpl = async () => new Response("rate limited", { status: 429 });
+    const transport = createFetchSSETransport({ fetch: fetchImpl as unknown as typeof fetch });
+
+    await expect(transport.connect(makeRequest())).rejects.toThrow("Stream request failed (429): rate limited");
+  });
+
+  it("cancels the response body on close", async () => {
+    const cancel = vi.fn();
+    const body = new ReadableStream<Uint8Array>({ pull: () => new Promise(() => {}), cancel });
+    const transport = createFetchSSETransport({
+      fetch: (async () => new Response(body)) as unknown as typeof fetch,
+    });
+
+    const stream = await transport.connect(makeRequest());
+    stream.close();
+
+    await vi.waitFor(() => expect(cancel).toHaveBeenCalled());
+  });
+});
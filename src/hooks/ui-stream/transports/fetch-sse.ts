@@ -0,0 +1,79 @@
+"use client";
+
+/**
+ * Fetch SSE Transport - POST request with a streamed response body
+ *
+ * The default transport: sends the request with fetch and splits the
+ * response body into SSE lines.
+ */
+
+import type { StreamTransport, TransportStream } from "./types";
+
+export interface FetchSSETransportOptions {
+  /** HTTP method (default: POST) */
+  method?: string;
+  /** Custom fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Decode a byte stream into newline-delimited lines
+ */
+export async function* readSSELines(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+): AsyncGenerator<string, void, unknown> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      if (line) yield line;
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer) yield buffer;
+}
+
+export function createFetchSSETransport(
+  options: FetchSSETransportOptions = {},
+): StreamTransport {
+  const method = options.method ?? "POST";
+
+  return {
+    name: "fetch-sse",
+
+    async connect(request): Promise<TransportStream> {
+      const fetchImpl = options.fetch ?? fetch;
+      const response = await fetchImpl(request.api, {
+        method,
+        headers: request.headers,
+        body: request.body,
+        signal: request.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => "Unknown error");
+        throw new Error(`Stream request failed (${response.status}): ${errorText}`);
+      }
+      if (!response.body) {
+        throw new Error("Response body is null — streaming not supported");
+      }
+
+      const reader = response.body.getReader();
+      return {
+        lines: readSSELines(reader),
+        close() {
+          reader.cancel().catch(() => {});
+        },
+      };
+    },
+  };
+}
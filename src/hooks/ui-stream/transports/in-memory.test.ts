@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { createInMemoryTransport } from "./in-memory";
+import type { TransportRequest } from "./types";
+
+function makeRequest(signal: AbortSignal): TransportRequest {
+  return { api: "/api/generate", body: "{}", headers: {}, signal };
+}
+
+describe("createInMemoryTransport", () => {
+  it("serializes frame objects and passes raw lines through", async () => {
+    const transport = createInMemoryTransport(() => [{ sequence: 0 }, 'data:{"sequence":1}']);
+
+    const stream = await transport.connect(makeRequest(new AbortController().signal));
+    const lines: string[] = [];
+    for await (const line of stream.lines) lines.push(line);
+
+    expect(lines).toEqual(['d:{"sequence":0}', 'data:{"sequence":1}']);
+  });
+
+  it("rejects a request that is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const transport = createInMemoryTransport(() => [{ sequence: 0 }]);
+
+    await expect(transport.connect(makeRequest(controller.signal))).rejects.toMatchObject({ name: "AbortError" });
+  });
+
+  it("fails the stream when the request is aborted mid-stream", async () => {
+    const controller = new AbortController();
+    const transport = createInMemoryTransport(async function* () {
+      yield { sequence: 0 };
+      controller.abort();
+      yield { sequence: 1 };
+    });
+
+    const stream = await transport.connect(makeRequest(controller.signal));
+    const iterator = stream.lines[Symbol.asyncIterator]();
+
+    expect(await iterator.next()).toEqual({ done: false, value: 'd:{"sequence":0}' });
+    await expect(iterator.next()).rejects.toMatchObject({ name: "AbortError" });
+  });
+
+  it("stops after close", async () => {
+    const transport = createInMemoryTransport(() => [{ sequence: 0 }, { sequence: 1 }]);
+
+    const stream = await transport.connect(makeRequest(new AbortController().signal));
+    const iterator = stream.lines[Symbol.asyncIterator]();
+    await iterator.next();
+    stream.close();
+
+    expect(await iterator.next()).toEqual({ done: true, value: undefined });
+  });
+});
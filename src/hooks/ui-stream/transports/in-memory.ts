@@ -0,0 +1,50 @@
+"use client";
+
+/**
+ * In-Memory Transport - feeds frames from an async iterable
+ *
+ * For tests, Storybook and mock agents running in-process. Items may be
+ * wire frame objects (serialized as `d:` lines) or raw SSE lines.
+ */
+
+import type { StreamTransport, TransportRequest, TransportStream } from "./types";
+
+/**
+ * Produces the frames for a request
+ */
+export type InMemoryFrameSource = (
+  request: TransportRequest,
+) => AsyncIterable<unknown> | Iterable<unknown>;
+
+function toLine(item: unknown): string {
+  return typeof item === "string" ? item : `d:${JSON.stringify(item)}`;
+}
+
+export function createInMemoryTransport(source: InMemoryFrameSource): StreamTransport {
+  return {
+    name: "in-memory",
+
+    async connect(request): Promise<TransportStream> {
+      if (request.signal.aborted) {
+        throw new DOMException("Aborted", "AbortError");
+      }
+      const frames = source(request);
+      let closed = false;
+
+      async function* lines(): AsyncGenerator<string, void, unknown> {
+        for await (const item of frames) {
+          if (closed) return;
+          if (request.signal.aborted) throw new DOMException("Aborted", "AbortError");
+          yield toLine(item);
+        }
+      }
+
+      return {
+        lines: lines(),
+        close() {
+          closed = true;
+        },
+      };
+    },
+  };
+}
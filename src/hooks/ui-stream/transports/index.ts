@@ -0,0 +1,36 @@
+/**
+ * Stream Transports
+ *
+ * Pluggable transports for useUIStream: fetch SSE (default), WebSocket
+ * and in-memory, plus cassette recording and replay.
+ */
+
+export type {
+  StreamTransport,
+  TransportRequest,
+  TransportStream,
+  StreamCassette,
+  CassetteFrame,
+} from "./types";
+export {
+  createFetchSSETransport,
+  readSSELines,
+  type FetchSSETransportOptions,
+} from "./fetch-sse";
+export {
+  createWebSocketTransport,
+  toWebSocketUrl,
+  type WebSocketTransportOptions,
+} from "./websocket";
+export { createInMemoryTransport, type InMemoryFrameSource } from "./in-memory";
+export {
+  createRecordingTransport,
+  type RecordingTransportOptions,
+} from "./recording";
+export {
+  createReplayTransport,
+  type ReplaySpeed,
+  type ReplayController,
+  type ReplayTransport,
+  type ReplayTransportOptions,
+} from "./replay";
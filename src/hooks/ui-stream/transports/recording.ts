@@ -0,0 +1,106 @@
+"use client";
+
+/**
+ * Recording Transport - captures stream sessions as cassettes
+ *
+ * Wraps any StreamTransport and records the request plus every raw line
+ * (with timing) into a serializable StreamCassette. Attach cassettes to
+ * bug reports and feed them to createReplayTransport to reproduce.
+ */
+
+import type {
+  CassetteFrame,
+  StreamCassette,
+  StreamTransport,
+  TransportStream,
+} from "./types";
+
+const DEFAULT_REDACTED_HEADERS = ["authorization", "cookie", "x-api-key"];
+
+export interface RecordingTransportOptions {
+  /** Called when a recorded stream ends (completed, failed or closed) */
+  onCassette: (cassette: StreamCassette) => void;
+  /** Header names (case-insensitive) to redact. Default: authorization, cookie, x-api-key */
+  redactHeaders?: string[];
+}
+
+function redact(
+  headers: Record<string, string>,
+  names: string[],
+): Record<string, string> {
+  const lowered = new Set(names.map((n) => n.toLowerCase()));
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    result[name] = lowered.has(name.toLowerCase()) ? "[redacted]" : value;
+  }
+  return result;
+}
+
+function serializeBody(body: string | FormData): unknown {
+  if (typeof body === "string") {
+    try {
+      return JSON.parse(body);
+    } catch {
+      return body;
+    }
+  }
+  const fields: Record<string, string> = {};
+  body.forEach((value, name) => {
+    fields[name] = typeof value === "string" ? value : `[File ${value.name}]`;
+  });
+  return { formData: fields };
+}
+
+export function createRecordingTransport(
+  inner: StreamTransport,
+  options: RecordingTransportOptions,
+): StreamTransport {
+  const redactHeaders = options.redactHeaders ?? DEFAULT_REDACTED_HEADERS;
+
+  return {
+    name: `recording(${inner.name})`,
+
+    async connect(request): Promise<TransportStream> {
+      const stream = await inner.connect(request);
+      const startedAt = Date.now();
+      const frames: CassetteFrame[] = [];
+      let emitted = false;
+
+      const emit = () => {
+        if (emitted) return;
+        emitted = true;
+        options.onCassette({
+          version: 1,
+          recordedAt: startedAt,
+          transport: inner.name,
+          request: {
+            api: request.api,
+            headers: redact(request.headers, redactHeaders),
+            body: serializeBody(request.body),
+          },
+          frames,
+          durationMs: Date.now() - startedAt,
+        });
+      };
+
+      async function* lines(): AsyncGenerator<string, void, unknown> {
+        try {
+          for await (const line of stream.lines) {
+            frames.push({ offsetMs: Date.now() - startedAt, line });
+            yield line;
+          }
+        } finally {
+          emit();
+        }
+      }
+
+      return {
+        lines: lines(),
+        close() {
+          stream.close();
+          emit();
+        },
+      };
+    },
+  };
+}
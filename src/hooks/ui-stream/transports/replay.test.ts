@@ -0,0 +1,133 @@
+import { describe, expect, it, vi } from "vitest";
+import { createWireFrame } from "@onegenui/core";
+import { replayCassetteToTree } from "../replay-cassette";
+import { createInMemoryTransport } from "./in-memory";
+import { createRecordingTransport } from "./recording";
+import { createReplayTransport } from "./replay";
+import type { StreamCassette, TransportRequest } from "./types";
+
+function makeRequest(signal = new AbortController().signal): TransportRequest {
+  return {
+    api: "/api/generate",
+    body: JSON.stringify({ prompt: "hello" }),
+    headers: { "Content-Type": "application/json", Authorization: "Bearer secret" },
+    signal,
+  };
+}
+
+async function collect(lines: AsyncIterable<string>): Promise<string[]> {
+  const result: string[] = [];
+  for await (const line of lines) result.push(line);
+  return result;
+}
+
+function cassetteOf(offsets: number[]): StreamCassette {
+  return {
+    version: 1,
+    recordedAt: 0,
+    transport: "fetch-sse",
+    request: { api: "/api/generate", headers: {}, body: {} },
+    frames: offsets.map((offsetMs, i) => ({ offsetMs, line: `d:${i}` })),
+    durationMs: offsets.at(-1) ?? 0,
+  };
+}
+
+describe("stream cassettes", () => {
+  it("records lines, request body and redacts auth headers", async () => {
+    const cassettes: StreamCassette[] = [];
+    const transport = createRecordingTransport(
+      createInMemoryTransport(() => [{ sequence: 0 }, "d:{\"sequence\":1}"]),
+      { onCassette: (c) => cassettes.push(c) },
+    );
+
+    const stream = await transport.connect(makeRequest());
+    const lines = await collect(stream.lines);
+
+    expect(lines).toEqual(['d:{"sequence":0}', 'd:{"sequence":1}']);
+    expect(cassettes).toHaveLength(1);
+    expect(cassettes[0]!.frames.map((f) => f.line)).toEqual(lines);
+    expect(cassettes[0]!.request.body).toEqual({ prompt: "hello" });
+    expect(cassettes[0]!.request.headers.Authorization).toBe("[redacted]");
+  });
+
+  it("replays a cassette step by step", async () => {
+    const replay = createReplayTransport(cassetteOf([0, 50]), { speed: "step" });
+    const stream = await replay.connect(makeRequest());
+    const iterator = stream.lines[Symbol.asyncIterator]();
+
+    const first = iterator.next();
+    replay.controller.step();
+    expect(await first).toEqual({ done: false, value: "d:0" });
+    expect(replay.controller.remaining).toBe(1);
+
+    replay.controller.step();
+    expect(await iterator.next()).toEqual({ done: false, value: "d:1" });
+    expect((await iterator.next()).done).toBe(true);
+  });
+
+  it("removes its abort listeners once each frame is released", async () => {
+    const signal = new AbortController().signal;
+    const add = vi.spyOn(signal, "addEventListener");
+    const remove = vi.spyOn(signal, "removeEventListener");
+
+    const timed = await createReplayTransport(cassetteOf([0, 5, 10]), { speed: 10 }).connect(makeRequest(signal));
+    expect(await collect(timed.lines)).toEqual(["d:0", "d:1", "d:2"]);
+
+    const replay = createReplayTransport(cassetteOf([0, 50]), { speed: "step" });
+    const stepped = (await replay.connect(makeRequest(signal))).lines[Symbol.asyncIterator]();
+    for (let i = 0; i < 2; i++) {
+      const next = stepped.next();
+      replay.controller.step();
+      await next;
+    }
+
+    expect(add).toHaveBeenCalledTimes(4);
+    expect(remove).toHaveBeenCalledTimes(4);
+  });
+
+  it("rejects a waiting frame when the request is aborted", async () => {
+    const controller = new AbortController();
+    const replay = createReplayTransport(cassetteOf([0]), { speed: "step" });
+    const stream = await replay.connect(makeRequest(controller.signal));
+
+    const next = stream.lines[Symbol.asyncIterator]().next();
+    controller.abort();
+
+    await expect(next).rejects.toMatchObject({ name: "AbortError" });
+  });
+
+  it("replays a recorded cassette to the same final tree", async () => {
+    const frame = (sequence: number, event: unknown) =>
+      createWireFrame({ correlationId: "corr", sequence, event } as never);
+    const cassettes: StreamCassette[] = [];
+    const transport = createRecordingTransport(
+      createInMemoryTransport(() => [
+        frame(0, { kind: "control", action: "start", data: { capabilities: [] } }),
+        frame(1, {
+          kind: "patch",
+          patches: [
+            { op: "set", path: "/root", value: "card" },
+            { op: "add", path: "/elements/card", value: { key: "card", type: "Card", props: { title: "Sales" }, children: ["total"] } },
+            { op: "add", path: "/elements/total", value: { key: "total", type: "Text", props: { text: "12" }, parentKey: "card" } },
+          ],
+        }),
+        frame(2, { kind: "patch", patches: [{ op: "set", path: "/elements/total/props/text", value: "42" }] }),
+        frame(3, { kind: "done" }),
+      ]),
+      { onCassette: (c) => cassettes.push(c) },
+    );
+    await collect((await transport.connect(makeRequest())).lines);
+
+    // Element metadata is stamped with the replay time
+    const now = vi.spyOn(Date, "now").mockReturnValue(1);
+    const { tree, events } = replayCassetteToTree(cassettes[0]!, { turnId: "turn-1" });
+    const again = replayCassetteToTree(cassettes[0]!, { turnId: "turn-1" });
+    now.mockRestore();
+
+    expect(events.filter((event) => event.type === "patch")).toHaveLength(2);
+    expect(tree.root).toBe("card");
+    expect(tree.elements.card).toMatchObject({ type: "Card", props: { title: "Sales" }, children: ["total"] });
+    expect(tree.elements.total).toMatchObject({ type: "Text", props: { text: "42" }, parentKey: "card" });
+    expect(again.tree).toEqual(tree);
+  });
+});
@@ -0,0 +1,123 @@
+"use client";
+
+/**
+ * Replay Transport - plays a StreamCassette back into useUIStream
+ *
+ * Lines go through the regular path (parseSSEFrame → event loop →
+ * PatchPipeline), so a replay renders exactly like the recorded session.
+ *
+ * Speed:
+ * - 1: original timing
+ * - >1: accelerated (e.g. 4 = four times faster)
+ * - Infinity: as fast as possible
+ * - "step": one frame per controller.step() call
+ */
+
+import type { StreamCassette, StreamTransport, TransportStream } from "./types";
+
+export type ReplaySpeed = number | "step";
+
+export interface ReplayController {
+  /** Release the next `count` frames (step mode only) */
+  step(count?: number): void;
+  /** Frames not yet delivered */
+  readonly remaining: number;
+}
+
+export interface ReplayTransport extends StreamTransport {
+  controller: ReplayController;
+}
+
+export interface ReplayTransportOptions {
+  /** Playback speed (default: 1) */
+  speed?: ReplaySpeed;
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export function createReplayTransport(
+  cassette: StreamCassette,
+  options: ReplayTransportOptions = {},
+): ReplayTransport {
+  const speed = options.speed ?? 1;
+  let remaining = cassette.frames.length;
+  let credits = 0;
+  let releaseStep: (() => void) | null = null;
+
+  const controller: ReplayController = {
+    step(count = 1) {
+      credits += count;
+      releaseStep?.();
+      releaseStep = null;
+    },
+    get remaining() {
+      return remaining;
+    },
+  };
+
+  const waitForStep = (signal: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+      if (credits > 0) {
+        resolve();
+        return;
+      }
+      const onAbort = () => {
+        releaseStep = null;
+        reject(new DOMException("Aborted", "AbortError"));
+      };
+      releaseStep = () => {
+        signal.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+
+  return {
+    name: "replay",
+    controller,
+
+    async connect(request): Promise<TransportStream> {
+      if (request.signal.aborted) {
+        throw new DOMException("Aborted", "AbortError");
+      }
+      remaining = cassette.frames.length;
+      let closed = false;
+
+      async function* lines(): AsyncGenerator<string, void, unknown> {
+        let previousOffset = 0;
+        for (const frame of cassette.frames) {
+          if (closed) return;
+          if (speed === "step") {
+            await waitForStep(request.signal);
+            credits--;
+          } else if (Number.isFinite(speed) && speed > 0) {
+            const gap = (frame.offsetMs - previousOffset) / speed;
+            if (gap > 0) await wait(gap, request.signal);
+          }
+          previousOffset = frame.offsetMs;
+          remaining--;
+          yield frame.line;
+        }
+      }
+
+      return {
+        lines: lines(),
+        close() {
+          closed = true;
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Transport types
+ *
+ * A transport moves wire protocol v3 frames from a backend (or a local
+ * source) to the stream event loop. Every transport exposes the same
+ * line-oriented stream, so parsing, dedup and dispatch stay shared.
+ */
+
+/**
+ * Request handed to a transport. Headers are already merged
+ * (request builder + getHeaders + resume headers).
+ */
+export interface TransportRequest {
+  /** Endpoint the request targets (URL for network transports) */
+  api: string;
+  /** Request body from buildRequest (JSON string or FormData) */
+  body: string | FormData;
+  /** Fully resolved request headers */
+  headers: Record<string, string>;
+  /** Aborts the request and closes the stream */
+  signal: AbortSignal;
+}
+
+/**
+ * An open stream of SSE-formatted lines (`d:{...}` / `data:{...}`).
+ */
+export interface TransportStream {
+  /** Raw protocol lines, one wire frame per line */
+  lines: AsyncIterable<string>;
+  /** Release the underlying connection (idempotent) */
+  close(): void;
+}
+
+/**
+ * Pluggable stream transport for useUIStream
+ */
+export interface StreamTransport {
+  /** Transport name, for logging */
+  readonly name: string;
+  /** Open a stream for the request. Rejects if the connection cannot be established. */
+  connect(request: TransportRequest): Promise<TransportStream>;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Stream Cassettes (record & replay)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * One recorded protocol line with its arrival time
+ */
+export interface CassetteFrame {
+  /** Milliseconds since the stream was opened */
+  offsetMs: number;
+  /** Raw SSE line as seen by readStreamWithTimeout */
+  line: string;
+}
+
+/**
+ * Serializable recording of one stream session
+ */
+export interface StreamCassette {
+  version: 1;
+  /** Epoch ms when the stream was opened */
+  recordedAt: number;
+  /** Transport that produced the recording */
+  transport: string;
+  request: {
+    api: string;
+    /** Request headers (sensitive values redacted) */
+    headers: Record<string, string>;
+    /** Parsed JSON body, or a field summary for FormData uploads */
+    body: unknown;
+  };
+  frames: CassetteFrame[];
+  /** Total stream duration in ms */
+  durationMs: number;
+}
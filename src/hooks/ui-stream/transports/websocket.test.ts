@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createWebSocketTransport, toWebSocketUrl } from "./websocket";
+import type { TransportRequest } from "./types";
+
+/** Socket driven by the test: open(), message(), error() and serverClose() */
+class FakeWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = FakeWebSocket.CONNECTING;
+  sent: string[] = [];
+  closeCode: number | null = null;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: ((event: { code: number; wasClean: boolean }) => void) | null = null;
+
+  constructor(
+    readonly url: string,
+    readonly protocols?: string | string[],
+  ) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  close(code: number) {
+    this.closeCode = code;
+    this.readyState = FakeWebSocket.CLOSED;
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  message(data: unknown) {
+    this.onmessage?.({ data });
+  }
+
+  error() {
+    this.onerror?.();
+  }
+
+  serverClose(code: number, wasClean: boolean) {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.({ code, wasClean });
+  }
+}
+
+function makeRequest(signal = new AbortController().signal): TransportRequest {
+  return {
+    api: "https://example.com/api/generate",
+    body: JSON.stringify({ prompt: "hello" }),
+    headers: { Authorization: "Bearer token" },
+    signal,
+  };
+}
+
+async function collect(lines: AsyncIterable<string>): Promise<string[]> {
+  const result: string[] = [];
+  for await (const line of lines) result.push(line);
+  return result;
+}
+
+/** Connect and open the socket */
+async function connect(request = makeRequest()) {
+  const pending = createWebSocketTransport({ protocols: "onegenui" }).connect(request);
+  const socket = FakeWebSocket.instances.at(-1)!;
+  socket.open();
+  return { stream: await pending, socket };
+}
+
+describe("createWebSocketTransport", () => {
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("sends the request with its JSON body and reads frames until a clean close", async () => {
+    const { stream, socket } = await connect();
+
+    expect(socket.url).toBe("wss://example.com/api/generate");
+    expect(socket.protocols).toBe("onegenui");
+    expect(socket.sent.map((data) => JSON.parse(data) as unknown)).toEqual([
+      { type: "request", headers: { Authorization: "Bearer token" }, body: { prompt: "hello" } },
+    ]);
+
+    socket.message('{"sequence":0}\nd:{"sequence":1}');
+    socket.message(new ArrayBuffer(4));
+    socket.message('data:{"sequence":2}\n');
+    socket.serverClose(1000, true);
+
+    expect(await collect(stream.lines)).toEqual([
+      'd:{"sequence":0}',
+      'd:{"sequence":1}',
+      'data:{"sequence":2}',
+    ]);
+  });
+
+  it("rejects request bodies that are not JSON strings", async () => {
+    const request = { ...makeRequest(), body: new FormData() };
+
+    await expect(createWebSocketTransport().connect(request)).rejects.toThrow("does not support file uploads");
+    expect(FakeWebSocket.instances).toHaveLength(0);
+  });
+
+  it("fails the stream when the socket closes unexpectedly", async () => {
+    const { stream, socket } = await connect();
+
+    socket.message('{"sequence":0}');
+    socket.serverClose(1006, false);
+
+    await expect(collect(stream.lines)).rejects.toThrow("WebSocket closed unexpectedly (1006)");
+  });
+
+  it("rejects the connection when the socket fails before opening", async () => {
+    const pending = createWebSocketTransport().connect(makeRequest());
+    const socket = FakeWebSocket.instances[0]!;
+
+    socket.error();
+    socket.serverClose(1006, false);
+
+    await expect(pending).rejects.toThrow("WebSocket stream error");
+  });
+
+  it("fails a waiting read on a socket error", async () => {
+    const { stream, socket } = await connect();
+    const next = stream.lines[Symbol.asyncIterator]().next();
+
+    socket.error();
+
+    await expect(next).rejects.toThrow("WebSocket stream error");
+  });
+
+  it("closes the socket when the request is aborted", async () => {
+    const beforeOpen = new AbortController();
+    const pending = createWebSocketTransport().connect(makeRequest(beforeOpen.signal));
+    beforeOpen.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: "AbortError" });
+    expect(FakeWebSocket.instances[0]?.closeCode).toBe(1000);
+
+    const whileStreaming = new AbortController();
+    const { stream, socket } = await connect(makeRequest(whileStreaming.signal));
+    const next = stream.lines[Symbol.asyncIterator]().next();
+    whileStreaming.abort();
+
+    await expect(next).rejects.toMatchObject({ name: "AbortError" });
+    expect(socket.closeCode).toBe(1000);
+  });
+});
+
+describe("toWebSocketUrl", () => {
+  it("maps http(s) endpoints to ws(s)", () => {
+    expect(toWebSocketUrl("http://localhost:3000/api")).toBe("ws://localhost:3000/api");
+    expect(toWebSocketUrl("wss://example.com/api")).toBe("wss://example.com/api");
+  });
+});
@@ -0,0 +1,154 @@
+"use client";
+
+/**
+ * WebSocket Transport - wire protocol v3 frames over a WebSocket
+ *
+ * Opens one socket per request. The request is sent as the first message:
+ *   { "type": "request", "headers": {...}, "body": <parsed JSON body> }
+ * Each incoming message carries one or more newline-separated frames,
+ * either bare JSON or SSE-prefixed (`d:` / `data:`).
+ * The stream ends when the server closes the socket.
+ */
+
+import type { StreamTransport, TransportStream } from "./types";
+
+export interface WebSocketTransportOptions {
+  /** Socket URL. Defaults to the `api` endpoint with http(s) mapped to ws(s). */
+  url?: string | ((api: string) => string);
+  /** WebSocket sub-protocols */
+  protocols?: string | string[];
+}
+
+/**
+ * Map an HTTP endpoint to its WebSocket equivalent
+ */
+export function toWebSocketUrl(api: string): string {
+  if (/^wss?:\/\//.test(api)) return api;
+  if (/^https?:\/\//.test(api)) return api.replace(/^http/, "ws");
+  if (typeof window === "undefined") return api;
+  const base = new URL(api, window.location.href);
+  base.protocol = base.protocol === "https:" ? "wss:" : "ws:";
+  return base.toString();
+}
+
+/**
+ * Normalize a message line to SSE form so parseSSEFrame can consume it
+ */
+function toSSELine(line: string): string {
+  return line.startsWith("d:") || line.startsWith("data:") ? line : `d:${line}`;
+}
+
+/**
+ * Push-to-pull bridge between socket callbacks and an async iterator
+ */
+function createLineQueue() {
+  const buffered: string[] = [];
+  let waiter: { resolve: (r: IteratorResult<string, void>) => void; reject: (e: Error) => void } | null = null;
+  let ended = false;
+  let failure: Error | null = null;
+
+  return {
+    push(line: string) {
+      if (ended) return;
+      if (waiter) {
+        waiter.resolve({ done: false, value: line });
+        waiter = null;
+      } else {
+        buffered.push(line);
+      }
+    },
+    end(error?: Error) {
+      if (ended) return;
+      ended = true;
+      failure = error ?? null;
+      if (!waiter) return;
+      if (failure) waiter.reject(failure);
+      else waiter.resolve({ done: true, value: undefined });
+      waiter = null;
+    },
+    iterate(): AsyncIterable<string> {
+      return {
+        [Symbol.asyncIterator]: () => ({
+          next: () => {
+            const line = buffered.shift();
+            if (line !== undefined) return Promise.resolve({ done: false, value: line });
+            if (ended) {
+              return failure ? Promise.reject(failure) : Promise.resolve({ done: true, value: undefined });
+            }
+            return new Promise<IteratorResult<string, void>>((resolve, reject) => {
+              waiter = { resolve, reject };
+            });
+          },
+        }),
+      };
+    },
+  };
+}
+
+export function createWebSocketTransport(
+  options: WebSocketTransportOptions = {},
+): StreamTransport {
+  return {
+    name: "websocket",
+
+    connect(request): Promise<TransportStream> {
+      if (typeof request.body !== "string") {
+        return Promise.reject(new Error("WebSocket transport does not support file uploads"));
+      }
+      const body = request.body;
+      const url = typeof options.url === "function"
+        ? options.url(request.api)
+        : options.url ?? toWebSocketUrl(request.api);
+
+      return new Promise((resolve, reject) => {
+        if (request.signal.aborted) {
+          reject(new DOMException("Aborted", "AbortError"));
+          return;
+        }
+
+        const socket = new WebSocket(url, options.protocols);
+        const queue = createLineQueue();
+        let opened = false;
+
+        const close = () => {
+          request.signal.removeEventListener("abort", onAbort);
+          if (socket.readyState === WebSocket.CONNECTING || socket.readyState === WebSocket.OPEN) {
+            socket.close(1000);
+          }
+        };
+        const onAbort = () => {
+          const abortError = new DOMException("Aborted", "AbortError");
+          queue.end(abortError);
+          if (!opened) reject(abortError);
+          close();
+        };
+        request.signal.addEventListener("abort", onAbort, { once: true });
+
+        socket.onopen = () => {
+          opened = true;
+          socket.send(JSON.stringify({ type: "request", headers: request.headers, body: JSON.parse(body) }));
+          resolve({ lines: queue.iterate(), close });
+        };
+        socket.onmessage = (message) => {
+          if (typeof message.data !== "string") return;
+          for (const line of message.data.split("\n")) {
+            if (line) queue.push(toSSELine(line));
+          }
+        };
+        socket.onerror = () => {
+          const error = new Error("WebSocket stream error");
+          if (!opened) reject(error);
+          queue.end(error);
+        };
+        socket.onclose = (event) => {
+          request.signal.removeEventListener("abort", onAbort);
+          if (!opened) {
+            reject(new Error(`WebSocket closed before opening (${event.code})`));
+            return;
+          }
+          queue.end(event.wasClean ? undefined : new Error(`WebSocket closed unexpectedly (${event.code})`));
+        };
+      });
+    },
+  };
+}
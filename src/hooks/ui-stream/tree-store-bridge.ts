@@ -14,7 +14,7 @@ import {
   applyPatchesBatch,
   type ApplyPatchOptions,
 } from "../patch-utils";
-import { useStore } from "../../store";
+import { useStore, type OneGenUIStore } from "../../store";
 
 export interface TreeStoreBridge {
   /** Read current tree directly from store (no ref, no copy) */
@@ -32,17 +32,19 @@ export interface TreeStoreBridge {
 /**
  * Create a TreeStoreBridge instance.
  *
- * Uses useStore.getState() for synchronous, consistent access.
+ * Uses store.getState() for synchronous, consistent access.
  * Safe to call from async callbacks — no stale closures.
+ *
+ * @param store  Store to bind to (default: the module-level store)
  */
-export function createTreeStoreBridge(): TreeStoreBridge {
+export function createTreeStoreBridge(store: OneGenUIStore = useStore): TreeStoreBridge {
   return {
     getTree() {
-      return useStore.getState().uiTree;
+      return store.getState().uiTree;
     },
 
     applyPatches(patches, options = {}) {
-      const state = useStore.getState();
+      const state = store.getState();
       const tree = state.uiTree;
       if (!tree || patches.length === 0) return tree;
 
@@ -53,18 +55,18 @@ export function createTreeStoreBridge(): TreeStoreBridge {
 
     setTree(tree) {
       if (tree) {
-        useStore.getState().setUITree(tree);
+        store.getState().setUITree(tree);
       } else {
-        useStore.getState().clearUITree();
+        store.getState().clearUITree();
       }
     },
 
     setStreaming(streaming) {
-      useStore.getState().setTreeStreaming(streaming);
+      store.getState().setTreeStreaming(streaming);
     },
 
     clear() {
-      useStore.getState().clearUITree();
+      store.getState().clearUITree();
     },
   };
 }
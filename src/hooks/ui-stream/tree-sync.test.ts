@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import type { UITree } from "@onegenui/core";
+import { buildRequest } from "./request-builder";
+import {
+  createTreeSync,
+  hashTree,
+  isBaseMismatchError,
+  TREE_DELTA_CAPABILITY,
+} from "./tree-sync";
+
+const base: UITree = {
+  root: "main",
+  elements: {
+    main: { key: "main", type: "Stack", props: { gap: "md" }, children: [] },
+  },
+};
+
+const edited: UITree = {
+  ...base,
+  elements: {
+    main: { ...base.elements.main!, props: { gap: "lg" } },
+  },
+};
+
+describe("tree-sync", () => {
+  it("sends the full tree until the backend advertises delta support", () => {
+    const sync = createTreeSync();
+    sync.acknowledge(base);
+    expect(sync.payloadFor(edited).mode).toBe("full");
+
+    sync.setCapabilities([TREE_DELTA_CAPABILITY]);
+    expect(sync.payloadFor(edited)).toEqual({
+      mode: "delta",
+      baseTreeHash: hashTree(base),
+      treeDelta: [{ op: "set", path: "/elements/main/props/gap", value: "lg" }],
+      componentStateDelta: {},
+    });
+
+    sync.reset();
+    expect(sync.payloadFor(edited).mode).toBe("full");
+  });
+
+  it("hashes trees independently of key order", () => {
+    const reordered: UITree = { elements: base.elements, root: base.root };
+    expect(hashTree(reordered)).toBe(hashTree(base));
+    expect(hashTree(edited)).not.toBe(hashTree(base));
+  });
+
+  it("leaves client-only element metadata out of the hash", () => {
+    const withMeta = {
+      ...base,
+      elements: {
+        main: { ...base.elements.main!, _meta: { createdAt: 1, streamingPhase: "finalized" } },
+      },
+    } as UITree;
+    expect(hashTree(withMeta)).toBe(hashTree(base));
+  });
+
+  it("puts delta fields in the request body and recognizes base mismatches", () => {
+    const sync = createTreeSync();
+    sync.setCapabilities([TREE_DELTA_CAPABILITY]);
+    sync.acknowledge(base, { main: { open: true } });
+
+    const { body, headers } = buildRequest({
+      prompt: "Widen the gap",
+      currentTree: edited,
+      conversation: [],
+      treePayload: sync.payloadFor(edited, {}),
+    });
+    const payload = JSON.parse(body as string) as Record<string, unknown>;
+
+    expect(headers["X-OneGenUI-Capabilities"]).toBe(TREE_DELTA_CAPABILITY);
+    expect(payload.currentTree).toBeUndefined();
+    expect(payload.baseTreeHash).toBe(hashTree(base));
+    expect(payload.componentStateDelta).toEqual({ main: null });
+    expect(isBaseMismatchError(new Error("[TREE_BASE_MISMATCH] unknown base"))).toBe(true);
+    expect(isBaseMismatchError(new Error("[STREAM_ERROR] boom"))).toBe(false);
+  });
+});
@@ -0,0 +1,152 @@
+"use client";
+
+/**
+ * Tree Sync - Delta requests against the last acknowledged server tree
+ *
+ * Protocol:
+ * - every request advertises `X-OneGenUI-Capabilities: tree-delta`
+ * - a backend that accepts deltas lists `tree-delta` in the `capabilities`
+ *   of its `start` control frame; until then full trees are sent
+ * - a turn that completes acknowledges its final tree as the shared base;
+ *   its hash leaves out element `_meta` (client-only timestamps and
+ *   streaming phases the backend never sees)
+ * - later requests send `baseTreeHash` + `treeDelta` (diffTrees output) and
+ *   `componentStateDelta` (changed entries, `null` for cleared ones)
+ * - a backend that does not hold the base answers with an error frame
+ *   coded `TREE_BASE_MISMATCH`; the base is dropped and the request is
+ *   resent with the full tree
+ */
+
+import type { JsonPatch, UITree } from "@onegenui/core";
+import { diffTrees } from "../tree-diff";
+
+export const TREE_DELTA_CAPABILITY = "tree-delta";
+export const TREE_BASE_MISMATCH_CODE = "TREE_BASE_MISMATCH";
+export const CAPABILITIES_HEADER = "X-OneGenUI-Capabilities";
+
+type ComponentState = Record<string, Record<string, unknown>>;
+
+/**
+ * Tree fields of a request body
+ */
+export type TreePayload =
+  | { mode: "full"; tree: UITree; componentState?: ComponentState }
+  | {
+      mode: "delta";
+      baseTreeHash: string;
+      treeDelta: JsonPatch[];
+      componentStateDelta: Record<string, Record<string, unknown> | null>;
+    };
+
+export interface TreeSync {
+  /** Tree fields for the next request */
+  payloadFor(tree: UITree, componentState?: ComponentState): TreePayload;
+  /** Record the capabilities advertised by the backend */
+  setCapabilities(capabilities: string[]): void;
+  /** Whether the backend accepts deltas */
+  supportsDelta(): boolean;
+  /** The backend now holds this state (turn completed) */
+  acknowledge(tree: UITree, componentState?: ComponentState): void;
+  /** Forget the base so the next request carries the full tree */
+  reset(): void;
+}
+
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value) ?? "null";
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  const record = value as Record<string, unknown>;
+  const entries = Object.keys(record)
+    .filter((key) => record[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`);
+  return `{${entries.join(",")}}`;
+}
+
+/** The tree as the backend holds it: elements without client-only `_meta` */
+function withoutClientMeta(tree: UITree): UITree {
+  const elements: UITree["elements"] = {};
+  for (const [key, element] of Object.entries(tree.elements)) {
+    const { _meta: _clientMeta, ...rest } = element;
+    elements[key] = rest as UITree["elements"][string];
+  }
+  return { ...tree, elements };
+}
+
+/**
+ * Hash of a tree as sent in `baseTreeHash`: FNV-1a (32-bit, hex) of the
+ * JSON serialization with element `_meta` left out, object keys sorted and
+ * undefined values dropped.
+ */
+export function hashTree(tree: UITree): string {
+  const input = stableStringify(withoutClientMeta(tree));
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Whether a stream error is the backend rejecting the delta base
+ */
+export function isBaseMismatchError(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    error.message.startsWith(`[${TREE_BASE_MISMATCH_CODE}]`)
+  );
+}
+
+function diffComponentState(
+  prev: ComponentState,
+  next: ComponentState,
+): Record<string, Record<string, unknown> | null> {
+  const delta: Record<string, Record<string, unknown> | null> = {};
+  for (const key of Object.keys(prev)) {
+    if (!(key in next)) delta[key] = null;
+  }
+  // Store entries are replaced immutably, so a reference check is enough
+  for (const [key, value] of Object.entries(next)) {
+    if (prev[key] !== value) delta[key] = value;
+  }
+  return delta;
+}
+
+export function createTreeSync(): TreeSync {
+  let capabilities = new Set<string>();
+  let base: { tree: UITree; hash?: string; componentState: ComponentState } | null = null;
+
+  return {
+    payloadFor(tree, componentState) {
+      if (!base || !capabilities.has(TREE_DELTA_CAPABILITY)) {
+        return { mode: "full", tree, componentState };
+      }
+      return {
+        mode: "delta",
+        baseTreeHash: (base.hash ??= hashTree(base.tree)),
+        treeDelta: diffTrees(base.tree, tree),
+        componentStateDelta: diffComponentState(base.componentState, componentState ?? {}),
+      };
+    },
+
+    setCapabilities(next) {
+      capabilities = new Set(next);
+    },
+
+    supportsDelta() {
+      return capabilities.has(TREE_DELTA_CAPABILITY);
+    },
+
+    acknowledge(tree, componentState) {
+      base = { tree, componentState: componentState ?? {} };
+    },
+
+    reset() {
+      base = null;
+    },
+  };
+}
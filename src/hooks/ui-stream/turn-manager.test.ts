@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import type { ConversationTurn } from "../types";
+import {
+  activateTurn,
+  createPendingTurn,
+  createQueuedTurn,
+  syncQueuedTurns,
+} from "./turn-manager";
+
+function completedTurn(id: string): ConversationTurn {
+  return {
+    id,
+    userMessage: id,
+    assistantMessages: [],
+    treeSnapshot: null,
+    timestamp: 1,
+    status: "complete",
+  };
+}
+
+describe("turn-manager queued turns", () => {
+  it("keeps queued turns after the turn that starts streaming", () => {
+    const queued = createQueuedTurn("later");
+    const turns = [completedTurn("turn-1"), queued];
+
+    const pending = createPendingTurn("now");
+    const updated = activateTurn(turns, pending);
+
+    expect(updated.map((t) => t.id)).toEqual(["turn-1", pending.id, queued.id]);
+    expect(updated[2]?.status).toBe("queued");
+  });
+
+  it("activates a dequeued turn in place", () => {
+    const first = createQueuedTurn("first");
+    const second = createQueuedTurn("second");
+    const updated = activateTurn([completedTurn("turn-1"), first, second], first);
+
+    expect(updated.map((t) => t.id)).toEqual(["turn-1", first.id, second.id]);
+    expect(updated[1]?.status).toBe("streaming");
+    expect(updated[1]?.isLoading).toBe(true);
+  });
+
+  it("rewrites queued turns in queue order", () => {
+    const a = createQueuedTurn("a");
+    const b = createQueuedTurn("b");
+    const updated = syncQueuedTurns([completedTurn("turn-1"), a, b], [b, a]);
+
+    expect(updated.map((t) => t.id)).toEqual(["turn-1", b.id, a.id]);
+  });
+});
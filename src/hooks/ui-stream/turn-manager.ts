@@ -4,9 +4,10 @@
  * Turn Manager - Handles conversation turn lifecycle
  *
  * Manages:
- * - Creating new turns
+ * - Creating new (or queued) turns
+ * - Keeping queued turns after the running ones
  * - Updating turn data during streaming
- * - Finalizing completed turns
+ * - Finalizing completed (or partial) turns
  * - Marking failed turns
  */
 
@@ -65,6 +66,49 @@ export function createPendingTurn(
   } as ConversationTurn;
 }
 
+/**
+ * Create a turn for a prompt waiting in the queue
+ */
+export function createQueuedTurn(
+  prompt: string,
+  options: {
+    isProactive?: boolean;
+    attachments?: Attachment[];
+  } = {},
+): ConversationTurn {
+  return { ...createPendingTurn(prompt, options), isLoading: false, status: "queued" };
+}
+
+/**
+ * Add a turn that starts streaming now. A turn with the same ID already in
+ * the conversation (queued, or the head of a new branch) is activated in
+ * place and keeps its fields; new turns go before any queued ones.
+ */
+export function activateTurn(
+  turns: ConversationTurn[],
+  turn: ConversationTurn,
+): ConversationTurn[] {
+  if (turns.some((t) => t.id === turn.id)) {
+    return turns.map((t) =>
+      t.id === turn.id ? { ...t, isLoading: true, status: "streaming" as const } : t,
+    );
+  }
+  const active = { ...turn, isLoading: true, status: "streaming" as const };
+  const queuedIndex = turns.findIndex((t) => t.status === "queued");
+  if (queuedIndex === -1) return [...turns, active];
+  return [...turns.slice(0, queuedIndex), active, ...turns.slice(queuedIndex)];
+}
+
+/**
+ * Replace the queued turns at the end of the conversation with `queued`
+ */
+export function syncQueuedTurns(
+  turns: ConversationTurn[],
+  queued: ConversationTurn[],
+): ConversationTurn[] {
+  return [...turns.filter((t) => t.status !== "queued"), ...queued];
+}
+
 /**
  * Update turn with streaming data
  */
@@ -103,6 +147,9 @@ export function finalizeTurn(
     suggestions: SuggestionChip[];
     treeSnapshot: UITree;
     documentIndex: DocumentIndex | null | undefined;
+    /** "partial" when the stream was cut off and could not be resumed */
+    status?: "complete" | "partial";
+    error?: string;
   },
 ): ConversationTurn[] {
   return turns.map((t) =>
@@ -114,8 +161,9 @@ export function finalizeTurn(
           suggestions: [...finalData.suggestions],
           treeSnapshot: JSON.parse(JSON.stringify(finalData.treeSnapshot)),
           documentIndex: finalData.documentIndex ?? t.documentIndex,
+          error: finalData.error ?? t.error,
           isLoading: false,
-          status: "complete",
+          status: finalData.status ?? "complete",
         } as ConversationTurn)
       : t,
   );
@@ -12,7 +12,7 @@
 
 import { useRef, useEffect, useCallback } from "react";
 import { useShallow } from "zustand/shallow";
-import { useStore } from "../../store";
+import { useStore, useOneGenUIStore } from "../../store";
 import type { DeepResearchEffortLevel, ResearchPhase } from "../../store/slices/deep-research";
 import type { ToolProgress } from "../types";
 
@@ -61,6 +61,7 @@ export interface UseDeepResearchTrackerReturn {
 }
 
 export function useDeepResearchTracker(): UseDeepResearchTrackerReturn {
+  const store = useOneGenUIStore();
   const { updateResearchProgress, updateResearchPhase, addResearchSource, completeResearch, failResearch } = useStore(
     useShallow((s) => ({
       updateResearchProgress: s.updateResearchProgress, updateResearchPhase: s.updateResearchPhase,
@@ -91,8 +92,8 @@ export function useDeepResearchTracker(): UseDeepResearchTrackerReturn {
     deepResearchToolCallIdRef.current = null;
     if (!context?.deepResearch || !deepResearchActiveRef.current) return;
     const effort = (context.deepResearch as { effort?: DeepResearchEffortLevel }).effort ?? "standard";
-    useStore.getState().setDeepResearchEffortLevel(effort);
-    useStore.getState().startResearch(prompt);
+    store.getState().setDeepResearchEffortLevel(effort);
+    store.getState().startResearch(prompt);
     updateProgressRef.current({
       effortLevel: effort, status: "searching", currentPhase: "Decomposing",
       phases: DEEP_RESEARCH_PHASES.map((phase, i) => ({
@@ -102,7 +103,7 @@ export function useDeepResearchTracker(): UseDeepResearchTrackerReturn {
         startTime: i === 0 ? Date.now() : undefined,
       })),
     });
-  }, []);
+  }, [store]);
 
   const handleDeepResearchToolProgress = useCallback((progress: ToolProgress) => {
     if (progress.toolName !== "deep-research") return;
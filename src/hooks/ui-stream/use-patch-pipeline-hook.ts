@@ -4,45 +4,92 @@
  * Patch Pipeline Hook - Creates and manages PatchPipeline instances
  *
  * Wraps createPatchPipeline with lifecycle management:
- * - create: resets previous pipeline, creates a new one bound to a turnId
- * - cleanup: resets and nullifies the current pipeline
+ * - create: resets the chat's previous pipeline, creates a new one bound to a turnId
+ * - cleanup: resets and drops every pipeline
+ *
+ * Pipelines are keyed by chat so concurrent chats stream independently.
+ * With a `worker`, every pipeline applies its patches in that worker.
+ * Pipelines share one visibility tracker so off-screen prop patches wait.
  */
 
-import { useRef, useCallback } from "react";
-import { createPatchPipeline, type PatchPipeline } from "./patch-pipeline";
+import { useRef, useCallback, useEffect, useMemo } from "react";
+import { createPatchPipeline, type PatchPipeline, type PatchPipelineMetrics } from "./patch-pipeline";
+import { createPatchWorkerClient } from "./patch-worker";
+import { createElementVisibilityTracker, type ElementVisibilityTracker } from "./element-visibility";
 import type { TreeStoreBridge } from "./tree-store-bridge";
 
+export interface CreatePipelineOptions {
+  turnId: string;
+  protectedTypes?: string[];
+  /** Chat the pipeline belongs to (default: "default") */
+  chatKey?: string;
+  /** Bridge to apply patches through (default: the hook's bridge) */
+  bridge?: TreeStoreBridge;
+}
+
+export interface PatchPipelineHookOptions {
+  /** Worker running startPatchWorker() */
+  worker?: Worker;
+  /** Main-thread time per frame (default DEFAULT_FRAME_BUDGET_MS) */
+  frameBudgetMs?: number;
+  /** Hold back prop patches for off-screen elements (default true) */
+  deferOffscreen?: boolean;
+  onMetrics?: (metrics: PatchPipelineMetrics) => void;
+}
+
 export interface UsePatchPipelineReturn {
-  create: (options: {
-    turnId: string;
-    protectedTypes?: string[];
-  }) => PatchPipeline;
+  create: (options: CreatePipelineOptions) => PatchPipeline;
   cleanup: () => void;
 }
 
 export function usePatchPipelineHook(
   bridge: TreeStoreBridge,
+  { worker, frameBudgetMs, deferOffscreen = true, onMetrics }: PatchPipelineHookOptions = {},
 ): UsePatchPipelineReturn {
-  const pipelineRef = useRef<PatchPipeline | null>(null);
+  const pipelinesRef = useRef<Map<string, PatchPipeline>>(new Map());
+  const workerClient = useMemo(() => (worker ? createPatchWorkerClient(worker) : undefined), [worker]);
+  useEffect(() => () => workerClient?.close(), [workerClient]);
+
+  const visibilityRef = useRef<ElementVisibilityTracker | null>(null);
+  useEffect(() => {
+    if (!deferOffscreen) return;
+    const tracker = createElementVisibilityTracker();
+    visibilityRef.current = tracker;
+    return () => {
+      tracker.disconnect();
+      visibilityRef.current = null;
+    };
+  }, [deferOffscreen]);
+
+  const onMetricsRef = useRef(onMetrics);
+  onMetricsRef.current = onMetrics;
 
   const create = useCallback(
-    (options: { turnId: string; protectedTypes?: string[] }) => {
-      pipelineRef.current?.reset();
-      const pipeline = createPatchPipeline(bridge, {
+    (options: CreatePipelineOptions) => {
+      const chatKey = options.chatKey ?? "default";
+      pipelinesRef.current.get(chatKey)?.reset();
+      const pipeline = createPatchPipeline(options.bridge ?? bridge, {
         patchOptions: {
           turnId: options.turnId,
           protectedTypes: options.protectedTypes ?? [],
+          trackStreaming: true,
         },
+        worker: workerClient,
+        frameBudgetMs,
+        isOffscreen: (elementKey) => visibilityRef.current?.isOffscreen(elementKey) ?? false,
+        onMetrics: (metrics) => onMetricsRef.current?.(metrics),
       });
-      pipelineRef.current = pipeline;
+      pipelinesRef.current.set(chatKey, pipeline);
       return pipeline;
     },
-    [bridge],
+    [bridge, workerClient, frameBudgetMs],
   );
 
   const cleanup = useCallback(() => {
-    pipelineRef.current?.reset();
-    pipelineRef.current = null;
+    for (const pipeline of pipelinesRef.current.values()) {
+      pipeline.reset();
+    }
+    pipelinesRef.current.clear();
   }, []);
 
   return { create, cleanup };
@@ -0,0 +1,91 @@
+"use client";
+
+/**
+ * Prompt Queue Hook - Holds prompts sent while their chat is streaming
+ *
+ * Entries are kept per chat in FIFO order. Each entry carries the
+ * "queued" ConversationTurn shown in the conversation until the entry is
+ * dequeued and streamed with the same turn ID.
+ */
+
+import { useState, useCallback, useRef } from "react";
+import type { ConversationTurn, QueuedPrompt } from "../types";
+
+export interface PromptQueueEntry extends QueuedPrompt {
+  /** Placeholder turn rendered in the conversation while queued */
+  turn: ConversationTurn;
+}
+
+export interface UsePromptQueueReturn {
+  entries: PromptQueueEntry[];
+  /** Entries of one chat, in run order */
+  forChat: (chatId: string) => PromptQueueEntry[];
+  add: (entry: PromptQueueEntry) => void;
+  /** Remove an entry by ID, returning it if it existed */
+  remove: (id: string) => PromptQueueEntry | undefined;
+  /** Move an entry to a new position within its chat's queue */
+  reorder: (id: string, toIndex: number) => PromptQueueEntry | undefined;
+  /** Take the next entry of a chat */
+  shift: (chatId: string) => PromptQueueEntry | undefined;
+  clear: (chatId: string) => void;
+}
+
+export function usePromptQueue(): UsePromptQueueReturn {
+  const [entries, setEntries] = useState<PromptQueueEntry[]>([]);
+  const entriesRef = useRef<PromptQueueEntry[]>([]);
+
+  const commit = useCallback((next: PromptQueueEntry[]) => {
+    entriesRef.current = next;
+    setEntries(next);
+  }, []);
+
+  const forChat = useCallback(
+    (chatId: string) => entriesRef.current.filter((e) => e.chatId === chatId),
+    [],
+  );
+
+  const add = useCallback(
+    (entry: PromptQueueEntry) => commit([...entriesRef.current, entry]),
+    [commit],
+  );
+
+  const remove = useCallback(
+    (id: string) => {
+      const entry = entriesRef.current.find((e) => e.id === id);
+      if (entry) commit(entriesRef.current.filter((e) => e !== entry));
+      return entry;
+    },
+    [commit],
+  );
+
+  const reorder = useCallback(
+    (id: string, toIndex: number) => {
+      const entry = entriesRef.current.find((e) => e.id === id);
+      if (!entry) return undefined;
+      const chatEntries = entriesRef.current.filter((e) => e.chatId === entry.chatId && e !== entry);
+      const index = Math.max(0, Math.min(toIndex, chatEntries.length));
+      chatEntries.splice(index, 0, entry);
+      // Other chats keep their entries; this chat's entries take the new order
+      const others = entriesRef.current.filter((e) => e.chatId !== entry.chatId);
+      commit([...others, ...chatEntries]);
+      return entry;
+    },
+    [commit],
+  );
+
+  const shift = useCallback(
+    (chatId: string) => {
+      const entry = entriesRef.current.find((e) => e.chatId === chatId);
+      if (entry) commit(entriesRef.current.filter((e) => e !== entry));
+      return entry;
+    },
+    [commit],
+  );
+
+  const clear = useCallback(
+    (chatId: string) => commit(entriesRef.current.filter((e) => e.chatId !== chatId)),
+    [commit],
+  );
+
+  return { entries, forChat, add, remove, reorder, shift, clear };
+}
@@ -1,15 +1,16 @@
 "use client";
 
 /**
- * Stream Connection Hook - Manages HTTP connection lifecycle + reconnection
+ * Stream Connection Hook - Manages transport connection lifecycle + reconnection
  *
  * Owns:
  * - AbortController map (keyed by chatId)
- * - Reconnection manager (exponential backoff, resume-from-sequence)
- * - setupAbort: cancels previous requests, creates fresh controller
- * - connect: performs fetch with merged headers, returns reader
+ * - Reconnection managers per chat (exponential backoff, resume-from-sequence)
+ * - setupAbort: cancels the chat's previous request, creates fresh controller
+ * - connect: opens the transport with merged headers, returns its line stream
  * - connectWithRetry: connect with automatic reconnection on failure
- * - abort / clearControllers for cleanup
+ * - resume: reconnect after a mid-stream drop (backoff + X-Resume-After-Sequence)
+ * - abort / releaseController / clearControllers for cleanup
  */
 
 import { useRef, useCallback, useMemo } from "react";
@@ -17,44 +18,47 @@ import {
   createReconnectionManager,
   type ReconnectionManager,
 } from "./reconnection-manager";
+import { createFetchSSETransport } from "./transports/fetch-sse";
+import type { StreamTransport, TransportStream } from "./transports/types";
 import { streamLog } from "./logger";
 
 export interface UseStreamConnectionReturn {
-  setupAbort: (chatId?: string) => { signal: AbortSignal; abortKey: string };
-  connect: (params: ConnectParams) => Promise<ReadableStreamDefaultReader<Uint8Array>>;
-  connectWithRetry: (params: ConnectParams) => Promise<ReadableStreamDefaultReader<Uint8Array>>;
-  abort: () => void;
+  setupAbort: (chatId?: string) => { signal: AbortSignal; abortKey: string; reconnection: ReconnectionManager };
+  connect: (params: ConnectParams) => Promise<TransportStream>;
+  connectWithRetry: (params: ConnectParams) => Promise<TransportStream>;
+  resume: (params: ConnectParams) => Promise<TransportStream>;
+  /** Abort one chat's request, or every request when no key is given */
+  abort: (abortKey?: string) => void;
+  /** Forget a finished chat's controller without aborting it */
+  releaseController: (abortKey: string) => void;
   clearControllers: () => void;
   reconnection: ReconnectionManager;
 }
 
-interface ConnectParams {
+export interface ConnectParams {
   api: string;
   body: string | FormData;
   headers: Record<string, string>;
   signal: AbortSignal;
   getHeaders?: () => Record<string, string> | Promise<Record<string, string>>;
+  /** Per-stream reconnection state (defaults to the hook-level manager) */
+  reconnection?: ReconnectionManager;
 }
 
-async function performFetch(params: ConnectParams, extraHeaders: Record<string, string> = {}): Promise<ReadableStreamDefaultReader<Uint8Array>> {
+async function openTransport(
+  transport: StreamTransport,
+  params: ConnectParams,
+  extraHeaders: Record<string, string> = {},
+): Promise<TransportStream> {
   const dynamicHeaders = params.getHeaders ? await params.getHeaders() : {};
   const mergedHeaders = { ...params.headers, ...dynamicHeaders, ...extraHeaders };
 
-  const response = await fetch(params.api, {
-    method: "POST",
-    headers: mergedHeaders,
+  return transport.connect({
+    api: params.api,
     body: params.body,
+    headers: mergedHeaders,
     signal: params.signal,
   });
-
-  if (!response.ok) {
-    const errorText = await response.text().catch(() => "Unknown error");
-    throw new Error(`Stream request failed (${response.status}): ${errorText}`);
-  }
-  if (!response.body) {
-    throw new Error("Response body is null — streaming not supported");
-  }
-  return response.body.getReader();
 }
 
 function delay(ms: number, signal?: AbortSignal): Promise<void> {
@@ -67,42 +71,44 @@ function delay(ms: number, signal?: AbortSignal): Promise<void> {
   });
 }
 
-export function useStreamConnection(): UseStreamConnectionReturn {
+const defaultTransport = createFetchSSETransport();
+
+export function useStreamConnection(
+  transport: StreamTransport = defaultTransport,
+): UseStreamConnectionReturn {
   const controllersRef = useRef<Map<string, AbortController>>(new Map());
   const reconnection = useMemo(() => createReconnectionManager(), []);
 
   const setupAbort = useCallback((chatId?: string) => {
-    for (const controller of controllersRef.current.values()) {
-      controller.abort();
-    }
-    controllersRef.current.clear();
-    reconnection.reset();
-    const controller = new AbortController();
     const abortKey = chatId ?? "default";
+    controllersRef.current.get(abortKey)?.abort();
+    const controller = new AbortController();
     controllersRef.current.set(abortKey, controller);
-    return { signal: controller.signal, abortKey };
-  }, [reconnection]);
+    return { signal: controller.signal, abortKey, reconnection: createReconnectionManager() };
+  }, []);
 
   const connect = useCallback(
-    (params: ConnectParams) => performFetch(params),
-    [],
+    (params: ConnectParams) => openTransport(transport, params),
+    [transport],
   );
 
   const connectWithRetry = useCallback(
-    async (params: ConnectParams): Promise<ReadableStreamDefaultReader<Uint8Array>> => {
+    async (params: ConnectParams): Promise<TransportStream> => {
+      const manager = params.reconnection ?? reconnection;
       try {
-        const resumeHeaders = reconnection.getResumeHeaders();
-        return await performFetch(params, resumeHeaders);
+        const resumeHeaders = manager.getResumeHeaders();
+        return await openTransport(transport, params, resumeHeaders);
       } catch (err) {
         if ((err as Error).name === "AbortError") throw err;
-        if (!reconnection.shouldRetry()) throw err;
+        if (!manager.shouldRetry()) throw err;
 
-        const retryDelay = reconnection.getRetryDelay();
-        const state = reconnection.getState();
+        const retryDelay = manager.getRetryDelay();
+        const state = manager.getState();
         streamLog.warn("Stream connection failed, retrying", {
           attempt: state.retryCount,
           delayMs: retryDelay,
           lastSequence: state.lastSequence,
+          transport: transport.name,
           error: (err as Error).message,
         });
 
@@ -110,19 +116,46 @@ export function useStreamConnection(): UseStreamConnectionReturn {
         return connectWithRetry(params);
       }
     },
-    [reconnection],
+    [reconnection, transport],
   );
 
-  const abort = useCallback(() => {
+  const resume = useCallback(
+    async (params: ConnectParams): Promise<TransportStream> => {
+      const manager = params.reconnection ?? reconnection;
+      if (!manager.shouldRetry()) {
+        throw new Error("Stream interrupted: reconnection attempts exhausted");
+      }
+      const retryDelay = manager.getRetryDelay();
+      streamLog.warn("Stream interrupted, resuming", {
+        attempt: manager.getState().retryCount,
+        delayMs: retryDelay,
+        resumeAfterSequence: manager.getLastSequence(),
+      });
+      await delay(retryDelay, params.signal);
+      return connectWithRetry(params);
+    },
+    [reconnection, connectWithRetry],
+  );
+
+  const abort = useCallback((abortKey?: string) => {
+    if (abortKey !== undefined) {
+      controllersRef.current.get(abortKey)?.abort();
+      controllersRef.current.delete(abortKey);
+      return;
+    }
     for (const controller of controllersRef.current.values()) {
       controller.abort();
     }
     controllersRef.current.clear();
   }, []);
 
+  const releaseController = useCallback((abortKey: string) => {
+    controllersRef.current.delete(abortKey);
+  }, []);
+
   const clearControllers = useCallback(() => {
     controllersRef.current.clear();
   }, []);
 
-  return { setupAbort, connect, connectWithRetry, abort, clearControllers, reconnection };
+  return { setupAbort, connect, connectWithRetry, resume, abort, releaseController, clearControllers, reconnection };
 }
@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { renderHook } from "@testing-library/react";
+import { createWireFrame } from "@onegenui/core";
+import type { ConversationTurn } from "../types";
+import { useStreamEventLoop, type ProcessStreamParams } from "./use-stream-event-loop";
+
+const toLine = (payload: unknown) => `d:${JSON.stringify(payload)}`;
+
+const delta = (sequence: number, text: string) =>
+  toLine({ sequence, event: { kind: "text-delta", messageId: "msg-1", delta: text } });
+
+const wireLine = (sequence: number, event: unknown) =>
+  toLine(createWireFrame({ correlationId: "corr", sequence, event } as never));
+
+/** Runs processStream over `lines` with animation frames held until released */
+function setup(lines: string[]) {
+  const frames = new Map<number, FrameRequestCallback>();
+  let nextFrame = 0;
+  vi.stubGlobal("requestAnimationFrame", (callback: FrameRequestCallback) => {
+    frames.set(++nextFrame, callback);
+    return nextFrame;
+  });
+  vi.stubGlobal("cancelAnimationFrame", (id: number) => frames.delete(id));
+
+  let conversation = [{ id: "turn-1", assistantMessages: [] } as unknown as ConversationTurn];
+  const commits: string[] = [];
+  const setConversation: ProcessStreamParams["setConversation"] = (update) => {
+    conversation = typeof update === "function" ? update(conversation) : update;
+    const content = conversation[0]?.assistantMessages[0]?.content;
+    if (content !== undefined) commits.push(content);
+  };
+
+  async function* stream() {
+    yield* lines;
+  }
+
+  const { result } = renderHook(() => useStreamEventLoop());
+  const run = () =>
+    result.current.processStream({
+      stream: { lines: stream(), close: () => {} },
+      turnId: "turn-1",
+      setConversation,
+      handlers: {
+        onPatch: () => {},
+        onToolProgress: () => {},
+        onPlanEvent: () => {},
+        onDocumentIndex: () => null,
+        onCitations: () => {},
+      },
+    });
+
+  const runFrames = () => {
+    const due = [...frames.values()];
+    frames.clear();
+    for (const callback of due) callback(0);
+  };
+
+  return { run, runFrames, commits, pendingFrames: () => frames.size };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("useStreamEventLoop text deltas", () => {
+  it("accumulates deltas into one message and commits them once", async () => {
+    const { run, commits } = setup([
+      delta(0, "Hel"),
+      delta(1, "lo"),
+      delta(2, " world"),
+      wireLine(3, { kind: "done" }),
+    ]);
+
+    const result = await run();
+
+    expect(result.messages).toMatchObject([{ id: "msg-1", role: "assistant", content: "Hello world" }]);
+    expect(commits).toEqual(["Hello world"]);
+  });
+
+  it("drops the pending delta commit when the stream fails", async () => {
+    const { run, runFrames, commits, pendingFrames } = setup([
+      delta(0, "Hel"),
+      wireLine(1, { kind: "error", code: "UPSTREAM", message: "model crashed", recoverable: false }),
+    ]);
+
+    await expect(run()).rejects.toThrow("[UPSTREAM] model crashed");
+
+    expect(pendingFrames()).toBe(0);
+    runFrames();
+    expect(commits).toEqual([]);
+  });
+});
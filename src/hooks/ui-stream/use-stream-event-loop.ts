@@ -6,6 +6,17 @@
  * Extracts the for-await event dispatch loop from useUIStream.
  * Manages mutable accumulators (messages, questions, suggestions, etc.)
  * and delegates side-effects to caller-provided handlers.
+ *
+ * Message text, `message-part` frames, tool progress and citations are
+ * merged into ordered ChatMessage parts (see ./message-parts). `text-delta`
+ * frames are appended to their message immediately, while the conversation
+ * update they trigger is batched to one per animation frame.
+ *
+ * When a `reconnect` callback is provided, transport failures, idle
+ * timeouts and streams that close before the `done` frame are resumed on a
+ * fresh stream. Frame sequences are recorded on the ReconnectionManager so
+ * replayed frames are dropped; once retries are exhausted the result is
+ * returned as partial.
  */
 
 import { useCallback } from "react";
@@ -14,8 +25,19 @@ import type {
   ChatMessage, QuestionPayload, SuggestionChip,
   ToolProgress, PersistedAttachment, ConversationTurn,
 } from "../types";
-import { readStreamWithTimeout } from "./stream-reader";
+import { isIdleTimeoutError, readStreamWithTimeout } from "./stream-reader";
+import { createFrameScheduler } from "./frame-scheduler";
+import type { ParsedFrame, StreamEvent } from "./stream-parser";
+import type { FrameParserOptions } from "./protocol-version";
+import type { TransportStream } from "./transports/types";
+import type { ReconnectionManager } from "./reconnection-manager";
 import { streamLog } from "./logger";
+import {
+  applyMessageEvent,
+  applyMessagePart,
+  citationsToParts,
+  toolProgressToPart,
+} from "./message-parts";
 
 export interface EventLoopHandlers {
   onPatch: (patches: JsonPatch[], atomic?: boolean) => void;
@@ -23,13 +45,23 @@ export interface EventLoopHandlers {
   onPlanEvent: (event: Record<string, unknown>) => void;
   onDocumentIndex: (uiComponent: { type: string; props: DocumentIndex }, current: DocumentIndex | undefined) => DocumentIndex | null;
   onCitations: (citations: unknown[]) => void;
+  /** Capabilities the backend advertised in its start frame */
+  onStreamStart?: (capabilities: string[]) => void;
 }
 
 export interface ProcessStreamParams {
-  reader: ReadableStreamDefaultReader<Uint8Array>;
+  stream: TransportStream;
   turnId: string;
   setConversation: React.Dispatch<React.SetStateAction<ConversationTurn[]>>;
   handlers: EventLoopHandlers;
+  /** Tracks processed frame sequences for duplicate detection and resume */
+  reconnection?: ReconnectionManager;
+  /** Open a new stream resuming after the last processed sequence. Rejects when retries are exhausted. */
+  reconnect?: (error: Error) => Promise<TransportStream>;
+  /** Accepted versions and validation policy; diagnostics are tagged with turnId */
+  protocol?: FrameParserOptions;
+  /** Resume the stream after this long without a line (default: DEFAULT_IDLE_TIMEOUT_MS) */
+  idleTimeoutMs?: number;
 }
 
 export interface EventLoopResult {
@@ -40,6 +72,10 @@ export interface EventLoopResult {
   documentIndex: DocumentIndex | undefined;
   patchCount: number;
   messageCount: number;
+  /** True when the stream was cut off and could not be resumed */
+  partial: boolean;
+  /** Why the stream ended early (set when partial) */
+  interruption?: Error;
 }
 
 const PLAN_EVENT_TYPES = new Set([
@@ -47,32 +83,19 @@ const PLAN_EVENT_TYPES = new Set([
   "subtask-done", "level-started", "level-completed", "orchestration-done",
 ]);
 
+// Failures on these end the turn; "error" frames always do
 const CRITICAL_EVENT_TYPES = new Set([
-  "message", "patch", "question", "suggestion", "persisted-attachments",
+  "error", "message", "message-part", "text-delta", "patch", "question", "suggestion", "persisted-attachments",
 ]);
 
-function applyMessageEvent(messages: ChatMessage[], message: ChatMessage): void {
-  const mode = message.mode ?? "final";
-  const messageId = message.id;
-  if (!messageId || mode === "final") {
-    messages.push({ ...message, mode: "final" });
-    return;
-  }
-  const existingIndex = messages.findIndex((item) => item.id === messageId);
-  if (existingIndex === -1) {
-    messages.push({ ...message, mode: "final" });
-    return;
-  }
-  const existing = messages[existingIndex];
-  if (!existing) return;
-  const nextContent = mode === "append" ? `${existing.content}${message.content}` : message.content;
-  messages[existingIndex] = { ...existing, ...message, mode: "final", content: nextContent };
+function isAbortError(err: unknown): boolean {
+  return (err as Error)?.name === "AbortError";
 }
 
 export function useStreamEventLoop() {
   const processStream = useCallback(
     async (params: ProcessStreamParams): Promise<EventLoopResult> => {
-      const { reader, turnId, setConversation, handlers } = params;
+      const { turnId, setConversation, handlers, reconnection, reconnect, protocol, idleTimeoutMs } = params;
       const msgs: ChatMessage[] = [];
       const questions: QuestionPayload[] = [];
       const suggestions: SuggestionChip[] = [];
@@ -81,8 +104,11 @@ export function useStreamEventLoop() {
       let docIndex: DocumentIndex | undefined;
       let patchCount = 0;
       let messageCount = 0;
+      let duplicateCount = 0;
+      let receivedDone = false;
+      let sawSequencedFrame = false;
 
-      const updateTurnData = () => {
+      const commitTurnData = () => {
         setConversation((prev) =>
           prev.map((t) =>
             t.id === turnId
@@ -99,15 +125,40 @@ export function useStreamEventLoop() {
           ),
         );
       };
+      // Text deltas commit once per frame; any other update commits them too
+      const deltaUpdates = createFrameScheduler(commitTurnData);
+      const updateTurnData = () => {
+        deltaUpdates.cancel();
+        commitTurnData();
+      };
 
-      setConversation((prev) =>
-        prev.map((t) => (t.id === turnId ? { ...t, status: "streaming" as const } : t)),
-      );
-      streamLog.debug("Starting stream processing");
+      const parseOptions: FrameParserOptions | undefined = protocol && {
+        versions: protocol.versions,
+        policy: protocol.policy,
+        onDiagnostic: protocol.onDiagnostic
+          && ((diagnostic) => protocol.onDiagnostic?.({ ...diagnostic, turnId })),
+      };
+
+      const setTurnStatus = (status: "streaming" | "reconnecting") => {
+        setConversation((prev) =>
+          prev.map((t) => (t.id === turnId ? { ...t, status } : t)),
+        );
+      };
+
+      const handleEvent = (event: StreamEvent) => {
+        if (event.type === "batch") {
+          for (const inner of event.events) handleEvent(inner);
+          return;
+        }
 
-      for await (const event of readStreamWithTimeout(reader)) {
         try {
-          if (event.type === "done" || event.type === "text-delta") continue;
+          if (event.type === "done") { receivedDone = true; return; }
+          if (event.type === "text-delta") {
+            applyMessageEvent(msgs, { id: event.messageId, mode: "append", role: event.role, content: event.delta });
+            deltaUpdates.schedule();
+            return;
+          }
+          if (event.type === "streaming-started") { handlers.onStreamStart?.(event.capabilities); return; }
           if (event.type === "error") throw new Error(`[${event.error.code}] ${event.error.message}`);
 
           if (event.type === "message") {
@@ -115,12 +166,17 @@ export function useStreamEventLoop() {
             streamLog.debug("Message received", { messageCount, contentLength: event.message.content?.length ?? 0 });
             applyMessageEvent(msgs, event.message);
             updateTurnData();
+          } else if (event.type === "message-part") {
+            applyMessagePart(msgs, event.part, { messageId: event.messageId, mode: event.mode });
+            updateTurnData();
           } else if (event.type === "question") {
             questions.push(event.question); updateTurnData();
           } else if (event.type === "suggestion") {
             suggestions.push(...event.suggestions); updateTurnData();
           } else if (event.type === "tool-progress") {
-            toolProgress.push(event.progress); updateTurnData();
+            toolProgress.push(event.progress);
+            applyMessagePart(msgs, toolProgressToPart(event.progress));
+            updateTurnData();
             handlers.onToolProgress(event.progress);
           } else if (event.type === "patch") {
             patchCount += event.patches.length;
@@ -134,6 +190,9 @@ export function useStreamEventLoop() {
             const updated = handlers.onDocumentIndex(ui, docIndex);
             if (updated) { docIndex = updated; updateTurnData(); }
           } else if (event.type === "citations" && Array.isArray(event.citations)) {
+            const sources = citationsToParts(event.citations);
+            for (const part of sources) applyMessagePart(msgs, part);
+            if (sources.length > 0) updateTurnData();
             handlers.onCitations(event.citations);
           }
         } catch (e) {
@@ -142,9 +201,89 @@ export function useStreamEventLoop() {
             error: e instanceof Error ? e.message : String(e), eventType: event.type,
           });
         }
+      };
+
+      const handleFrame = ({ event, sequence }: ParsedFrame) => {
+        if (sequence !== undefined && reconnection?.isDuplicate(sequence)) {
+          duplicateCount++;
+          return;
+        }
+
+        try {
+          handleEvent(event);
+        } finally {
+          if (sequence !== undefined) {
+            sawSequencedFrame = true;
+            reconnection?.recordSequence(sequence);
+          }
+        }
+      };
+
+      setTurnStatus("streaming");
+      streamLog.debug("Starting stream processing");
+
+      let stream = params.stream;
+      let partial = false;
+      let interruption: Error | undefined;
+
+      try {
+        while (true) {
+          let transportError: Error | null = null;
+          const frames = readStreamWithTimeout(stream.lines, { ...parseOptions, idleTimeoutMs });
+          try {
+            while (true) {
+              let next: IteratorResult<ParsedFrame, void>;
+              try {
+                next = await frames.next();
+              } catch (err) {
+                if (isAbortError(err)) throw err;
+                transportError = err instanceof Error ? err : new Error(String(err));
+                break;
+              }
+              if (next.done) break;
+              handleFrame(next.value);
+            }
+          } finally {
+            stream.close();
+          }
+
+          // A v3 stream that closes without a done frame was cut off upstream
+          if (!transportError && !receivedDone && sawSequencedFrame) {
+            transportError = new Error("Stream closed before completion");
+          }
+          if (!transportError) break;
+          if (!reconnect) throw transportError;
+          if (isIdleTimeoutError(transportError)) {
+            streamLog.warn("Stream idle, resuming", { idleTimeoutMs, lastSequence: reconnection?.getLastSequence() });
+          }
+
+          setTurnStatus("reconnecting");
+          try {
+            stream = await reconnect(transportError);
+          } catch (err) {
+            if (isAbortError(err)) throw err;
+            streamLog.error("Stream could not be resumed", {
+              error: (err as Error).message, lastSequence: reconnection?.getLastSequence(),
+            });
+            partial = true;
+            interruption = transportError;
+            break;
+          }
+          setTurnStatus("streaming");
+          streamLog.info("Stream resumed", { lastSequence: reconnection?.getLastSequence() });
+        }
+      } catch (err) {
+        // A failed or aborted turn must not commit deltas after it ends
+        deltaUpdates.cancel();
+        throw err;
+      }
+      deltaUpdates.flush();
+
+      if (duplicateCount > 0) {
+        streamLog.debug("Dropped duplicate frames", { duplicateCount });
       }
 
-      return { messages: msgs, questions, suggestions, persistedAttachments: attachments, documentIndex: docIndex, patchCount, messageCount };
+      return { messages: msgs, questions, suggestions, persistedAttachments: attachments, documentIndex: docIndex, patchCount, messageCount, partial, interruption };
     },
     [],
   );
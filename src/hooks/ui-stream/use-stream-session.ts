@@ -4,25 +4,33 @@
  * Stream Session Hook - Manages conversation state and streaming lifecycle
  *
  * Owns:
- * - conversation + conversationRef (kept in sync via useEffect)
- * - isStreaming / error flags
- * - sendingRef guard against concurrent sends
+ * - conversation + conversationRef (the ref is updated on every change)
+ * - per-chat stream registry (one live ChatStreamSession per chat)
+ * - isStreaming (foreground chat) / streamingChatKeys (all chats) / error
  * - clear() that resets everything including TreeStoreBridge
  */
 
-import { useState, useCallback, useRef, useEffect } from "react";
+import { useState, useCallback, useRef } from "react";
 import type { ConversationTurn } from "../types";
 import type { TreeStoreBridge } from "./tree-store-bridge";
-import { useStore } from "../../store";
+import type { ChatStreamSession } from "./chat-session";
+import { useOneGenUIStore } from "../../store";
 
 export interface UseStreamSessionReturn {
   conversation: ConversationTurn[];
+  /** Whether the foreground chat is streaming */
   isStreaming: boolean;
+  /** Keys of every chat with a live stream */
+  streamingChatKeys: string[];
   error: Error | null;
   conversationRef: React.MutableRefObject<ConversationTurn[]>;
-  sendingRef: React.MutableRefObject<boolean>;
+  /** Live streams keyed by chat */
+  streamsRef: React.MutableRefObject<Map<string, ChatStreamSession>>;
+  /** Register a live stream. Returns false if the chat is already streaming. */
+  beginStream: (chat: ChatStreamSession) => boolean;
+  /** Unregister a chat's live stream (no-op if another stream replaced it) */
+  endStream: (chat: ChatStreamSession) => void;
   setConversation: React.Dispatch<React.SetStateAction<ConversationTurn[]>>;
-  setIsStreaming: React.Dispatch<React.SetStateAction<boolean>>;
   setError: React.Dispatch<React.SetStateAction<Error | null>>;
   clear: () => void;
 }
@@ -30,34 +38,57 @@ export interface UseStreamSessionReturn {
 export function useStreamSession(
   bridge: TreeStoreBridge,
   resetPlanExecution: () => void,
+  isForeground: (chatKey: string) => boolean,
 ): UseStreamSessionReturn {
-  const [conversation, setConversation] = useState<ConversationTurn[]>([]);
+  const [conversation, setConversationState] = useState<ConversationTurn[]>([]);
   const conversationRef = useRef<ConversationTurn[]>([]);
-  const [isStreaming, setIsStreaming] = useState(false);
+  const [streamingChatKeys, setStreamingChatKeys] = useState<string[]>([]);
   const [error, setError] = useState<Error | null>(null);
-  const sendingRef = useRef(false);
+  const streamsRef = useRef<Map<string, ChatStreamSession>>(new Map());
+  const store = useOneGenUIStore();
 
-  useEffect(() => {
-    conversationRef.current = conversation;
-  }, [conversation]);
+  // Updaters run once against the latest turns, so stream updates made before
+  // the next render build on each other
+  const setConversation = useCallback<React.Dispatch<React.SetStateAction<ConversationTurn[]>>>(
+    (action) => {
+      const next = typeof action === "function" ? action(conversationRef.current) : action;
+      conversationRef.current = next;
+      setConversationState(next);
+    },
+    [],
+  );
+
+  const beginStream = useCallback((chat: ChatStreamSession) => {
+    if (streamsRef.current.has(chat.chatKey)) return false;
+    streamsRef.current.set(chat.chatKey, chat);
+    setStreamingChatKeys(Array.from(streamsRef.current.keys()));
+    return true;
+  }, []);
+
+  const endStream = useCallback((chat: ChatStreamSession) => {
+    if (streamsRef.current.get(chat.chatKey) !== chat) return;
+    streamsRef.current.delete(chat.chatKey);
+    setStreamingChatKeys(Array.from(streamsRef.current.keys()));
+  }, []);
 
   const clear = useCallback(() => {
     bridge.clear();
-    useStore.getState().clearAllComponentState();
+    store.getState().clearAllComponentState();
     setConversation([]);
-    conversationRef.current = [];
     setError(null);
     resetPlanExecution();
-  }, [bridge, resetPlanExecution]);
+  }, [bridge, store, setConversation, resetPlanExecution]);
 
   return {
     conversation,
-    isStreaming,
+    isStreaming: streamingChatKeys.some(isForeground),
+    streamingChatKeys,
     error,
     conversationRef,
-    sendingRef,
+    streamsRef,
+    beginStream,
+    endStream,
     setConversation,
-    setIsStreaming,
     setError,
     clear,
   };
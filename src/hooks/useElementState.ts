@@ -22,11 +22,19 @@
  * The tree carries streaming-generated data; `componentState` carries
  * user modifications. The AI sees both, no duplication.
  *
+ * ### Undo
+ *
+ * Every update is recorded on the shared undo manager (see
+ * UndoManagerProvider), so Ctrl+Z reverts it in order with tree and
+ * inline text edits. Rapid updates to one element coalesce into one step.
+ *
  * @module hooks/useElementState
  */
 import { useCallback, useEffect, useRef, useMemo } from "react";
 import { loggers } from "@onegenui/utils";
 import { useStore } from "../store";
+import { useUndoManager } from "../contexts/undo-manager";
+import { touchAncestors } from "./patches/structural-sharing";
 
 const log = loggers.react;
 
@@ -35,6 +43,8 @@ export interface UseElementStateOptions {
   syncToTree?: boolean;
   /** Debounce interval in ms for tree sync (default: 300) */
   debounceMs?: number;
+  /** Label of the undo entry (default: "Update <elementKey>") */
+  undoLabel?: string;
 }
 
 /**
@@ -51,7 +61,8 @@ export function useElementState<T extends Record<string, unknown>>(
   initialProps: T,
   options: UseElementStateOptions = {},
 ): [T, (updates: Partial<T>) => void] {
-  const { syncToTree = true, debounceMs = 300 } = options;
+  const { syncToTree = true, debounceMs = 300, undoLabel } = options;
+  const undoManager = useUndoManager();
 
   // Zustand selectors — stable references from the store
   const overrides = useStore((s) => s.componentState[elementKey]);
@@ -71,6 +82,8 @@ export function useElementState<T extends Record<string, unknown>>(
         : initialProps,
     [initialProps, overrides],
   );
+  const mergedRef = useRef(mergedState);
+  mergedRef.current = mergedState;
 
   // ── Cleanup ──────────────────────────────────────────────────────────────
   useEffect(() => {
@@ -83,9 +96,10 @@ export function useElementState<T extends Record<string, unknown>>(
   // Writes to Zustand immediately (reactive), then debounce-syncs to the
   // UI tree so that turn snapshots and subsequent AI requests include the
   // user's changes.
-  const updateState = useCallback(
+  const applyUpdates = useCallback(
     (updates: Partial<T>) => {
       updateComponentState(elementKey, updates as Record<string, unknown>);
+      mergedRef.current = { ...mergedRef.current, ...updates };
 
       if (syncToTree) {
         if (timerRef.current) clearTimeout(timerRef.current);
@@ -95,16 +109,15 @@ export function useElementState<T extends Record<string, unknown>>(
           updateUITree((tree) => {
             const el = tree.elements[elementKey];
             if (el) {
-              return {
-                ...tree,
-                elements: {
-                  ...tree.elements,
-                  [elementKey]: {
-                    ...el,
-                    props: { ...el.props, ...updates },
-                  },
+              const elements = {
+                ...tree.elements,
+                [elementKey]: {
+                  ...el,
+                  props: { ...el.props, ...updates },
                 },
               };
+              touchAncestors(elements, [elementKey], { previous: tree.elements, root: tree.root });
+              return { ...tree, elements };
             }
             return tree;
           });
@@ -115,5 +128,25 @@ export function useElementState<T extends Record<string, unknown>>(
     [elementKey, updateComponentState, updateUITree, syncToTree, debounceMs],
   );
 
+  // Records each update on the shared undo stack; undo re-applies the
+  // previous merged values through the same override + tree-sync path.
+  const updateState = useCallback(
+    (updates: Partial<T>) => {
+      const previous: Partial<T> = {};
+      for (const field of Object.keys(updates) as Array<keyof T>) {
+        previous[field] = mergedRef.current[field];
+      }
+      applyUpdates(updates);
+      undoManager.record({
+        label: undoLabel ?? `Update ${elementKey}`,
+        source: "component-state",
+        coalesceKey: `component-state:${elementKey}`,
+        undo: () => applyUpdates(previous),
+        redo: () => applyUpdates(updates),
+      });
+    },
+    [elementKey, applyUpdates, undoManager, undoLabel],
+  );
+
   return [mergedState, updateState];
 }
@@ -0,0 +1,39 @@
+/**
+ * useElementStreamingState — Whether one element is still being streamed.
+ *
+ * The patch pipeline records each element's lifecycle in
+ * `_meta.streamingPhase` (created → receiving-props → children-complete →
+ * finalized). This hook subscribes to that phase only, so a component
+ * re-renders when its own element moves on, not on every patch of the turn.
+ *
+ * ```tsx
+ * const { isStreaming } = useElementStreamingState(element.key);
+ * if (isStreaming) return <CardSkeleton />;
+ * ```
+ *
+ * @module hooks/useElementStreamingState
+ */
+import { useMemo } from "react";
+import { useStore } from "../store";
+import {
+  getStreamingPhase,
+  type ElementStreamingState,
+} from "./patches/streaming-lifecycle";
+
+/**
+ * Streaming state of an element in the current UI tree.
+ *
+ * @param elementKey  Unique element identifier in the UI tree
+ * @returns `{ phase, isStreaming }` (phase is null for elements never streamed)
+ */
+export function useElementStreamingState(
+  elementKey: string,
+): ElementStreamingState {
+  const phase = useStore((s) =>
+    getStreamingPhase(s.uiTree?.elements[elementKey]),
+  );
+  return useMemo(
+    () => ({ phase, isStreaming: phase !== null && phase !== "finalized" }),
+    [phase],
+  );
+}
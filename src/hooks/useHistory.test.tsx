@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import React, { useCallback, useRef, useState } from "react";
+import { render, act } from "@testing-library/react";
+import type { UITree } from "@onegenui/core";
+import { Renderer } from "../renderer";
+import { JSONUIProvider } from "../renderer/provider";
+import type { ComponentRegistry } from "../renderer/types";
+import { applyPatch } from "./patch-utils";
+import { createUndoManager, type UndoManager } from "./history/undo-manager";
+import { useHistory, type HistorySnapshot, type UseHistoryReturn } from "./useHistory";
+
+const registry: ComponentRegistry = {
+  Stack: ({ children }) => <div>{children}</div>,
+  Card: ({ children }) => <section>{children}</section>,
+  Text: ({ element }) => <p>{String(element.props.text)}</p>,
+};
+
+const fixed = { resizable: false };
+const initialTree = {
+  root: "root",
+  elements: {
+    root: { key: "root", type: "Stack", props: {}, children: ["card"], layout: fixed },
+    card: { key: "card", type: "Card", props: {}, children: ["title"], parentKey: "root", layout: fixed },
+    title: { key: "title", type: "Text", props: { text: "Draft" }, parentKey: "card", layout: fixed },
+  },
+} as unknown as UITree;
+
+function setup(undoManager?: UndoManager) {
+  const api: { history?: UseHistoryReturn; edit?: (text: string) => void } = {};
+
+  function Editor() {
+    const [tree, setTree] = useState<UITree | null>(initialTree);
+    const treeRef = useRef(tree);
+    treeRef.current = tree;
+    const getState = useCallback((): HistorySnapshot => ({ tree: treeRef.current, conversation: [] }), []);
+    const history = useHistory(getState, { setState: (state) => setTree(state.tree), undoManager });
+    api.history = history;
+    api.edit = (text) => {
+      history.pushHistory("Edit title");
+      setTree((prev) => applyPatch(prev!, { op: "replace", path: "/elements/title/props/text", value: text }));
+    };
+    return (
+      <JSONUIProvider registry={registry}>
+        <Renderer tree={tree} registry={registry} autoGrid={false} />
+      </JSONUIProvider>
+    );
+  }
+
+  const view = render(<Editor />);
+  return { view, api: api as Required<typeof api> };
+}
+
+describe("useHistory rendering", () => {
+  it("re-renders nested elements restored by undo and redo", () => {
+    const { view, api } = setup();
+
+    act(() => api.edit("Final"));
+    expect(view.container.textContent).toBe("Final");
+
+    act(() => { api.history.undo(); });
+    expect(view.container.textContent).toBe("Draft");
+
+    act(() => { api.history.redo(); });
+    expect(view.container.textContent).toBe("Final");
+  });
+
+  it("drops its shared-stack steps when the history is cleared", () => {
+    const manager = createUndoManager();
+    const { view, api } = setup(manager);
+    manager.record({ label: "Check", source: "component-state", undo: () => {}, redo: () => {} });
+
+    act(() => api.edit("Final"));
+    expect(manager.entries()).toHaveLength(2);
+
+    act(() => api.history.clearHistory());
+    expect(manager.entries().map((e) => e.label)).toEqual(["Check"]);
+
+    act(() => { api.history.undo(); });
+    expect(view.container.textContent).toBe("Final");
+  });
+});
@@ -1,24 +1,55 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef, useEffect } from "react";
 import type { UITree } from "@onegenui/core";
 import type { ConversationTurn } from "./types";
+import {
+  createHistoryEngine,
+  type HistoryEngine,
+  type HistoryTimelineEntry,
+} from "./history";
+import type { UndoCommand, UndoManager } from "./history/undo-manager";
+import { touchAncestors } from "./patches/structural-sharing";
 
 /**
- * State snapshot for history
+ * State tracked by history
  */
 export interface HistorySnapshot {
   tree: UITree | null;
   conversation: ConversationTurn[];
 }
 
+/**
+ * Options for useHistory hook
+ */
+export interface UseHistoryOptions {
+  /** Apply a state restored by undo/redo (omit to only receive it as return value) */
+  setState?: (state: HistorySnapshot) => void;
+  /** Maximum number of undo steps (default: 100) */
+  maxEntries?: number;
+  /** Memory budget for stored patches in bytes (default: 5MB) */
+  maxBytes?: number;
+  /**
+   * Shared undo stack. When set, every recorded step is also pushed there
+   * and undo()/redo() follow its chronological order across edit sources.
+   */
+  undoManager?: UndoManager;
+}
+
 /**
  * Return type for useHistory hook
  */
 export interface UseHistoryReturn {
-  history: HistorySnapshot[];
+  /** Inspectable list of undo steps, oldest first */
+  timeline: HistoryTimelineEntry[];
+  /** Index of the last applied timeline entry (-1 when none) */
   historyIndex: number;
-  pushHistory: () => void;
+  /** Checkpoint the current state before a change */
+  pushHistory: (label?: string) => void;
+  /** Start folding every change into a single undo step */
+  beginGroup: (label?: string) => void;
+  /** Close the group opened by beginGroup */
+  endGroup: () => void;
   undo: () => HistorySnapshot | null;
   redo: () => HistorySnapshot | null;
   canUndo: boolean;
@@ -26,70 +57,179 @@ export interface UseHistoryReturn {
   clearHistory: () => void;
 }
 
+/**
+ * History patches replace only the elements they recorded, so ancestors of
+ * a restored element keep their references. Bump them like any other tree
+ * write, or memoized renderers skip the restored subtree.
+ */
+function touchRestoredAncestors(
+  current: HistorySnapshot,
+  restored: HistorySnapshot,
+): HistorySnapshot {
+  const before = current.tree;
+  const tree = restored.tree;
+  if (!before || !tree || before === tree) return restored;
+  const changed = Object.keys(tree.elements).filter(
+    (key) => tree.elements[key] !== before.elements[key],
+  );
+  if (changed.length === 0) return restored;
+  const elements = { ...tree.elements };
+  touchAncestors(elements, changed, { previous: before.elements, root: tree.root });
+  return { ...restored, tree: { ...tree, elements } };
+}
+
+interface PendingCheckpoint {
+  before: HistorySnapshot;
+  label?: string;
+}
+
 /**
  * Hook for managing undo/redo history
- * Follows Single Responsibility Principle - only manages history state
+ *
+ * pushHistory() keeps a reference to the current state; once the change
+ * has rendered, the forward and inverse patches between the two states are
+ * stored instead of deep-cloned snapshots. Groups keep the earliest
+ * checkpoint open until endGroup(), so a drag or a batch of edits becomes
+ * one undo step.
+ *
+ * With an undoManager, undo()/redo() revert the most recent change of any
+ * source (inline edits, component state), not just tree changes.
  */
 export function useHistory(
-  getCurrentState: () => {
-    tree: UITree | null;
-    conversation: ConversationTurn[];
-  },
+  getCurrentState: () => HistorySnapshot,
+  options: UseHistoryOptions = {},
 ): UseHistoryReturn {
-  const [history, setHistory] = useState<HistorySnapshot[]>([]);
-  const [historyIndex, setHistoryIndex] = useState(-1);
-
-  const pushHistory = useCallback(() => {
-    const { tree, conversation } = getCurrentState();
-    const snapshot: HistorySnapshot = {
-      tree: tree ? JSON.parse(JSON.stringify(tree)) : null,
-      conversation: JSON.parse(JSON.stringify(conversation)),
+  const { setState, maxEntries, maxBytes, undoManager } = options;
+  const engineRef = useRef<HistoryEngine<HistorySnapshot> | null>(null);
+  if (!engineRef.current) {
+    engineRef.current = createHistoryEngine<HistorySnapshot>({ maxEntries, maxBytes });
+  }
+  const engine = engineRef.current;
+  const pendingRef = useRef<PendingCheckpoint | null>(null);
+  const groupDepthRef = useRef(0);
+  const [, setRevision] = useState(0);
+  const bump = useCallback(() => setRevision((r) => r + 1), []);
+  const lastRestoredRef = useRef<HistorySnapshot | null>(null);
+  // Commands this hook pushed to the shared stack (dropped by clearHistory)
+  const recordedRef = useRef(new WeakSet<UndoCommand>());
+
+  useEffect(() => undoManager?.subscribe(bump), [undoManager, bump]);
+
+  const settle = useCallback(() => {
+    const pending = pendingRef.current;
+    if (!pending || groupDepthRef.current > 0) return;
+    pendingRef.current = null;
+    const entry = engine.record(pending.before, getCurrentState(), pending.label);
+    if (!entry || !undoManager) return;
+    // Tree steps are undone in stack order, so the engine cursor stays in sync
+    const step = (direction: "undo" | "redo") => () => {
+      const current = getCurrentState();
+      const restored = engine[direction](current);
+      if (!restored) return;
+      const touched = touchRestoredAncestors(current, restored);
+      lastRestoredRef.current = touched;
+      setState?.(touched);
+    };
+    const command: UndoCommand = {
+      label: entry.label ?? "Edit",
+      source: "tree",
+      undo: step("undo"),
+      redo: step("redo"),
     };
-    setHistory((prev) => {
-      // Truncate any redo history
-      const newHistory = prev.slice(0, historyIndex + 1);
-      return [...newHistory, snapshot];
-    });
-    setHistoryIndex((prev) => prev + 1);
-  }, [getCurrentState, historyIndex]);
+    recordedRef.current.add(command);
+    undoManager.record(command);
+  }, [engine, getCurrentState, undoManager, setState]);
+
+  // Record the checkpointed change once it has been rendered
+  useEffect(() => {
+    if (!pendingRef.current || groupDepthRef.current > 0) return;
+    settle();
+    bump();
+  });
+
+  const pushHistory = useCallback(
+    (label?: string) => {
+      if (groupDepthRef.current > 0) return;
+      settle();
+      pendingRef.current = { before: getCurrentState(), label };
+      bump();
+    },
+    [settle, getCurrentState, bump],
+  );
+
+  const beginGroup = useCallback(
+    (label?: string) => {
+      if (groupDepthRef.current === 0) {
+        settle();
+        pendingRef.current = { before: getCurrentState(), label };
+      }
+      groupDepthRef.current++;
+    },
+    [settle, getCurrentState],
+  );
+
+  const endGroup = useCallback(() => {
+    if (groupDepthRef.current === 0) return;
+    groupDepthRef.current--;
+    if (groupDepthRef.current === 0) bump();
+  }, [bump]);
 
   const undo = useCallback((): HistorySnapshot | null => {
-    if (historyIndex < 0) return null;
-    const snapshot = history[historyIndex];
-    if (snapshot) {
-      setHistoryIndex((prev) => prev - 1);
-      return snapshot;
+    groupDepthRef.current = 0;
+    settle();
+    if (undoManager) {
+      lastRestoredRef.current = null;
+      undoManager.undo();
+      return lastRestoredRef.current;
+    }
+    const current = getCurrentState();
+    const engineRestored = engine.undo(current);
+    const restored = engineRestored && touchRestoredAncestors(current, engineRestored);
+    if (restored) {
+      setState?.(restored);
+      bump();
     }
-    return null;
-  }, [history, historyIndex]);
+    return restored;
+  }, [engine, settle, getCurrentState, setState, bump, undoManager]);
 
   const redo = useCallback((): HistorySnapshot | null => {
-    if (historyIndex >= history.length - 1) return null;
-    const nextIndex = historyIndex + 1;
-    const snapshot = history[nextIndex];
-    if (snapshot) {
-      setHistoryIndex(nextIndex);
-      return snapshot;
+    settle();
+    if (undoManager) {
+      lastRestoredRef.current = null;
+      undoManager.redo();
+      return lastRestoredRef.current;
     }
-    return null;
-  }, [history, historyIndex]);
+    const current = getCurrentState();
+    const engineRestored = engine.redo(current);
+    const restored = engineRestored && touchRestoredAncestors(current, engineRestored);
+    if (restored) {
+      setState?.(restored);
+      bump();
+    }
+    return restored;
+  }, [engine, settle, getCurrentState, setState, bump, undoManager]);
 
   const clearHistory = useCallback(() => {
-    setHistory([]);
-    setHistoryIndex(-1);
-  }, []);
-
-  const canUndo = historyIndex >= 0;
-  const canRedo = historyIndex < history.length - 1;
+    engine.clear();
+    // Shared-stack steps would replay entries of the cleared engine
+    const recorded = recordedRef.current;
+    undoManager?.remove((command) => recorded.has(command));
+    recordedRef.current = new WeakSet();
+    pendingRef.current = null;
+    groupDepthRef.current = 0;
+    bump();
+  }, [engine, bump, undoManager]);
 
   return {
-    history,
-    historyIndex,
+    timeline: engine.timeline(),
+    historyIndex: engine.cursor() - 1,
     pushHistory,
+    beginGroup,
+    endGroup,
     undo,
     redo,
-    canUndo,
-    canRedo,
+    canUndo: (undoManager?.canUndo() ?? engine.canUndo()) || pendingRef.current !== null,
+    canRedo: undoManager?.canRedo() ?? engine.canRedo(),
     clearHistory,
   };
 }
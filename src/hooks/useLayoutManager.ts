@@ -2,6 +2,7 @@
 
 import { useCallback, useMemo } from "react";
 import type { UITree, UIElement, ElementLayout } from "@onegenui/core";
+import { touchAncestors } from "./patches/structural-sharing";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
@@ -108,13 +109,15 @@ export function useLayoutManager({
 
         onLayoutChange?.(elementKey, newLayout);
 
-        return {
-          ...currentTree,
-          elements: {
-            ...currentTree.elements,
-            [elementKey]: updatedElement,
-          },
+        const elements = {
+          ...currentTree.elements,
+          [elementKey]: updatedElement,
         };
+        touchAncestors(elements, [elementKey], {
+          previous: currentTree.elements,
+          root: currentTree.root,
+        });
+        return { ...currentTree, elements };
       });
     },
     [tree, onTreeUpdate, onLayoutChange],
@@ -0,0 +1,384 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { createWireFrame, type UITree } from "@onegenui/core";
+import { useUIStream } from "./useUIStream";
+import type { ConversationTurn } from "./types";
+import { createInMemoryTransport } from "./ui-stream/transports/in-memory";
+import type { TransportRequest } from "./ui-stream/transports/types";
+import { TREE_BASE_MISMATCH_CODE, TREE_DELTA_CAPABILITY } from "./ui-stream/tree-sync";
+
+function promptOf(request: TransportRequest): string {
+  return (JSON.parse(request.body as string) as { prompt: string }).prompt;
+}
+
+function frame(sequence: number, event: unknown) {
+  return createWireFrame({ correlationId: "corr", sequence, event } as never);
+}
+
+/** A complete turn answering with one message and one element */
+function answer(prompt: string, capabilities: string[] = []): unknown[] {
+  return [
+    frame(0, { kind: "control", action: "start", data: { capabilities } }),
+    frame(1, { kind: "message", id: `msg-${prompt}`, role: "assistant", mode: "replace", content: `re: ${prompt}` }),
+    frame(2, {
+      kind: "patch",
+      patches: [
+        { op: "set", path: "/root", value: "root" },
+        { op: "add", path: "/elements/root", value: { key: "root", type: "Text", props: { text: prompt } } },
+      ],
+    }),
+    frame(3, { kind: "done" }),
+  ];
+}
+
+describe("useUIStream branching", () => {
+  it("keeps the previous version when a turn is edited", async () => {
+    const transport = createInMemoryTransport((request) => answer(promptOf(request)));
+    const { result } = renderHook(() => useUIStream({ api: "/api/generate", transport }));
+
+    await act(() => result.current.send("first"));
+    const turnId = result.current.conversation[0]!.id;
+
+    await act(() => result.current.editTurn(turnId, "second"));
+
+    await waitFor(() => expect(result.current.isStreaming).toBe(false));
+    const branches = result.current.getBranches(result.current.conversation[0]!.id);
+    expect(branches.map((b) => b.turn.userMessage)).toEqual(["first", "second"]);
+    expect(branches[1]?.isActive).toBe(true);
+    expect(result.current.tree?.elements.root?.props.text).toBe("second");
+
+    act(() => result.current.switchBranch(turnId, 0));
+
+    expect(result.current.conversation[0]?.userMessage).toBe("first");
+    expect(result.current.tree?.elements.root?.props.text).toBe("first");
+  });
+
+  it("restores the previous version when a regeneration is aborted", async () => {
+    let stall = false;
+    const transport = createInMemoryTransport(async function* (request) {
+      if (stall) {
+        yield answer(promptOf(request))[0];
+        await new Promise<void>((resolve) => request.signal.addEventListener("abort", () => resolve()));
+        return;
+      }
+      yield* answer(promptOf(request));
+    });
+    const { result } = renderHook(() => useUIStream({ api: "/api/generate", transport }));
+
+    await act(() => result.current.send("first"));
+    const turnId = result.current.conversation[0]!.id;
+
+    stall = true;
+    let regeneration: Promise<void> | undefined;
+    act(() => { regeneration = result.current.regenerate(turnId); });
+    await waitFor(() => expect(result.current.getBranches(turnId)).toHaveLength(2));
+    await act(async () => {
+      result.current.abort();
+      await regeneration;
+    });
+
+    expect(result.current.conversation).toHaveLength(1);
+    expect(result.current.conversation[0]?.id).toBe(turnId);
+    expect(result.current.getBranches(turnId)).toHaveLength(1);
+    expect(result.current.tree?.elements.root?.props.text).toBe("first");
+  });
+});
+
+describe("useUIStream prompt queue", () => {
+  it("does not run queued prompts after the turn is aborted", async () => {
+    const prompts: string[] = [];
+    const transport = createInMemoryTransport(async function* (request) {
+      prompts.push(promptOf(request));
+      yield answer(promptOf(request))[0];
+      await new Promise<void>((resolve) => request.signal.addEventListener("abort", () => resolve()));
+    });
+    const { result } = renderHook(() => useUIStream({ api: "/api/generate", transport }));
+
+    let first: Promise<void> | undefined;
+    act(() => { first = result.current.send("first"); });
+    await waitFor(() => expect(prompts).toEqual(["first"]));
+    await act(() => result.current.send("second"));
+    expect(result.current.queue.map((entry) => entry.prompt)).toEqual(["second"]);
+
+    await act(async () => {
+      result.current.abort();
+      await first;
+    });
+
+    expect(prompts).toEqual(["first"]);
+    expect(result.current.queue.map((entry) => entry.prompt)).toEqual(["second"]);
+  });
+
+  /** Holds the "first" turn open until released; other prompts answer at once */
+  function heldFirstTransport() {
+    let release!: () => void;
+    const held = new Promise<void>((resolve) => { release = resolve; });
+    const bodies: Array<{ prompt: string; currentTree?: UITree }> = [];
+    const transport = createInMemoryTransport(async function* (request) {
+      const body = JSON.parse(request.body as string) as { prompt: string; currentTree?: UITree };
+      bodies.push(body);
+      const [start, ...rest] = answer(body.prompt);
+      yield start;
+      if (body.prompt === "first") await held;
+      yield* rest;
+    });
+    return { transport, bodies, release };
+  }
+
+  it("runs queued prompts in order, each from the previous turn's tree", async () => {
+    const { transport, bodies, release } = heldFirstTransport();
+    const { result } = renderHook(() => useUIStream({ api: "/api/generate", transport }));
+
+    act(() => { void result.current.send("first"); });
+    await waitFor(() => expect(bodies).toHaveLength(1));
+    await act(() => result.current.send("second"));
+    await act(() => result.current.send("third"));
+    expect(result.current.queue.map((entry) => entry.prompt)).toEqual(["second", "third"]);
+
+    await act(async () => release());
+    await waitFor(() => expect(result.current.conversation.map((t) => t.status)).toEqual(["complete", "complete", "complete"]));
+
+    expect(bodies.map((body) => body.prompt)).toEqual(["first", "second", "third"]);
+    expect(bodies[1]?.currentTree?.elements.root?.props.text).toBe("first");
+    expect(bodies[2]?.currentTree?.elements.root?.props.text).toBe("second");
+    expect(result.current.conversation.map((t) => t.userMessage)).toEqual(["first", "second", "third"]);
+    expect(result.current.queue).toEqual([]);
+    expect(result.current.tree?.elements.root?.props.text).toBe("third");
+  });
+
+  it("runs the queue in the order left by reorderQueue and removeFromQueue", async () => {
+    const { transport, bodies, release } = heldFirstTransport();
+    const { result } = renderHook(() => useUIStream({ api: "/api/generate", transport }));
+
+    act(() => { void result.current.send("first"); });
+    await waitFor(() => expect(bodies).toHaveLength(1));
+    for (const prompt of ["a", "b", "c"]) await act(() => result.current.send(prompt));
+    const idOf = (prompt: string) => result.current.queue.find((entry) => entry.prompt === prompt)!.id;
+
+    act(() => result.current.reorderQueue(idOf("c"), 0));
+    expect(result.current.queue.map((entry) => entry.prompt)).toEqual(["c", "a", "b"]);
+    act(() => result.current.removeFromQueue(idOf("a")));
+    expect(result.current.queue.map((entry) => entry.prompt)).toEqual(["c", "b"]);
+    expect(result.current.conversation.map((t) => [t.userMessage, t.status])).toEqual([
+      ["first", "streaming"],
+      ["c", "queued"],
+      ["b", "queued"],
+    ]);
+
+    await act(async () => release());
+    await waitFor(() => expect(result.current.conversation.map((t) => t.status)).toEqual(["complete", "complete", "complete"]));
+
+    expect(bodies.map((body) => body.prompt)).toEqual(["first", "c", "b"]);
+    expect(result.current.conversation.map((t) => t.userMessage)).toEqual(["first", "c", "b"]);
+  });
+});
+
+describe("useUIStream background chats", () => {
+  it("sends a background prompt with the chat's saved tree and history", async () => {
+    const bodies: Record<string, unknown>[] = [];
+    const transport = createInMemoryTransport((request) => {
+      const body = JSON.parse(request.body as string) as Record<string, unknown>;
+      bodies.push(body);
+      return answer(body.prompt as string);
+    });
+    const saved = {
+      tree: { root: "saved", elements: { saved: { key: "saved", type: "Text", props: { text: "saved" } } } },
+      conversation: [
+        { id: "turn-saved", userMessage: "earlier", assistantMessages: [], timestamp: 1, status: "complete" },
+      ],
+    } as unknown as { tree: UITree; conversation: ConversationTurn[] };
+    const onBackgroundComplete = vi.fn();
+    const { result } = renderHook(() =>
+      useUIStream({
+        api: "/api/generate",
+        transport,
+        getChatId: () => "main",
+        getChatSession: (chatId) => (chatId === "other" ? saved : undefined),
+        onBackgroundComplete,
+      }),
+    );
+
+    await act(() => result.current.send("next", { chatId: "other" }));
+
+    expect(bodies[0]?.currentTree).toEqual(saved.tree);
+    expect(bodies[0]?.messages).toEqual([{ role: "user", content: "earlier" }]);
+    const [chatId, , conversation] = onBackgroundComplete.mock.calls[0]!;
+    expect(chatId).toBe("other");
+    expect((conversation as ConversationTurn[]).map((t) => t.userMessage)).toEqual(["earlier", "next"]);
+  });
+
+  it("streams a background chat while the foreground chat is still streaming", async () => {
+    let releaseMain!: () => void;
+    const mainHeld = new Promise<void>((resolve) => { releaseMain = resolve; });
+    const transport = createInMemoryTransport(async function* (request) {
+      const prompt = promptOf(request);
+      const [start, ...rest] = answer(prompt);
+      yield start;
+      if (prompt === "in main") await mainHeld;
+      yield* rest;
+    });
+    const onBackgroundComplete = vi.fn();
+    const { result } = renderHook(() =>
+      useUIStream({
+        api: "/api/generate",
+        transport,
+        getChatId: () => "main",
+        getChatSession: () => undefined,
+        onBackgroundComplete,
+      }),
+    );
+
+    let mainSend!: Promise<void>;
+    act(() => { mainSend = result.current.send("in main"); });
+    await waitFor(() => expect(result.current.isStreaming).toBe(true));
+    await act(() => result.current.send("in other", { chatId: "other" }));
+
+    expect(result.current.isStreaming).toBe(true);
+    expect(onBackgroundComplete).toHaveBeenCalledTimes(1);
+    const [chatId, otherTree, otherConversation] = onBackgroundComplete.mock.calls[0]!;
+    expect(chatId).toBe("other");
+    expect((otherTree as UITree).elements.root?.props.text).toBe("in other");
+    expect((otherConversation as ConversationTurn[]).map((t) => t.userMessage)).toEqual(["in other"]);
+
+    releaseMain();
+    await act(() => mainSend);
+
+    expect(result.current.isStreaming).toBe(false);
+    expect(result.current.tree?.elements.root?.props.text).toBe("in main");
+    expect(result.current.conversation.map((t) => [t.userMessage, t.status])).toEqual([["in main", "complete"]]);
+    expect(onBackgroundComplete).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("useUIStream tree deltas", () => {
+  it("resends the full tree when the backend rejects the delta base", async () => {
+    const bodies: Record<string, unknown>[] = [];
+    const transport = createInMemoryTransport((request) => {
+      const body = JSON.parse(request.body as string) as Record<string, unknown>;
+      bodies.push(body);
+      if (body.baseTreeHash) {
+        return [
+          frame(0, { kind: "control", action: "start", data: { capabilities: [TREE_DELTA_CAPABILITY] } }),
+          frame(1, { kind: "error", code: TREE_BASE_MISMATCH_CODE, message: "unknown base", recoverable: false }),
+        ];
+      }
+      return answer(body.prompt as string, [TREE_DELTA_CAPABILITY]);
+    });
+    const { result } = renderHook(() => useUIStream({ api: "/api/generate", transport }));
+
+    await act(() => result.current.send("first"));
+    await act(() => result.current.send("second"));
+
+    expect(bodies).toHaveLength(3);
+    expect(bodies[1]?.baseTreeHash).toBeDefined();
+    expect(bodies[2]?.baseTreeHash).toBeUndefined();
+    expect(bodies[2]?.currentTree).toBeDefined();
+    expect(result.current.error).toBeNull();
+    expect(result.current.conversation.map((t) => t.status)).toEqual(["complete", "complete"]);
+    expect(result.current.tree?.elements.root?.props.text).toBe("second");
+  });
+});
+
+describe("useUIStream protocol policy", () => {
+  /** A turn with one unparseable line between the message and the tree */
+  const withInvalidLine = (request: TransportRequest) => {
+    const frames = answer(promptOf(request));
+    return [...frames.slice(0, 2), "d:{not json", ...frames.slice(2)];
+  };
+
+  it("skips invalid lines by default", async () => {
+    const transport = createInMemoryTransport(withInvalidLine);
+    const { result } = renderHook(() => useUIStream({ api: "/api/generate", transport }));
+
+    await act(() => result.current.send("first"));
+
+    expect(result.current.error).toBeNull();
+    expect(result.current.conversation[0]?.status).toBe("complete");
+    expect(result.current.tree?.elements.root?.props.text).toBe("first");
+    expect(result.current.diagnostics.map((d) => d.action)).toEqual(["skipped"]);
+  });
+
+  it("fails the turn on invalid lines in strict mode", async () => {
+    const transport = createInMemoryTransport(withInvalidLine);
+    const { result } = renderHook(() =>
+      useUIStream({ api: "/api/generate", transport, protocolPolicy: "strict" }),
+    );
+
+    await act(() => result.current.send("first"));
+
+    expect(result.current.error?.message).toContain("STREAM_PROTOCOL_ERROR");
+    expect(result.current.conversation[0]?.status).toBe("failed");
+    expect(result.current.diagnostics.map((d) => d.action)).toEqual(["rejected"]);
+  });
+});
+
+describe("useUIStream reconnection", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /** Answers each connection with the next script; a script without a done frame drops */
+  function scriptedTransport(scripts: ((request: TransportRequest) => unknown[])[]) {
+    const requests: TransportRequest[] = [];
+    const transport = createInMemoryTransport((request) => {
+      requests.push(request);
+      const script = scripts[Math.min(requests.length, scripts.length) - 1]!;
+      return script(request);
+    });
+    return { transport, requests };
+  }
+
+  /** Start a send and let its first connection play out; backoff timers are faked */
+  async function startSend(send: () => Promise<void>): Promise<{ sending: Promise<void> }> {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+    let sending!: Promise<void>;
+    act(() => { sending = send(); });
+    await act(() => vi.advanceTimersByTimeAsync(0));
+    return { sending };
+  }
+
+  it("resumes a dropped stream after the last sequence and drops replayed frames", async () => {
+    const { transport, requests } = scriptedTransport([
+      (request) => answer(promptOf(request)).slice(0, 2),
+      (request) => [
+        frame(1, { kind: "message", id: "msg-replayed", role: "assistant", mode: "replace", content: "replayed" }),
+        ...answer(promptOf(request)).slice(2),
+      ],
+    ]);
+    const { result } = renderHook(() => useUIStream({ api: "/api/generate", transport }));
+
+    const { sending } = await startSend(() => result.current.send("first"));
+    expect(result.current.conversation[0]?.status).toBe("reconnecting");
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(2_000);
+      await sending;
+    });
+
+    expect(requests).toHaveLength(2);
+    expect(requests[0]?.headers["X-Resume-After-Sequence"]).toBeUndefined();
+    expect(requests[1]?.headers["X-Resume-After-Sequence"]).toBe("1");
+    const turn = result.current.conversation[0]!;
+    expect(turn.status).toBe("complete");
+    expect(turn.assistantMessages.map((m) => m.content)).toEqual(["re: first"]);
+    expect(result.current.tree?.elements.root?.props.text).toBe("first");
+  });
+
+  it("keeps the turn as partial once retries are exhausted", async () => {
+    const { transport, requests } = scriptedTransport([(request) => answer(promptOf(request)).slice(0, 2)]);
+    const { result } = renderHook(() => useUIStream({ api: "/api/generate", transport }));
+
+    const { sending } = await startSend(() => result.current.send("first"));
+    await act(async () => {
+      // Three retries back off 1s, 2s and 4s, plus up to 30% jitter
+      await vi.advanceTimersByTimeAsync(10_000);
+      await sending;
+    });
+
+    expect(requests).toHaveLength(4);
+    const turn = result.current.conversation[0]!;
+    expect(turn.status).toBe("partial");
+    expect(turn.error).toContain("Stream closed before completion");
+    expect(turn.assistantMessages.map((m) => m.content)).toEqual(["re: first"]);
+  });
+});
@@ -1,37 +1,63 @@
 "use client";
 
-import { useCallback, useEffect, useMemo } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useShallow } from "zustand/shallow";
 import { loggers } from "@onegenui/utils";
 import type { UITree } from "@onegenui/core";
 import { createTreeStoreBridge } from "./ui-stream/tree-store-bridge";
-import type { UseUIStreamOptions, UseUIStreamReturn, ConversationTurn, Attachment } from "./types";
-import { useStore } from "../store";
+import type { UseUIStreamOptions, UseUIStreamReturn, ConversationTurn, Attachment, QueuedPrompt } from "./types";
+import { forkTurn, switchTurnBranch, removeTurnBranch, getTurnBranches, findForkIndex, getActivePathTree } from "./ui-stream/conversation-branches";
+import { useStore, useOneGenUIStore } from "../store";
 import { removeElementFromTree, removeSubItemsFromTree, updateElementInTree, updateElementLayoutInTree, type LayoutUpdates } from "./ui-stream/tree-mutations";
-import { useHistory } from "./ui-stream/use-history";
+import { useHistory, type HistorySnapshot } from "./useHistory";
+import { useUndoManager } from "../contexts/undo-manager";
 import { streamLog } from "./ui-stream/logger";
 import { buildRequest, isFileAttachment } from "./ui-stream/request-builder";
+import { createFullHistoryStrategy } from "./ui-stream/context-window";
+import { createTreeSync, isBaseMismatchError, type TreeSync, type TreePayload } from "./ui-stream/tree-sync";
+import type { ProtocolDiagnostic } from "./ui-stream/stream-parser";
 import { processPlanEvent } from "./ui-stream/plan-handler";
 import { processDocumentIndex } from "./ui-stream/document-index-handler";
 import { useStoreRefs } from "./ui-stream/use-store-refs";
-import { createPendingTurn, finalizeTurn, markTurnFailed, removeTurn, rollbackToTurn } from "./ui-stream/turn-manager";
+import { createPendingTurn, createQueuedTurn, activateTurn, syncQueuedTurns, finalizeTurn, markTurnFailed, removeTurn, rollbackToTurn } from "./ui-stream/turn-manager";
 import { collectPreviousAnswers, buildQuestionResponsePrompt, buildQuestionResponseContext, addQuestionAnswer } from "./ui-stream/question-handler";
 import { useStreamSession } from "./ui-stream/use-stream-session";
+import { createChatStreamSession, DEFAULT_CHAT_KEY, type ChatStreamSession } from "./ui-stream/chat-session";
+import { usePromptQueue } from "./ui-stream/use-prompt-queue";
 import { useStreamConnection } from "./ui-stream/use-stream-connection";
-import { useStreamEventLoop } from "./ui-stream/use-stream-event-loop";
+import { useStreamEventLoop, type EventLoopResult } from "./ui-stream/use-stream-event-loop";
+import { DEFAULT_IDLE_TIMEOUT_MS, DEEP_RESEARCH_IDLE_TIMEOUT_MS } from "./ui-stream/stream-reader";
 import { usePatchPipelineHook } from "./ui-stream/use-patch-pipeline-hook";
 import { useDeepResearchTracker, normalizeDeepResearchProgress } from "./ui-stream/use-deep-research-tracker";
 
 const log = loggers.react;
 
+const fullHistoryStrategy = createFullHistoryStrategy();
+const MAX_DIAGNOSTICS = 500;
+const defaultIdleTimeout = (_prompt: string, context?: Record<string, unknown>) =>
+  context?.deepResearch ? DEEP_RESEARCH_IDLE_TIMEOUT_MS : DEFAULT_IDLE_TIMEOUT_MS;
+
+interface RunTurnOptions {
+  /** Chat to run in (default: context.chatId or the current chat) */
+  chatKey?: string;
+  /** Pre-created turn, e.g. a dequeued one */
+  turn?: ConversationTurn;
+  /** Finished stream of the same chat to continue from */
+  seed?: ChatStreamSession;
+}
+
 export function useUIStream({
-  api, onComplete, onError, getHeaders, getChatId, onBackgroundComplete,
+  api, onComplete, onError, getHeaders, getChatId, onBackgroundComplete, getChatSession, transport,
+  contextStrategy = fullHistoryStrategy, protocolPolicy, onDiagnostic,
+  protocolVersions, idleTimeoutMs = defaultIdleTimeout, patchWorker,
+  frameBudgetMs, deferOffscreenPatches, onPipelineMetrics,
 }: UseUIStreamOptions): UseUIStreamReturn {
   const { storeTree, treeVersion } = useStore(
     useShallow((s) => ({ storeTree: s.uiTree, treeVersion: s.treeVersion })),
   );
   const { planStoreRef, addProgressRef, resetPlanExecution } = useStoreRefs();
-  const bridge = useMemo(() => createTreeStoreBridge(), []);
+  const store = useOneGenUIStore();
+  const bridge = useMemo(() => createTreeStoreBridge(store), [store]);
 
   const tree = useMemo(() => {
     if (!storeTree) return null;
@@ -50,22 +76,62 @@ export function useUIStream({
     [bridge],
   );
 
-  const session = useStreamSession(bridge, resetPlanExecution);
-  const connection = useStreamConnection();
+  const getActiveChatKey = useCallback(() => getChatId?.() ?? DEFAULT_CHAT_KEY, [getChatId]);
+  // Without getChatId every stream belongs to the single visible chat
+  const isForeground = useCallback(
+    (chatKey: string) => !getChatId || getActiveChatKey() === chatKey,
+    [getChatId, getActiveChatKey],
+  );
+
+  const session = useStreamSession(bridge, resetPlanExecution, isForeground);
+  const connection = useStreamConnection(transport);
   const { processStream } = useStreamEventLoop();
-  const pipelineHook = usePatchPipelineHook(bridge);
+  const pipelineHook = usePatchPipelineHook(bridge, {
+    worker: patchWorker, frameBudgetMs, deferOffscreen: deferOffscreenPatches, onMetrics: onPipelineMetrics,
+  });
   const deepResearch = useDeepResearchTracker();
-  const { pushHistory, undo, redo, canUndo, canRedo, setHistory, setHistoryIndex } =
-    useHistory(tree, session.conversation, setTree, session.setConversation);
+  const promptQueue = usePromptQueue();
+  const unmountedRef = useRef(false);
+  const [diagnostics, setDiagnostics] = useState<ProtocolDiagnostic[]>([]);
+  const reportDiagnostic = useCallback(
+    (diagnostic: ProtocolDiagnostic) => {
+      onDiagnostic?.(diagnostic);
+      if (!unmountedRef.current) setDiagnostics((prev) => [...prev.slice(-(MAX_DIAGNOSTICS - 1)), diagnostic]);
+    },
+    [onDiagnostic],
+  );
+  // Last tree each chat's backend acknowledged, for delta requests
+  const treeSyncsRef = useRef(new Map<string, TreeSync>());
+  const getTreeSync = useCallback((chatKey: string) => {
+    let treeSync = treeSyncsRef.current.get(chatKey);
+    if (!treeSync) {
+      treeSync = createTreeSync();
+      treeSyncsRef.current.set(chatKey, treeSync);
+    }
+    return treeSync;
+  }, []);
+  const getHistoryState = useCallback(
+    (): HistorySnapshot => ({ tree: bridge.getTree(), conversation: session.conversationRef.current }),
+    [bridge, session.conversationRef],
+  );
+  const applyHistoryState = useCallback(
+    (state: HistorySnapshot) => {
+      setTree(state.tree);
+      session.setConversation(state.conversation);
+    },
+    [setTree, session.setConversation],
+  );
+  const { pushHistory, beginGroup, endGroup, undo, redo, canUndo, canRedo, timeline, clearHistory } =
+    useHistory(getHistoryState, { setState: applyHistoryState, undoManager: useUndoManager() });
 
   const removeElement = useCallback(
-    (key: string) => { pushHistory(); setTree((prev) => (prev ? removeElementFromTree(prev, key) : null)); },
+    (key: string) => { pushHistory("Remove element"); setTree((prev) => (prev ? removeElementFromTree(prev, key) : null)); },
     [pushHistory, setTree],
   );
   const removeSubItems = useCallback(
     (elementKey: string, identifiers: (number | string)[]) => {
       if (identifiers.length === 0) return;
-      pushHistory();
+      pushHistory("Remove items");
       setTree((prev) => (prev ? removeSubItemsFromTree(prev, elementKey, identifiers) : null));
     },
     [pushHistory, setTree],
@@ -78,107 +144,256 @@ export function useUIStream({
   );
   const updateElementLayout = useCallback(
     (elementKey: string, layoutUpdates: LayoutUpdates) => {
-      pushHistory();
+      pushHistory("Update layout");
       setTree((prev) => (prev ? updateElementLayoutInTree(prev, elementKey, layoutUpdates) : null));
     },
     [pushHistory, setTree],
   );
 
-  // ── send() — main streaming entry point ─────────────────────────────────
-  const send = useCallback(
-    async (prompt: string, context?: Record<string, unknown>, attachments?: Attachment[]) => {
-      const chatId = (context?.chatId as string | undefined) ?? getChatId?.();
-      if (session.sendingRef.current) {
-        streamLog.warn("Ignoring concurrent send", { prompt: prompt.slice(0, 100) });
+  // ── Prompt queue ─────────────────────────────────────────────────────────
+  const syncQueue = useCallback(
+    (chatKey: string) => {
+      const queued = promptQueue.forChat(chatKey).map((entry) => entry.turn);
+      const setConversation = session.streamsRef.current.get(chatKey)?.setConversation
+        ?? (isForeground(chatKey) ? session.setConversation : null);
+      setConversation?.((prev) => syncQueuedTurns(prev, queued));
+    },
+    [promptQueue, session, isForeground],
+  );
+
+  const addToQueue = useCallback(
+    (chatKey: string, prompt: string, context?: Record<string, unknown>, attachments?: Attachment[]) => {
+      const turn = createQueuedTurn(prompt, { isProactive: context?.hideUserMessage === true, attachments });
+      promptQueue.add({ id: turn.id, chatId: chatKey, prompt, context, attachments, enqueuedAt: turn.timestamp, turn });
+      syncQueue(chatKey);
+      streamLog.info("Prompt queued", { chatKey, turnId: turn.id, position: promptQueue.forChat(chatKey).length });
+      return turn.id;
+    },
+    [promptQueue, syncQueue],
+  );
+
+  const runTurnRef = useRef<((prompt: string, context?: Record<string, unknown>, attachments?: Attachment[], options?: RunTurnOptions) => Promise<void>) | null>(null);
+
+  // ── runTurn() — main streaming entry point ──────────────────────────────
+  const runTurn = useCallback(
+    async (prompt: string, context?: Record<string, unknown>, attachments?: Attachment[], options: RunTurnOptions = {}) => {
+      const chatKey = options.chatKey ?? (context?.chatId as string | undefined) ?? getActiveChatKey();
+      if (session.streamsRef.current.has(chatKey)) {
+        addToQueue(chatKey, prompt, context, attachments);
         return;
       }
-      session.sendingRef.current = true;
-      streamLog.info("Starting send", { promptLength: prompt.length, hasContext: !!context, attachmentCount: attachments?.length ?? 0, chatId });
+      const { seed } = options;
+      const active = isForeground(chatKey);
+      // A chat that is not on screen starts from its saved state
+      const saved = seed || active ? undefined : getChatSession?.(chatKey);
+      const chat = createChatStreamSession({
+        chatKey,
+        isActive: () => isForeground(chatKey),
+        storeBridge: bridge,
+        initialTree: seed
+          ? seed.bridge.getTree()
+          : active
+            ? bridge.getTree()
+            : saved?.tree ?? getActivePathTree(saved?.conversation ?? []),
+        initialConversation: seed ? seed.getConversation() : active ? session.conversationRef.current : saved?.conversation ?? [],
+        getForegroundConversation: () => session.conversationRef.current,
+        setForegroundConversation: session.setConversation,
+      });
+      session.beginStream(chat);
+      streamLog.info("Starting send", { promptLength: prompt.length, hasContext: !!context, attachmentCount: attachments?.length ?? 0, chatKey });
 
-      const { signal } = connection.setupAbort(chatId);
-      session.setIsStreaming(true);
-      session.setError(null);
-      bridge.setStreaming(true);
+      const { signal, reconnection } = connection.setupAbort(chatKey);
+      if (active) session.setError(null);
+      chat.bridge.setStreaming(true);
 
-      if (!bridge.getTree()) {
+      if (!chat.bridge.getTree()) {
         streamLog.debug("Initializing empty tree");
-        bridge.setTree({ root: "", elements: {} });
+        chat.bridge.setTree({ root: "", elements: {} });
       }
 
       const isProactive = context?.hideUserMessage === true;
-      const pendingTurn = createPendingTurn(prompt, { isProactive, attachments });
+      const pendingTurn = options.turn ?? createPendingTurn(prompt, { isProactive, attachments });
       const turnId = pendingTurn.id;
+      const history = chat.getConversation().filter((t) => t.status !== "queued" && t.id !== turnId);
       streamLog.debug("Creating turn", { turnId, isProactive, userMessage: prompt.slice(0, 50) });
-      deepResearch.initializeResearch(context, prompt);
-      session.setConversation((prev) => {
-        const updated = [...prev, pendingTurn];
+      // Research progress is shown for the chat on screen only
+      if (chat.isActive()) deepResearch.initializeResearch(context, prompt);
+      chat.setConversation((prev) => {
+        const updated = activateTurn(prev, pendingTurn);
         streamLog.debug("Conversation updated", { prevLength: prev.length, newLength: updated.length, pendingTurnId: pendingTurn.id, userMessage: pendingTurn.userMessage?.slice(0, 50) });
         return updated;
       });
 
       const protectedTypes = context?.forceCanvasMode === true ? ["Canvas"] : [];
-      const pipeline = pipelineHook.create({ turnId, protectedTypes });
+      const pipeline = pipelineHook.create({ turnId, protectedTypes, chatKey, bridge: chat.bridge });
 
       try {
         const fileAtts = attachments?.filter(isFileAttachment) ?? [];
         if (fileAtts.length > 0) {
           streamLog.debug("Uploading attachments", { count: fileAtts.length, files: fileAtts.map((a) => ({ name: a.file.name, type: a.file.type, size: a.file.size })) });
         }
-        const { body, headers } = buildRequest({ prompt, context, currentTree: bridge.getTree() ?? { root: "", elements: {} }, conversation: session.conversationRef.current, attachments, componentState: useStore.getState().componentState });
-        streamLog.info("Sending request to API", { api, hasAuth: !!getHeaders });
-        const reader = await connection.connect({ api, body, headers, signal, getHeaders });
-
-        const result = await processStream({
-          reader, turnId, setConversation: session.setConversation,
-          handlers: {
-            onPatch: (patches, atomic) => pipeline.push(patches, atomic),
-            onToolProgress: (progress) => {
-              addProgressRef.current({ toolCallId: progress.toolCallId, toolName: progress.toolName, status: progress.status, message: progress.message, data: progress.data, progress: normalizeDeepResearchProgress(progress.progress) });
-              deepResearch.handleDeepResearchToolProgress(progress);
-            },
-            onPlanEvent: (event) => processPlanEvent(event, planStoreRef.current),
-            onDocumentIndex: (uiComponent, current) => processDocumentIndex(uiComponent, current),
-            onCitations: (citations) => {
-              if (typeof window !== "undefined") window.dispatchEvent(new CustomEvent("onegenui:citations", { detail: { citations } }));
-            },
-          },
+        const treeSync = getTreeSync(chatKey);
+        const requestTree = chat.bridge.getTree() ?? { root: "", elements: {} };
+        const componentState = store.getState().componentState;
+        const messages = await contextStrategy({
+          turns: history,
+          updateTurn: (id, updates) => chat.setConversation((prev) => prev.map((t) => (t.id === id ? { ...t, ...updates } : t))),
+          signal,
         });
+        const sendRequest = async (treePayload: TreePayload): Promise<EventLoopResult> => {
+          const { body, headers } = buildRequest({ prompt, context, currentTree: requestTree, conversation: history, messages, attachments, componentState, treePayload, protocolVersions });
+          streamLog.info("Sending request to API", { api, hasAuth: !!getHeaders, treeMode: treePayload.mode });
+          const connectParams = { api, body, headers, signal, getHeaders, reconnection };
+          const stream = await connection.connect(connectParams);
+          return processStream({
+            stream, turnId, setConversation: chat.setConversation,
+            reconnection,
+            reconnect: () => connection.resume(connectParams),
+            protocol: { versions: protocolVersions, policy: protocolPolicy, onDiagnostic: reportDiagnostic },
+            idleTimeoutMs: typeof idleTimeoutMs === "function" ? idleTimeoutMs(prompt, context) : idleTimeoutMs,
+            handlers: {
+              onPatch: (patches, atomic) => pipeline.push(patches, atomic),
+              onToolProgress: (progress) => {
+                if (!chat.isActive()) return;
+                addProgressRef.current({ toolCallId: progress.toolCallId, toolName: progress.toolName, status: progress.status, message: progress.message, data: progress.data, progress: normalizeDeepResearchProgress(progress.progress) });
+                deepResearch.handleDeepResearchToolProgress(progress);
+              },
+              onPlanEvent: (event) => {
+                if (chat.isActive()) processPlanEvent(event, planStoreRef.current);
+              },
+              onDocumentIndex: (uiComponent, current) => processDocumentIndex(uiComponent, current),
+              onCitations: (citations) => {
+                if (typeof window !== "undefined") window.dispatchEvent(new CustomEvent("onegenui:citations", { detail: { citations } }));
+              },
+              onStreamStart: (capabilities) => treeSync.setCapabilities(capabilities),
+            },
+          });
+        };
+
+        const treePayload = treeSync.payloadFor(requestTree, componentState);
+        let result: EventLoopResult;
+        try {
+          result = await sendRequest(treePayload);
+        } catch (err) {
+          if (treePayload.mode !== "delta" || !isBaseMismatchError(err)) throw err;
+          // The backend lost the base (restart, other replica): resend in full
+          streamLog.warn("Tree delta base rejected, resending full tree", { chatKey, turnId });
+          treeSync.reset();
+          reconnection.reset();
+          result = await sendRequest(treeSync.payloadFor(requestTree, componentState));
+        }
 
         // Flush remaining buffered patches to store BEFORE reading final state
         pipeline.flush();
-        const finalTree = bridge.getTree() ?? { root: "", elements: {} };
+        await pipeline.settled();
+        pipeline.finalize();
+        const finalTree = chat.bridge.getTree() ?? { root: "", elements: {} };
         streamLog.info("Stream completed", { totalPatches: result.patchCount, totalMessages: result.messageCount, treeElementCount: Object.keys(finalTree.elements).length });
         if (signal.aborted) { streamLog.warn("Request aborted before finalization"); return; }
 
-        streamLog.debug("Finalizing turn", { turnId });
-        session.setConversation((prev) => finalizeTurn(prev, turnId, { messages: result.messages, questions: result.questions, suggestions: result.suggestions, treeSnapshot: finalTree, documentIndex: result.documentIndex }));
-        deepResearch.handleCompletion();
-        onComplete?.(finalTree);
+        streamLog.debug("Finalizing turn", { turnId, partial: result.partial });
+        chat.setConversation((prev) => finalizeTurn(prev, turnId, { messages: result.messages, questions: result.questions, suggestions: result.suggestions, treeSnapshot: finalTree, documentIndex: result.documentIndex, status: result.partial ? "partial" : "complete", error: result.interruption?.message }));
+        if (result.partial) {
+          const error = result.interruption ?? new Error("Stream interrupted");
+          if (chat.isActive()) session.setError(error);
+          onError?.(error);
+          if (chat.isActive()) deepResearch.handleError(error.message);
+          return;
+        }
+        treeSync.acknowledge(finalTree, componentState);
+        if (chat.isActive()) {
+          deepResearch.handleCompletion();
+          onComplete?.(finalTree);
+        } else {
+          streamLog.info("Background stream completed", { chatKey, turnId });
+          onBackgroundComplete?.(chatKey, finalTree, chat.getConversation());
+        }
       } catch (err) {
         pipeline.reset();
+        pipeline.finalize();
         if ((err as Error).name === "AbortError") {
           streamLog.info("Request aborted", { turnId });
-          deepResearch.handleAbort();
-          session.setConversation((prev) => removeTurn(prev, turnId));
+          if (chat.isActive()) deepResearch.handleAbort();
+          // A cancelled edit or regeneration gives the fork back to the previous version
+          const restored = removeTurnBranch(chat.getConversation(), turnId);
+          if (restored) {
+            chat.bridge.setTree(getActivePathTree(restored) ?? { root: "", elements: {} });
+            chat.setConversation((prev) => removeTurnBranch(prev, turnId) ?? removeTurn(prev, turnId));
+          } else {
+            chat.setConversation((prev) => removeTurn(prev, turnId));
+          }
           return;
         }
         const error = err instanceof Error ? err : new Error(String(err));
-        streamLog.error("Stream error", { error: error.message, turnId });
-        session.setError(error);
+        streamLog.error("Stream error", { error: error.message, turnId, chatKey });
+        if (chat.isActive()) session.setError(error);
         onError?.(error);
-        deepResearch.handleError(error.message);
-        session.setConversation((prev) => markTurnFailed(prev, turnId, error.message));
+        if (chat.isActive()) deepResearch.handleError(error.message);
+        chat.setConversation((prev) => markTurnFailed(prev, turnId, error.message));
       } finally {
-        session.sendingRef.current = false;
-        connection.clearControllers();
-        session.setIsStreaming(false);
-        bridge.setStreaming(false);
-        streamLog.debug("Send completed");
+        session.endStream(chat);
+        connection.releaseController(chatKey);
+        chat.bridge.setStreaming(false);
+        streamLog.debug("Send completed", { chatKey });
+
+        // Next queued prompt continues from the tree this turn produced.
+        // Stopping a turn pauses the queue: the prompts wait for the next turn.
+        const next = unmountedRef.current || signal.aborted ? undefined : promptQueue.shift(chatKey);
+        if (next) {
+          streamLog.info("Running queued prompt", { chatKey, turnId: next.id });
+          void runTurnRef.current?.(next.prompt, next.context, next.attachments, { chatKey, turn: next.turn, seed: chat });
+        }
       }
     },
-    [api, onComplete, onError, setTree, getChatId, getHeaders, bridge, connection, session, processStream, pipelineHook, deepResearch],
+    [api, onComplete, onError, onBackgroundComplete, getChatSession, getActiveChatKey, getHeaders, isForeground, store, bridge, connection, session, processStream, pipelineHook, deepResearch, promptQueue, addToQueue, getTreeSync, contextStrategy, protocolPolicy, reportDiagnostic, protocolVersions, idleTimeoutMs],
+  );
+  runTurnRef.current = runTurn;
+
+  const send = useCallback(
+    (prompt: string, context?: Record<string, unknown>, attachments?: Attachment[]) => runTurn(prompt, context, attachments),
+    [runTurn],
+  );
+
+  const enqueue = useCallback(
+    (prompt: string, context?: Record<string, unknown>, attachments?: Attachment[]) => {
+      const chatKey = (context?.chatId as string | undefined) ?? getActiveChatKey();
+      if (session.streamsRef.current.has(chatKey)) return addToQueue(chatKey, prompt, context, attachments);
+      const turn = createPendingTurn(prompt, { isProactive: context?.hideUserMessage === true, attachments });
+      void runTurn(prompt, context, attachments, { chatKey, turn });
+      return turn.id;
+    },
+    [getActiveChatKey, session, addToQueue, runTurn],
+  );
+
+  const removeFromQueue = useCallback(
+    (id: string) => {
+      const entry = promptQueue.remove(id);
+      if (entry) syncQueue(entry.chatId);
+    },
+    [promptQueue, syncQueue],
+  );
+
+  const reorderQueue = useCallback(
+    (id: string, toIndex: number) => {
+      const entry = promptQueue.reorder(id, toIndex);
+      if (entry) syncQueue(entry.chatId);
+    },
+    [promptQueue, syncQueue],
+  );
+
+  const queue = useMemo<QueuedPrompt[]>(
+    () => promptQueue.entries
+      .filter((entry) => isForeground(entry.chatId))
+      .map(({ id, chatId, prompt, context, attachments, enqueuedAt }) => ({ id, chatId, prompt, context, attachments, enqueuedAt })),
+    [promptQueue.entries, isForeground],
   );
 
+  const clear = useCallback(() => {
+    promptQueue.clear(getActiveChatKey());
+    session.clear();
+    setDiagnostics([]);
+  }, [promptQueue, getActiveChatKey, session]);
+
   const answerQuestion = useCallback(
     (turnId: string, questionId: string, answers: Record<string, unknown>) => {
       const turn = session.conversation.find((t) => t.id === turnId);
@@ -193,49 +408,121 @@ export function useUIStream({
   const loadSession = useCallback(
     (sess: { tree: UITree; conversation: ConversationTurn[] }) => {
       const rootEl = sess.tree?.elements?.[sess.tree?.root];
+      // Sessions saved without a tree resume from the active path's latest snapshot
+      const tree = sess.tree ?? getActivePathTree(sess.conversation ?? []);
       log.debug("[useUIStream] loadSession called", { hasTree: !!sess.tree, rootKey: sess.tree?.root, rootChildrenCount: rootEl?.children?.length, elementsCount: sess.tree?.elements ? Object.keys(sess.tree.elements).length : 0, conversationLength: sess.conversation?.length });
-      setTree(sess.tree);
+      setTree(tree);
       session.setConversation(sess.conversation);
-      session.conversationRef.current = sess.conversation;
-      setHistory([]); setHistoryIndex(-1);
-      log.debug("[useUIStream] loadSession complete, tree set");
+      clearHistory();
+      // A chat still streaming in the background is fresher than its saved snapshot
+      const live = session.streamsRef.current.get(getActiveChatKey());
+      if (live) {
+        live.attach();
+        bridge.setStreaming(true);
+      } else {
+        bridge.setStreaming(false);
+      }
+      log.debug("[useUIStream] loadSession complete, tree set", { resumedLiveStream: !!live });
     },
-    [setTree, setHistory, setHistoryIndex],
+    [setTree, clearHistory, getActiveChatKey, bridge],
   );
 
   const deleteTurn = useCallback(
     (turnId: string) => {
-      pushHistory();
+      if (promptQueue.forChat(getActiveChatKey()).some((entry) => entry.id === turnId)) {
+        removeFromQueue(turnId);
+        return;
+      }
+      pushHistory("Delete turn");
+      const branched = removeTurnBranch(session.conversation, turnId);
+      if (branched) {
+        setTree(getActivePathTree(branched) ?? { root: "", elements: {} });
+        session.setConversation(branched);
+        return;
+      }
       const result = rollbackToTurn(session.conversation, turnId);
       if (!result) return;
       setTree(result.restoredTree ?? { root: "", elements: {} });
       session.setConversation(result.newConversation);
     },
-    [session.conversation, pushHistory, setTree],
+    [session.conversation, pushHistory, setTree, promptQueue, getActiveChatKey, removeFromQueue],
+  );
+
+  // ── Branching — edits and regenerations become sibling versions ─────────
+  const branchTurn = useCallback(
+    async (turnId: string, prompt: string) => {
+      const chatKey = getActiveChatKey();
+      if (session.streamsRef.current.has(chatKey)) {
+        streamLog.warn("Ignoring branch while streaming", { turnId, chatKey });
+        return;
+      }
+      const conversation = session.conversationRef.current;
+      const index = findForkIndex(conversation, turnId);
+      const source = conversation[index];
+      if (!source) return;
+      pushHistory("Branch turn");
+      const restoredTree = getActivePathTree(conversation.slice(0, index));
+      const turn = createPendingTurn(prompt, { isProactive: source.isProactive, attachments: source.attachments });
+      const next = forkTurn(conversation, turnId, turn);
+      setTree(restoredTree);
+      session.setConversation(next);
+      const context = restoredTree ? { tree: restoredTree } : undefined;
+      await runTurn(prompt, context, source.attachments, { chatKey, turn });
+    },
+    [getActiveChatKey, session, pushHistory, setTree, runTurn],
   );
 
   const editTurn = useCallback(
-    async (turnId: string, newMessage: string) => {
-      pushHistory();
-      const result = rollbackToTurn(session.conversation, turnId);
-      if (!result) return;
-      setTree(result.restoredTree);
-      session.setConversation(result.newConversation);
-      await send(newMessage, result.restoredTree ? { tree: result.restoredTree } : undefined);
+    (turnId: string, newMessage: string) => branchTurn(turnId, newMessage),
+    [branchTurn],
+  );
+
+  const regenerate = useCallback(
+    async (turnId: string) => {
+      const turn = session.conversationRef.current[findForkIndex(session.conversationRef.current, turnId)];
+      if (turn) await branchTurn(turnId, turn.userMessage);
     },
-    [session.conversation, send, pushHistory, setTree],
+    [session, branchTurn],
+  );
+
+  const switchBranch = useCallback(
+    (turnId: string, index: number) => {
+      if (session.streamsRef.current.has(getActiveChatKey())) {
+        streamLog.warn("Ignoring branch switch while streaming", { turnId });
+        return;
+      }
+      const conversation = session.conversationRef.current;
+      const next = switchTurnBranch(conversation, turnId, index);
+      if (next === conversation) return;
+      pushHistory("Switch branch");
+      setTree(getActivePathTree(next) ?? { root: "", elements: {} });
+      session.setConversation(next);
+    },
+    [getActiveChatKey, session, pushHistory, setTree],
+  );
+
+  const getBranches = useCallback(
+    (turnId: string) => getTurnBranches(session.conversation, turnId),
+    [session.conversation],
   );
 
   const abort = useCallback(() => {
-    connection.abort(); session.sendingRef.current = false; session.setIsStreaming(false);
-  }, []);
+    const chatKey = getActiveChatKey();
+    connection.abort(chatKey);
+    const live = session.streamsRef.current.get(chatKey);
+    if (live) session.endStream(live);
+  }, [getActiveChatKey]);
 
-  useEffect(() => () => { pipelineHook.cleanup(); connection.abort(); }, []);
+  useEffect(() => () => { unmountedRef.current = true; pipelineHook.cleanup(); connection.abort(); }, []);
 
   return {
     tree, conversation: session.conversation, isStreaming: session.isStreaming,
-    error: session.error, send, clear: session.clear, loadSession,
+    streamingChatIds: session.streamingChatKeys,
+    error: session.error, diagnostics, send, clear, loadSession,
+    queue, enqueue, removeFromQueue, reorderQueue,
     removeElement, removeSubItems, updateElement, updateElementLayout,
-    deleteTurn, editTurn, undo, redo, canUndo, canRedo, answerQuestion, abort,
+    deleteTurn, editTurn, regenerate, switchBranch, getBranches, undo, redo, canUndo, canRedo,
+    historyTimeline: timeline, beginHistoryGroup: beginGroup, endHistoryGroup: endGroup,
+    answerQuestion, abort,
   };
 }
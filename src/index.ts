@@ -107,6 +107,14 @@ export {
   type UseElementStateOptions,
 } from "./hooks/useElementState";
 
+// Element Streaming State Hook (per-element streaming lifecycle)
+export {
+  useElementStreamingState,
+  getElementStreamingState,
+  type ElementStreamingPhase,
+  type ElementStreamingState,
+} from "./hooks";
+
 // Tool Progress Context (real-time tool execution tracking)
 export {
   ToolProgressProvider,
@@ -148,8 +156,31 @@ export {
   type SinglePropChange,
 } from "./contexts/edit-mode";
 
+// Undo Manager (one chronological undo stack for tree, inline and state edits)
+export {
+  UndoManagerProvider,
+  useUndoManager,
+  useUndoStack,
+  useUndoShortcuts,
+  defaultUndoManager,
+  type UndoManagerProviderProps,
+  type UseUndoShortcutsOptions,
+} from "./contexts/undo-manager";
+export {
+  createUndoManager,
+  type UndoManager,
+  type UndoManagerOptions,
+  type UndoCommand,
+  type UndoEntryInfo,
+  type UndoSource,
+} from "./hooks/history/undo-manager";
+
 // Renderer - Main UI rendering components
-export { Renderer, createRendererFromCatalog } from "./renderer.js";
+export {
+  Renderer,
+  createRendererFromCatalog,
+  type CatalogRendererProps,
+} from "./renderer.js";
 
 // Renderer module (modular components from renderer directory)
 export {
@@ -159,6 +190,17 @@ export {
   ChildSkeleton,
   isPlaceholderElement,
   elementRendererPropsAreEqual,
+  VirtualizedChildren,
+  scrollToElement,
+  resolveVirtualizeOptions,
+  validateProps,
+  createCatalogRegistry,
+  PropValidationPlaceholder,
+  type PropValidationIssue,
+  type PropValidationFailure,
+  type VirtualizeOptions,
+  type VirtualizableComponent,
+  type VirtualizedChildrenProps,
   type ComponentRenderProps,
   type ComponentRenderer,
   type ComponentRegistry,
@@ -178,12 +220,75 @@ export {
   useLayoutManager,
   getResizeCursor,
   flatToTree,
+  diffTrees,
+  touchAncestors,
+  createFetchSSETransport,
+  createWebSocketTransport,
+  createInMemoryTransport,
+  createRecordingTransport,
+  createReplayTransport,
+  replayCassetteToTree,
+  hashTree,
+  TREE_DELTA_CAPABILITY,
+  TREE_BASE_MISMATCH_CODE,
+  type TreePayload,
+  type ProtocolPolicy,
+  type ProtocolDiagnostic,
+  type ParseFrameOptions,
+  DEFAULT_FRAME_BUDGET_MS,
+  type PatchPipelineMetrics,
+  createElementVisibilityTracker,
+  type ElementVisibilityTracker,
+  startPatchWorker,
+  createPatchWorkerClient,
+  type PatchWorkerClient,
+  type PatchWorkerScope,
+  STREAM_IDLE_TIMEOUT_CODE,
+  isIdleTimeoutError,
+  createFrameParser,
+  detectProtocolVersion,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  PROTOCOL_VERSIONS_HEADER,
+  type ProtocolVersion,
+  type FrameParser,
+  type FrameParserOptions,
+  createHistoryEngine,
+  type HistoryEngine,
+  type HistoryEngineOptions,
+  type HistoryTimelineEntry,
+  type StreamTransport,
+  type TransportRequest,
+  type TransportStream,
+  type FetchSSETransportOptions,
+  type WebSocketTransportOptions,
+  type InMemoryFrameSource,
+  type StreamCassette,
+  type CassetteFrame,
+  type RecordingTransportOptions,
+  type ReplaySpeed,
+  type ReplayController,
+  type ReplayTransport,
+  type ReplayTransportOptions,
+  type CassetteReplayResult,
   type UseUIStreamOptions,
   type UseUIStreamReturn,
   type ConversationTurn,
+  type QueuedPrompt,
+  type ConversationBranch,
   type ConversationMessage,
+  type ContextStrategy,
+  type ContextWindowInput,
   buildConversationMessages,
+  estimateTokens,
+  createFullHistoryStrategy,
+  createLastTurnsStrategy,
+  createTokenBudgetStrategy,
+  createRollingSummaryStrategy,
+  type ConversationSummarizer,
+  type TokenBudgetStrategyOptions,
+  type RollingSummaryStrategyOptions,
   type ChatMessage,
+  type ChatMessagePart,
   type FlatElement,
   type FormField,
   type QuestionPayload,
@@ -235,6 +340,8 @@ export {
   getLayoutStyles,
   createLayout,
   ToolProgressOverlay,
+  MessageParts,
+  defaultMessagePartRenderers,
   // Canvas integration
   CanvasBlock,
   DocumentBlock,
@@ -244,6 +351,10 @@ export {
   type FreeGridCanvasProps,
   type GridCellProps,
   type ToolProgressOverlayProps,
+  type MessagePartsProps,
+  type MessagePartRenderers,
+  type MessagePartRendererProps,
+  type MessagePartType,
   type CanvasBlockProps,
   type DocumentBlockProps,
 } from "./components";
@@ -266,6 +377,10 @@ export {
 // Store (Zustand)
 export {
   useStore,
+  useOneGenUIStore,
+  createOneGenUIStore,
+  getStoreSnapshot,
+  OneGenUIStoreProvider,
   useUIStore,
   useDeepSelections,
   useDeepSelectionActive,
@@ -341,6 +456,10 @@ export {
   type McpServerStatus,
   type McpTransportView,
   type McpToolView,
+  type OneGenUIStore,
+  type StoreSnapshot,
+  type CreateStoreOptions,
+  type OneGenUIStoreProviderProps,
   // Note: DeepSelectionInfo is exported from ./contexts/selection
 } from "./store";
 
@@ -14,6 +14,11 @@ import type {
 } from "./renderer/types";
 import { ElementRenderer } from "./renderer/element-renderer";
 import { JSONUIProvider } from "./renderer/provider";
+import {
+  createCatalogRegistry,
+  PropValidationContext,
+} from "./renderer/catalog-registry";
+import type { PropValidationFailure } from "./renderer/prop-validation";
 
 // Re-export types for convenience
 export type {
@@ -119,15 +124,37 @@ export function Renderer({
 }
 
 /**
- * Helper to create a renderer component from a catalog
+ * Props for a renderer created with createRendererFromCatalog
+ */
+export interface CatalogRendererProps extends Omit<RendererProps, "registry"> {
+  /**
+   * Called when an element's props still fail its catalog schema after
+   * defaults and repairs (e.g. to send the issues to the model next turn)
+   */
+  onPropValidationError?: (failure: PropValidationFailure) => void;
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Helper to create a renderer component from a catalog. Element props are
+ * validated against the catalog's component schemas before rendering.
  */
 export function createRendererFromCatalog<
   C extends Catalog<Record<string, ComponentDefinition>>,
 >(
-  _catalog: C,
+  catalog: C,
   registry: ComponentRegistry,
-): ComponentType<Omit<RendererProps, "registry">> {
-  return function CatalogRenderer(props: Omit<RendererProps, "registry">) {
-    return <Renderer {...props} registry={registry} />;
+): ComponentType<CatalogRendererProps> {
+  const validatedRegistry = createCatalogRegistry(catalog, registry);
+
+  return function CatalogRenderer({
+    onPropValidationError,
+    ...props
+  }: CatalogRendererProps) {
+    return (
+      <PropValidationContext.Provider value={onPropValidationError}>
+        <Renderer {...props} registry={validatedRegistry} />
+      </PropValidationContext.Provider>
+    );
   };
 }
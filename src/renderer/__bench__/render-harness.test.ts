@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import type { JsonPatch, UITree } from "@onegenui/core";
+import { applyPatchesBatch } from "../../hooks/patch-utils";
+import { countRenders, createStreamingBatches, runStreaming } from "./render-harness";
+
+function streamTree(size: number): UITree {
+  return createStreamingBatches(size).reduce(
+    (tree, batch) => applyPatchesBatch(tree, batch),
+    { root: "", elements: {} } as UITree,
+  );
+}
+
+describe("render harness", () => {
+  it("renders every element of a new tree", () => {
+    const tree = streamTree(100);
+    expect(countRenders(null, tree)).toBe(100);
+  });
+
+  it("re-renders only the path to a changed element", () => {
+    const tree = streamTree(1_000);
+    const patch = { op: "set", path: "/elements/section-3-item-7/props/title", value: "x" } as JsonPatch;
+    const next = applyPatchesBatch(tree, [patch]);
+
+    // root → section-3 → section-3-item-7
+    expect(countRenders(tree, next)).toBe(3);
+  });
+
+  it("renders as many elements through React as it predicts", () => {
+    let tree = { root: "", elements: {} } as UITree;
+    let predicted = 0;
+    for (const batch of createStreamingBatches(100)) {
+      const next = applyPatchesBatch(tree, batch);
+      predicted += countRenders(tree, next);
+      tree = next;
+    }
+
+    const result = runStreaming(100);
+    expect(result.elements).toBe(100);
+    expect(result.renders).toBe(predicted);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Render harness - Streams trees through Renderer and counts renders
+ *
+ * runStreaming mounts Renderer with react-dom and commits every batch
+ * synchronously; the registry components count how many elements React
+ * actually rendered and a Profiler measures the commit time. countRenders
+ * predicts the same count without a DOM by walking the tree the way React
+ * reconciles ElementRenderer.
+ */
+
+import React, { Profiler, type ReactNode } from "react";
+import { flushSync } from "react-dom";
+import { createRoot } from "react-dom/client";
+import type { JsonPatch, UIElement, UITree } from "@onegenui/core";
+import { applyPatchesBatch, isPlaceholder } from "../../hooks/patch-utils";
+import { Renderer } from "../../renderer";
+import { JSONUIProvider } from "../provider";
+import { elementRendererPropsAreEqual } from "../memo-utils";
+import type { ComponentRegistry, ElementRendererProps } from "../types";
+
+function rendererProps(tree: UITree, element: UIElement): ElementRendererProps {
+  return { element, tree, registry: {}, selectionDelayMs: 0 };
+}
+
+/**
+ * Number of component renders caused by going from `prev` to `next`.
+ * Placeholders render a skeleton, not a component, and are not counted.
+ */
+export function countRenders(prev: UITree | null, next: UITree): number {
+  let renders = 0;
+  const seen = new Set<string>();
+  const visit = (key: string) => {
+    if (seen.has(key)) return;
+    seen.add(key);
+    const element = next.elements[key];
+    if (!element) return;
+    const prevElement = prev?.elements[key];
+    if (
+      prev &&
+      prevElement &&
+      elementRendererPropsAreEqual(rendererProps(prev, prevElement), rendererProps(next, element))
+    ) {
+      return;
+    }
+    if (!isPlaceholder(element)) renders++;
+    for (const childKey of element.children ?? []) visit(childKey);
+  };
+  visit(next.root);
+  return renders;
+}
+
+/**
+ * Patches streaming a tree of `size` elements: root → sections → items
+ * (20 items per section). Parents arrive before their children, then each
+ * item receives one prop update, `batchSize` patches per frame. Elements are
+ * not resizable, so only ElementRenderer and the components render.
+ */
+export function createStreamingBatches(size: number, batchSize = 20): JsonPatch[][] {
+  const itemsPerSection = 20;
+  const sectionCount = Math.max(1, Math.ceil((size - 1) / (itemsPerSection + 1)));
+  const patches: JsonPatch[] = [{ op: "set", path: "/root", value: "root" } as JsonPatch];
+  const element = (key: string, type: string, parentKey: string | undefined, children: string[]) =>
+    ({
+      op: "set",
+      path: `/elements/${key}`,
+      value: { key, type, props: { title: key }, children, parentKey, layout: { resizable: false } },
+    }) as JsonPatch;
+
+  const sectionKeys = Array.from({ length: sectionCount }, (_, i) => `section-${i}`);
+  patches.push(element("root", "Stack", undefined, sectionKeys));
+
+  let remaining = size - 1;
+  const itemKeys: string[] = [];
+  for (const sectionKey of sectionKeys) {
+    if (remaining <= 0) break;
+    remaining--;
+    const count = Math.min(itemsPerSection, remaining);
+    remaining -= count;
+    const keys = Array.from({ length: count }, (_, i) => `${sectionKey}-item-${i}`);
+    patches.push(element(sectionKey, "Card", "root", keys));
+    for (const key of keys) {
+      patches.push(element(key, "Text", sectionKey, []));
+      itemKeys.push(key);
+    }
+  }
+  for (const key of itemKeys) {
+    patches.push({ op: "set", path: `/elements/${key}/props/title`, value: `${key} (done)` } as JsonPatch);
+  }
+
+  const batches: JsonPatch[][] = [];
+  for (let i = 0; i < patches.length; i += batchSize) {
+    batches.push(patches.slice(i, i + batchSize));
+  }
+  return batches;
+}
+
+export interface StreamingRunResult {
+  elements: number;
+  batches: number;
+  /** Component renders over the whole stream */
+  renders: number;
+  /** Most renders caused by one batch */
+  maxRendersPerBatch: number;
+  applyMs: number;
+  /** React commit time reported by the Profiler */
+  renderMs: number;
+}
+
+/** Stream a generated tree batch by batch, rendering it after each batch */
+export function runStreaming(size: number, batchSize = 20): StreamingRunResult {
+  const batches = createStreamingBatches(size, batchSize);
+  let tree: UITree = { root: "", elements: {} };
+  let renders = 0;
+  let maxRendersPerBatch = 0;
+  let applyMs = 0;
+  let renderMs = 0;
+
+  const counted = ({ children }: { children?: ReactNode }) => {
+    renders++;
+    return <div>{children}</div>;
+  };
+  const registry: ComponentRegistry = { Stack: counted, Card: counted, Text: counted };
+  const onRender = (_id: string, _phase: string, actualDuration: number) => {
+    renderMs += actualDuration;
+  };
+  let renderError: Error | undefined;
+  const container = document.createElement("div");
+  const root = createRoot(container);
+  const render = (current: UITree) =>
+    flushSync(() =>
+      root.render(
+        <Profiler id="stream" onRender={onRender}>
+          <JSONUIProvider registry={registry}>
+            <Renderer
+              tree={current}
+              registry={registry}
+              autoGrid={false}
+              onError={(error) => { renderError ??= error; }}
+            />
+          </JSONUIProvider>
+        </Profiler>,
+      ),
+    );
+
+  try {
+    render(tree);
+    for (const batch of batches) {
+      const start = performance.now();
+      tree = applyPatchesBatch(tree, batch);
+      applyMs += performance.now() - start;
+
+      const before = renders;
+      render(tree);
+      if (renderError) throw renderError;
+      maxRendersPerBatch = Math.max(maxRendersPerBatch, renders - before);
+    }
+  } finally {
+    root.unmount();
+  }
+
+  return {
+    elements: Object.keys(tree.elements).length,
+    batches: batches.length,
+    renders,
+    maxRendersPerBatch,
+    applyMs,
+    renderMs,
+  };
+}
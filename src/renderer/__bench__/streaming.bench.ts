@@ -0,0 +1,32 @@
+/**
+ * Streaming render benchmark
+ *
+ * Streams generated trees of 100, 1,000 and 5,000 elements (20 patches per
+ * frame) through Renderer and measures patch application plus the React
+ * renders the memo comparator lets through. Render counts are printed once
+ * per size.
+ *
+ *   npx vitest bench src/renderer/__bench__
+ */
+
+import { bench, describe } from "vitest";
+import { runStreaming } from "./render-harness";
+
+const SIZES = [100, 1_000, 5_000];
+
+describe("streaming into a tree", () => {
+  for (const size of SIZES) {
+    let reported = false;
+
+    bench(`${size} elements`, () => {
+      const { elements, batches, renders, maxRendersPerBatch, applyMs, renderMs } = runStreaming(size);
+      if (reported) return;
+      reported = true;
+      console.info(
+        `[bench] ${size} elements: ${elements} in tree, ${batches} batches, ` +
+          `${renders} renders (max ${maxRendersPerBatch}/batch), ` +
+          `apply ${applyMs.toFixed(1)}ms, render ${renderMs.toFixed(1)}ms`,
+      );
+    }, { iterations: size >= 5_000 ? 3 : 10 });
+  }
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from "vitest";
+import React from "react";
+import { render } from "@testing-library/react";
+import type { UIElement } from "@onegenui/core";
+import { createCatalogRegistry, PropValidationContext } from "./catalog-registry";
+import type { PropsSchema } from "./prop-validation";
+import type { ComponentRenderProps } from "./types";
+
+/** Requires a string `label` */
+const labelSchema: PropsSchema = {
+  safeParse(value) {
+    const { label } = value as { label?: unknown };
+    return typeof label === "string"
+      ? { success: true, data: value }
+      : {
+          success: false,
+          error: { issues: [{ code: "invalid_type", path: ["label"], message: "Required", expected: "string" }] },
+        };
+  },
+};
+
+const catalog = { components: { Badge: { props: labelSchema } } } as never;
+const registry = createCatalogRegistry(catalog, {
+  Badge: ({ element }) => <span data-testid="badge">{String(element.props.label)}</span>,
+});
+const Badge = registry.Badge!;
+
+function badge(props: Record<string, unknown>): UIElement {
+  return { key: "badge", type: "Badge", props } as UIElement;
+}
+
+describe("createCatalogRegistry", () => {
+  it("renders a skeleton for invalid props while streaming and reports them once finalized", () => {
+    const onPropValidationError = vi.fn();
+    const element = badge({});
+    const renderBadge = (props: Partial<ComponentRenderProps>) => (
+      <PropValidationContext.Provider value={onPropValidationError}>
+        <Badge element={element} {...props} />
+      </PropValidationContext.Provider>
+    );
+
+    const view = render(renderBadge({ streaming: { phase: "receiving-props", isStreaming: true } }));
+    expect(view.container.querySelector("[data-prop-validation-pending='badge']")).not.toBeNull();
+    expect(view.container.querySelector("[data-testid='badge']")).toBeNull();
+    expect(onPropValidationError).not.toHaveBeenCalled();
+
+    view.rerender(renderBadge({ streaming: { phase: "finalized", isStreaming: false } }));
+    expect(view.container.querySelector("[role='alert']")?.textContent).toContain("Invalid props for Badge");
+    expect(onPropValidationError).toHaveBeenCalledTimes(1);
+    expect(onPropValidationError).toHaveBeenCalledWith(
+      expect.objectContaining({ elementKey: "badge", type: "Badge" }),
+    );
+  });
+
+  it("renders valid props while streaming", () => {
+    const view = render(
+      <Badge element={badge({ label: "New" })} streaming={{ phase: "receiving-props", isStreaming: true }} />,
+    );
+
+    expect(view.container.querySelector("[data-testid='badge']")?.textContent).toBe("New");
+  });
+});
@@ -0,0 +1,155 @@
+"use client";
+
+/**
+ * Catalog Registry - Validates element props before components render
+ *
+ * Wraps each registry component that has a props schema in the catalog.
+ * The wrapper renders the component with validated props (defaults and
+ * repairs applied) or, when props are still invalid, a diagnostic
+ * placeholder in its place. While the element is streaming its props are
+ * often incomplete: invalid ones render a skeleton, and failures are
+ * reported once the element has stopped streaming.
+ */
+
+import { createContext, useContext, useEffect, type ReactNode } from "react";
+import type { Catalog, ComponentDefinition, UIElement } from "@onegenui/core";
+import {
+  getPropsSchema,
+  validateProps,
+  type PropValidationFailure,
+  type PropValidationIssue,
+  type PropValidationResult,
+  type PropsSchema,
+} from "./prop-validation";
+import type {
+  ComponentRegistry,
+  ComponentRenderer,
+  ComponentRenderProps,
+} from "./types";
+
+export const PropValidationContext = createContext<
+  ((failure: PropValidationFailure) => void) | undefined
+>(undefined);
+
+/**
+ * Shown in place of an element whose props are invalid. Its children still
+ * render below the message.
+ */
+export function PropValidationPlaceholder({
+  element,
+  issues,
+  children,
+}: {
+  element: UIElement;
+  issues: PropValidationIssue[];
+  children?: ReactNode;
+}) {
+  return (
+    <div
+      role="alert"
+      className="p-3 rounded-lg bg-destructive/10 border border-destructive/20 text-sm"
+      data-prop-validation-error={element.key}
+    >
+      <p className="font-semibold text-destructive">
+        Invalid props for {element.type}
+      </p>
+      <ul className="mt-1 text-xs text-muted-foreground">
+        {issues.map((issue, i) => (
+          <li key={i}>
+            <code>{issue.path || "props"}</code>: {issue.message}
+          </li>
+        ))}
+      </ul>
+      {children}
+    </div>
+  );
+}
+
+function withPropValidation(
+  Component: ComponentRenderer,
+  schema: PropsSchema,
+): ComponentRenderer {
+  // Results per element reference: unchanged elements are not re-validated
+  const results = new WeakMap<UIElement, PropValidationResult & { element: UIElement }>();
+
+  const validate = (element: UIElement) => {
+    let result = results.get(element);
+    if (!result) {
+      const validation = validateProps(
+        (element.props ?? {}) as Record<string, unknown>,
+        schema,
+      );
+      result = {
+        ...validation,
+        element:
+          validation.props === element.props
+            ? element
+            : ({ ...element, props: validation.props } as UIElement),
+      };
+      results.set(element, result);
+    }
+    return result;
+  };
+
+  function ValidatedComponent(props: ComponentRenderProps) {
+    const { element, streaming, loading } = props;
+    const onPropValidationError = useContext(PropValidationContext);
+    const result = validate(element as UIElement);
+    // Elements still arriving (or a loading tree without phases) get a pass
+    const pending =
+      streaming?.isStreaming || (streaming?.phase == null && loading);
+
+    useEffect(() => {
+      if (result.valid || pending) return;
+      onPropValidationError?.({
+        elementKey: element.key,
+        type: element.type,
+        props: (element.props ?? {}) as Record<string, unknown>,
+        issues: result.issues,
+      });
+    }, [result, pending, element, onPropValidationError]);
+
+    if (!result.valid && pending) {
+      return (
+        <div
+          className="w-full min-h-16 bg-muted/10 animate-pulse rounded-lg my-2 border border-border/20"
+          aria-busy="true"
+          data-prop-validation-pending={element.key}
+        >
+          {props.children}
+        </div>
+      );
+    }
+
+    if (!result.valid) {
+      return (
+        <PropValidationPlaceholder
+          element={element as UIElement}
+          issues={result.issues}
+        >
+          {props.children}
+        </PropValidationPlaceholder>
+      );
+    }
+
+    return <Component {...props} element={result.element} />;
+  }
+
+  ValidatedComponent.displayName = `Validated(${Component.displayName ?? Component.name ?? "Component"})`;
+  return Object.assign(ValidatedComponent, { virtualize: Component.virtualize });
+}
+
+/**
+ * Wrap the registry components that have a props schema in the catalog
+ */
+export function createCatalogRegistry(
+  catalog: Catalog<Record<string, ComponentDefinition>>,
+  registry: ComponentRegistry,
+): ComponentRegistry {
+  const validated: ComponentRegistry = {};
+  for (const [type, Component] of Object.entries(registry)) {
+    const schema = getPropsSchema(catalog, type);
+    validated[type] = schema ? withPropValidation(Component, schema) : Component;
+  }
+  return validated;
+}
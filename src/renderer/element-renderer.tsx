@@ -1,7 +1,6 @@
 "use client";
 
 import React, { type ReactNode, useMemo } from "react";
-import type { UIElement, UITree } from "@onegenui/core";
 import { useIsVisible } from "../contexts/visibility";
 import { useActions } from "../contexts/actions";
 import { useMarkdown } from "../contexts/markdown";
@@ -10,99 +9,15 @@ import { ResizableWrapper } from "../components/ResizableWrapper";
 import { SelectionWrapper } from "../components/SelectionWrapper";
 import { EditableWrapper } from "../components/EditableWrapper";
 import { createRenderEditableText } from "../hooks/useRenderEditableText";
-import type { ComponentRegistry, ComponentRenderer } from "./types";
-
-interface ElementRendererProps {
-  element: UIElement;
-  tree: UITree;
-  registry: ComponentRegistry;
-  loading?: boolean;
-  fallback?: ComponentRenderer;
-  selectable?: boolean;
-  onElementSelect?: (element: UIElement) => void;
-  selectionDelayMs: number;
-  selectedKey?: string | null;
-  onResize?: (
-    elementKey: string,
-    size: { width: number; height: number },
-  ) => void;
-}
-
-/**
- * Recursively checks if any descendant element has changed between two trees.
- * This ensures parent components re-render when deeply nested children update.
- */
-function hasDescendantChanged(
-  elementKey: string,
-  prevTree: UITree,
-  nextTree: UITree,
-  visited: Set<string> = new Set(),
-): boolean {
-  // Prevent infinite loops in case of circular references
-  if (visited.has(elementKey)) return false;
-  visited.add(elementKey);
-
-  const prevElement = prevTree.elements[elementKey];
-  const nextElement = nextTree.elements[elementKey];
-
-  // Element itself changed
-  if (prevElement !== nextElement) {
-    return true;
-  }
-
-  // Check all children recursively
-  const children = prevElement?.children;
-  if (Array.isArray(children)) {
-    for (const childKey of children) {
-      if (hasDescendantChanged(childKey, prevTree, nextTree, visited)) {
-        return true;
-      }
-    }
-  }
-
-  return false;
-}
-
-/**
- * Memoization comparator: structural sharing in patch-utils.ts means only
- * modified elements get new references. This enables O(1) equality checks
- * for leaf nodes, with recursive descent for container components.
- */
-function elementRendererPropsAreEqual(
-  prevProps: ElementRendererProps,
-  nextProps: ElementRendererProps,
-): boolean {
-  // Element reference check (structural sharing)
-  if (prevProps.element !== nextProps.element) {
-    return false;
-  }
-
-  const wasSelected = prevProps.selectedKey === prevProps.element.key;
-  const isSelected = nextProps.selectedKey === nextProps.element.key;
-  if (wasSelected !== isSelected) {
-    return false;
-  }
-
-  if (prevProps.loading !== nextProps.loading) {
-    return false;
-  }
-
-  // CRITICAL: When tree changes, check if THIS element or ANY descendant changed
-  // This ensures containers re-render when deeply nested children update
-  if (prevProps.tree !== nextProps.tree) {
-    if (hasDescendantChanged(
-      prevProps.element.key,
-      prevProps.tree,
-      nextProps.tree,
-    )) {
-      return false;
-    }
-  }
-
-  return true;
-}
-
-export const ElementRenderer = React.memo(function ElementRenderer({
+import { getElementStreamingState } from "../hooks/patches/streaming-lifecycle";
+import { getVirtualizeOptions } from "./virtualization";
+import { VirtualizedChildren } from "./virtualized-children";
+import { elementRendererPropsAreEqual } from "./memo-utils";
+import type { ElementRendererProps } from "./types";
+
+// The inner function has its own name: under the export's name, the
+// recursive <ElementRenderer> below would bypass the memo comparator
+export const ElementRenderer = React.memo(function ElementRendererImpl({
   element,
   tree,
   registry,
@@ -150,7 +65,11 @@ export const ElementRenderer = React.memo(function ElementRenderer({
     return null;
   }
 
-  const children = Array.isArray(element.children) ? element.children.map((childKey, index) => {
+  // Opted-in lists always render through VirtualizedChildren, which windows
+  // them from minChildren on: crossing it does not remount the children
+  const virtualize = getVirtualizeOptions(element, Component);
+
+  const renderChild = (childKey: string, index: number) => {
     const childElement = tree.elements[childKey];
     if (!childElement) {
       if (loading) {
@@ -165,7 +84,8 @@ export const ElementRenderer = React.memo(function ElementRenderer({
     }
     return (
       <ElementRenderer
-        key={`${childKey}-${index}`}
+        // Virtualized items have their own keyed wrapper
+        key={virtualize ? childKey : `${childKey}-${index}`}
         element={childElement}
         tree={tree}
         registry={registry}
@@ -178,7 +98,24 @@ export const ElementRenderer = React.memo(function ElementRenderer({
         onResize={onResize}
       />
     );
-  }) : null;
+  };
+
+  let children: ReactNode = null;
+  if (Array.isArray(element.children)) {
+    children = virtualize ? (
+      <VirtualizedChildren
+        childKeys={element.children}
+        tree={tree}
+        options={virtualize}
+        renderChild={renderChild}
+        pinnedKey={selectedKey}
+      />
+    ) : (
+      element.children.map(renderChild)
+    );
+  }
+
+  const streaming = getElementStreamingState(element);
 
   const isResizable = element.layout?.resizable !== false;
   // All elements are editable by default when in edit mode
@@ -191,6 +128,7 @@ export const ElementRenderer = React.memo(function ElementRenderer({
       element={element}
       onAction={execute}
       loading={loading}
+      streaming={streaming}
       renderText={renderText}
       renderEditableText={renderEditableText}
     >
@@ -243,3 +181,5 @@ export const ElementRenderer = React.memo(function ElementRenderer({
 
   return editableContent;
 }, elementRendererPropsAreEqual);
+
+ElementRenderer.displayName = "ElementRenderer";
@@ -25,6 +25,32 @@ export {
   type SkeletonProps,
 } from "./skeleton-loader";
 
+// Virtualization
+export {
+  scrollToElement,
+  resolveVirtualizeOptions,
+  type VirtualizeOptions,
+  type VirtualizableComponent,
+} from "./virtualization";
+export {
+  VirtualizedChildren,
+  type VirtualizedChildrenProps,
+} from "./virtualized-children";
+
+// Catalog prop validation
+export {
+  validateProps,
+  getPropsSchema,
+  type PropsSchema,
+  type PropValidationIssue,
+  type PropValidationResult,
+  type PropValidationFailure,
+} from "./prop-validation";
+export {
+  createCatalogRegistry,
+  PropValidationPlaceholder,
+} from "./catalog-registry";
+
 // Element Renderer
 export { ElementRenderer } from "./element-renderer";
 
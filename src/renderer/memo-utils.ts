@@ -5,15 +5,18 @@
 import type { ElementRendererProps } from "./types";
 
 /**
- * Memoization comparator: structural sharing in patch-utils.ts means only
- * modified elements get new references. This enables O(1) equality checks
- * instead of deep comparison.
+ * Memoization comparator: the patch layer gives every ancestor of a changed
+ * element a new reference (see touchAncestors), so an unchanged element
+ * reference means its whole subtree is unchanged. O(1) per element.
+ *
+ * Trees built outside the patch layer must do the same, or nested changes
+ * will not re-render.
  */
 export function elementRendererPropsAreEqual(
   prevProps: ElementRendererProps,
   nextProps: ElementRendererProps,
 ): boolean {
-  // Element reference check (structural sharing)
+  // Element reference check (structural sharing + touched ancestors)
   if (prevProps.element !== nextProps.element) {
     return false;
   }
@@ -30,20 +33,5 @@ export function elementRendererPropsAreEqual(
     return false;
   }
 
-  // Tree change - check if children have changed
-  if (prevProps.tree !== nextProps.tree) {
-    const children = prevProps.element.children;
-    if (Array.isArray(children)) {
-      for (const childKey of children) {
-        if (
-          prevProps.tree.elements[childKey] !==
-          nextProps.tree.elements[childKey]
-        ) {
-          return false;
-        }
-      }
-    }
-  }
-
   return true;
 }
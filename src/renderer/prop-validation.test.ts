@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { getPropsSchema, validateProps, type PropsSchema } from "./prop-validation";
+
+type Field =
+  | { type: "string" | "number" | "boolean"; default?: unknown }
+  | { type: "enum"; values: string[] }
+  | { type: "array" };
+
+/** Object schema reporting issues the way zod does */
+function objectSchema(fields: Record<string, Field>): PropsSchema {
+  return {
+    safeParse(value) {
+      const input = value as Record<string, unknown>;
+      const data: Record<string, unknown> = {};
+      const issues = [];
+      for (const [key, field] of Object.entries(fields)) {
+        let v = input[key];
+        if (v === undefined && "default" in field) v = field.default;
+        data[key] = v;
+        if (field.type === "enum") {
+          if (!field.values.includes(v as string)) {
+            issues.push({ code: "invalid_enum_value", path: [key], message: "Invalid enum value", options: field.values });
+          }
+        } else if (field.type === "array" ? !Array.isArray(v) : typeof v !== field.type) {
+          issues.push({ code: "invalid_type", path: [key], message: `Expected ${field.type}`, expected: field.type });
+        }
+      }
+      return issues.length
+        ? { success: false, error: { issues } }
+        : { success: true, data };
+    },
+  };
+}
+
+const metricSchema = objectSchema({
+  label: { type: "string" },
+  value: { type: "number" },
+  compact: { type: "boolean", default: false },
+  size: { type: "enum", values: ["sm", "lg"] },
+  series: { type: "array" },
+});
+
+describe("validateProps", () => {
+  it("applies defaults and repairs common mistakes", () => {
+    const result = validateProps(
+      { label: "Revenue", value: " 42.5 ", size: "LG", extra: true },
+      metricSchema,
+    );
+
+    expect(result.valid).toBe(true);
+    expect(result.props).toEqual({
+      label: "Revenue",
+      value: 42.5,
+      compact: false,
+      size: "lg",
+      series: [],
+      extra: true,
+    });
+    expect(result.coerced).toEqual(["/value", "/size", "/series"]);
+  });
+
+  it("reports what cannot be repaired", () => {
+    const result = validateProps({ value: "n/a", size: "medium", series: [] }, metricSchema);
+
+    expect(result.valid).toBe(false);
+    expect(result.issues.map((issue) => issue.path)).toEqual(["/label", "/value", "/size"]);
+  });
+
+  it("returns the same props object when nothing changed", () => {
+    const props = { label: "Revenue", value: 1, compact: true, size: "sm", series: [] };
+
+    expect(validateProps(props, metricSchema).props).toBe(props);
+  });
+});
+
+describe("getPropsSchema", () => {
+  it("returns the schema of a catalog component", () => {
+    const catalog = { components: { Metric: { props: metricSchema } } } as never;
+
+    expect(getPropsSchema(catalog, "Metric")).toBe(metricSchema);
+    expect(getPropsSchema(catalog, "Unknown")).toBeUndefined();
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Prop Validation - Checks element props against catalog component schemas
+ *
+ * Props are parsed with the component definition's schema, so schema
+ * defaults are applied. When parsing fails, common model mistakes are
+ * repaired from the reported issues and the props are parsed again:
+ * - numeric strings where a number is expected ("42" → 42)
+ * - "true" / "false" where a boolean is expected
+ * - a missing array (→ [])
+ * - enum values in the wrong casing ("LARGE" → "large")
+ *
+ * Whatever still fails is returned as issues.
+ */
+
+import type { Catalog, ComponentDefinition } from "@onegenui/core";
+
+/** Issue shape shared by zod 3 and zod 4 (the fields read here) */
+interface SchemaIssue {
+  code: string;
+  path: PropertyKey[];
+  message: string;
+  expected?: string;
+  /** zod 3 invalid_enum_value */
+  options?: readonly unknown[];
+  /** zod 4 invalid_value */
+  values?: readonly unknown[];
+}
+
+/** A component props schema (zod or anything with a compatible safeParse) */
+export interface PropsSchema {
+  safeParse(
+    value: unknown,
+  ):
+    | { success: true; data: unknown }
+    | { success: false; error: { issues: SchemaIssue[] } };
+}
+
+export interface PropValidationIssue {
+  /** Path of the prop, e.g. "/items/0/price" ("" for the props object) */
+  path: string;
+  message: string;
+}
+
+export interface PropValidationResult {
+  valid: boolean;
+  /** Props with defaults and repairs applied (input props when nothing changed) */
+  props: Record<string, unknown>;
+  /** Paths that were repaired */
+  coerced: string[];
+  issues: PropValidationIssue[];
+}
+
+/** Reported through onPropValidationError */
+export interface PropValidationFailure {
+  elementKey: string;
+  type: string;
+  /** Props as the model sent them */
+  props: Record<string, unknown>;
+  issues: PropValidationIssue[];
+}
+
+/** Repair passes before giving up (each pass can uncover nested issues) */
+const MAX_REPAIR_PASSES = 5;
+
+/**
+ * Props schema of a component type, or undefined when the catalog does not
+ * define one
+ */
+export function getPropsSchema(
+  catalog: Catalog<Record<string, ComponentDefinition>>,
+  type: string,
+): PropsSchema | undefined {
+  const components = catalog.components as
+    | Record<string, { props?: unknown }>
+    | undefined;
+  const schema = components?.[type]?.props as Partial<PropsSchema> | undefined;
+  return typeof schema?.safeParse === "function"
+    ? (schema as PropsSchema)
+    : undefined;
+}
+
+function formatPath(path: PropertyKey[]): string {
+  return path.map((segment) => `/${String(segment)}`).join("");
+}
+
+function getAt(value: unknown, path: PropertyKey[]): unknown {
+  let current = value;
+  for (const segment of path) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<PropertyKey, unknown>)[segment];
+  }
+  return current;
+}
+
+/** Copy-on-write set: containers along the path are copied */
+function setAt(value: unknown, path: PropertyKey[], next: unknown): unknown {
+  if (path.length === 0) return next;
+  const [segment, ...rest] = path;
+  const container = (value ?? {}) as Record<PropertyKey, unknown>;
+  const copy = (
+    Array.isArray(container) ? [...container] : { ...container }
+  ) as Record<PropertyKey, unknown>;
+  copy[segment!] = setAt(container[segment!], rest, next);
+  return copy;
+}
+
+/** Structural equality (parsing copies arrays and objects) */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (
+    a === null ||
+    b === null ||
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    Array.isArray(a) !== Array.isArray(b)
+  ) {
+    return false;
+  }
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = Object.keys(aRecord);
+  if (keys.length !== Object.keys(bRecord).length) return false;
+  return keys.every((key) => isEqual(aRecord[key], bRecord[key]));
+}
+
+const NO_REPAIR = Symbol("no-repair");
+
+function repair(issue: SchemaIssue, value: unknown): unknown {
+  if (issue.code === "invalid_type") {
+    if (issue.expected === "number" && typeof value === "string") {
+      const trimmed = value.trim();
+      const number = Number(trimmed);
+      if (trimmed !== "" && Number.isFinite(number)) return number;
+    }
+    if (issue.expected === "boolean" && typeof value === "string") {
+      const lower = value.trim().toLowerCase();
+      if (lower === "true") return true;
+      if (lower === "false") return false;
+    }
+    if (issue.expected === "array" && (value === undefined || value === null)) {
+      return [];
+    }
+    return NO_REPAIR;
+  }
+
+  if (issue.code === "invalid_enum_value" || issue.code === "invalid_value") {
+    const allowed = issue.options ?? issue.values ?? [];
+    if (typeof value !== "string") return NO_REPAIR;
+    const wanted = value.trim().toLowerCase();
+    const match = allowed.find(
+      (option) => typeof option === "string" && option.toLowerCase() === wanted,
+    );
+    return match ?? NO_REPAIR;
+  }
+
+  return NO_REPAIR;
+}
+
+/**
+ * Validate props against a schema, applying defaults and repairs
+ */
+export function validateProps(
+  props: Record<string, unknown>,
+  schema: PropsSchema,
+): PropValidationResult {
+  let candidate: Record<string, unknown> = props;
+  const coerced: string[] = [];
+
+  for (let pass = 0; ; pass++) {
+    const result = schema.safeParse(candidate);
+    if (result.success) {
+      const data = result.data as Record<string, unknown> | undefined;
+      // Keep props the schema does not declare (parsing strips them)
+      const merged = { ...candidate, ...data };
+      const changed = Object.keys(merged).some(
+        (key) => !(key in props) || !isEqual(merged[key], props[key]),
+      );
+      return {
+        valid: true,
+        props: changed ? merged : props,
+        coerced,
+        issues: [],
+      };
+    }
+
+    const issues = result.error.issues;
+    let repaired = false;
+    if (pass < MAX_REPAIR_PASSES) {
+      for (const issue of issues) {
+        const next = repair(issue, getAt(candidate, issue.path));
+        if (next === NO_REPAIR) continue;
+        candidate = setAt(candidate, issue.path, next) as Record<string, unknown>;
+        coerced.push(formatPath(issue.path));
+        repaired = true;
+      }
+    }
+
+    if (!repaired) {
+      return {
+        valid: false,
+        props: candidate,
+        coerced,
+        issues: issues.map((issue) => ({
+          path: formatPath(issue.path),
+          message: issue.message,
+        })),
+      };
+    }
+  }
+}
@@ -5,6 +5,8 @@
 import type { ComponentType, ReactNode, CSSProperties } from "react";
 import type { UIElement, UITree, Action } from "@onegenui/core";
 import type { TrackedAction } from "../hooks/types";
+import type { ElementStreamingState } from "../hooks/patches/streaming-lifecycle";
+import type { VirtualizableComponent } from "./virtualization";
 
 /**
  * Props passed to component renderers
@@ -46,14 +48,18 @@ export interface ComponentRenderProps<P = Record<string, unknown>> {
   onAction?: (action: Action) => void;
   /** Whether the parent is loading */
   loading?: boolean;
+  /** Streaming state of this element (unlike `loading`, not the whole turn) */
+  streaming?: ElementStreamingState;
 }
 
 /**
- * Component renderer type
+ * Component renderer type. Set `virtualize` on a container component to
+ * window its children (see renderer/virtualization).
  */
 export type ComponentRenderer<P = Record<string, unknown>> = ComponentType<
   ComponentRenderProps<P>
->;
+> &
+  VirtualizableComponent;
 
 /**
  * Registry of component renderers
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import type { UIElement, UITree } from "@onegenui/core";
+import {
+  computeOffsets,
+  findParentKey,
+  findVisibleRange,
+  resolveVirtualizeOptions,
+} from "./virtualization";
+
+const list = (count: number, layout?: Record<string, unknown>): UIElement =>
+  ({
+    key: "list",
+    type: "List",
+    props: {},
+    children: Array.from({ length: count }, (_, i) => `item-${i}`),
+    layout,
+  }) as UIElement;
+
+describe("resolveVirtualizeOptions", () => {
+  it("uses the component flag unless the element hint overrides it", () => {
+    expect(resolveVirtualizeOptions(list(100), { virtualize: true })).toMatchObject({
+      minChildren: 50,
+    });
+    expect(resolveVirtualizeOptions(list(100, { virtualize: false }), { virtualize: true })).toBeNull();
+    expect(
+      resolveVirtualizeOptions(list(100, { virtualize: { estimatedItemHeight: 40 } }), undefined),
+    ).toMatchObject({ estimatedItemHeight: 40 });
+    expect(resolveVirtualizeOptions(list(100), undefined)).toBeNull();
+  });
+
+  it("renders short lists in full", () => {
+    expect(resolveVirtualizeOptions(list(10), { virtualize: true })).toBeNull();
+    expect(resolveVirtualizeOptions(list(10), { virtualize: { minChildren: 5 } })).not.toBeNull();
+  });
+});
+
+describe("findVisibleRange", () => {
+  const keys = ["a", "b", "c", "d", "e"];
+  const offsets = computeOffsets(keys, new Map([["b", 50]]), 100);
+
+  it("uses measured heights and estimates for the rest", () => {
+    expect(offsets).toEqual([0, 100, 150, 250, 350, 450]);
+  });
+
+  it("returns the items overlapping the window", () => {
+    expect(findVisibleRange(offsets, 120, 260)).toEqual({ start: 1, end: 4 });
+    expect(findVisibleRange(offsets, -500, 0)).toEqual({ start: 0, end: 0 });
+    expect(findVisibleRange(offsets, 400, 10_000)).toEqual({ start: 4, end: 5 });
+    expect(findVisibleRange(offsets, 1_000, 2_000)).toEqual({ start: 5, end: 5 });
+  });
+});
+
+describe("findParentKey", () => {
+  it("falls back to the children lists when parentKey is missing", () => {
+    const tree: UITree = {
+      root: "root",
+      elements: {
+        root: { key: "root", type: "Stack", props: {}, children: ["card"] },
+        card: { key: "card", type: "Card", props: {}, children: ["text"] },
+        text: { key: "text", type: "Text", props: {}, parentKey: "card" },
+      },
+    };
+    expect(findParentKey(tree, "text")).toBe("card");
+    expect(findParentKey(tree, "card")).toBe("root");
+    expect(findParentKey(tree, "root")).toBeNull();
+  });
+});
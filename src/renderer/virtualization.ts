@@ -0,0 +1,198 @@
+"use client";
+
+/**
+ * Virtualization - Windowed rendering for containers with many children
+ *
+ * Opt-in per element (`layout.virtualize`) or per component type (a static
+ * `virtualize` flag on the registry entry). The element hint wins, so
+ * `layout.virtualize: false` turns it off for one element.
+ *
+ * Mounted virtualized lists register here so scrollToElement() can bring
+ * any element into view, even one whose list item is not rendered.
+ */
+
+import type { UIElement, UITree } from "@onegenui/core";
+
+export interface VirtualizeOptions {
+  /** Height assumed for children not measured yet (default 80px) */
+  estimatedItemHeight?: number;
+  /** Extra distance rendered above and below the visible area (default 600px) */
+  overscan?: number;
+  /** Only virtualize with at least this many children (default 50) */
+  minChildren?: number;
+}
+
+/** Static flag on a registry component */
+export interface VirtualizableComponent {
+  virtualize?: boolean | VirtualizeOptions;
+}
+
+export const DEFAULT_ESTIMATED_ITEM_HEIGHT = 80;
+export const DEFAULT_OVERSCAN_PX = 600;
+export const DEFAULT_VIRTUALIZE_MIN_CHILDREN = 50;
+
+/**
+ * Virtualization options for an element that opted in, whatever its number
+ * of children, or null when it did not
+ */
+export function getVirtualizeOptions(
+  element: UIElement,
+  component: VirtualizableComponent | undefined,
+): Required<VirtualizeOptions> | null {
+  const hint = (element.layout as { virtualize?: boolean | VirtualizeOptions } | undefined)
+    ?.virtualize;
+  const setting = hint ?? component?.virtualize;
+  if (!setting) return null;
+
+  const options = setting === true ? {} : setting;
+  return {
+    estimatedItemHeight: options.estimatedItemHeight ?? DEFAULT_ESTIMATED_ITEM_HEIGHT,
+    overscan: options.overscan ?? DEFAULT_OVERSCAN_PX,
+    minChildren: options.minChildren ?? DEFAULT_VIRTUALIZE_MIN_CHILDREN,
+  };
+}
+
+/**
+ * Virtualization options for an element, or null when its children
+ * should all be rendered
+ */
+export function resolveVirtualizeOptions(
+  element: UIElement,
+  component: VirtualizableComponent | undefined,
+): Required<VirtualizeOptions> | null {
+  const resolved = getVirtualizeOptions(element, component);
+  if (!resolved) return null;
+  const childCount = Array.isArray(element.children) ? element.children.length : 0;
+  return childCount >= resolved.minChildren ? resolved : null;
+}
+
+/** Top offset of each item, plus the total height as the last entry */
+export function computeOffsets(
+  keys: string[],
+  heights: ReadonlyMap<string, number>,
+  estimatedItemHeight: number,
+): number[] {
+  const offsets = new Array<number>(keys.length + 1);
+  offsets[0] = 0;
+  for (let i = 0; i < keys.length; i++) {
+    offsets[i + 1] = offsets[i]! + (heights.get(keys[i]!) ?? estimatedItemHeight);
+  }
+  return offsets;
+}
+
+/**
+ * Items overlapping [from, to) (list coordinates), as [start, end).
+ * Binary search over the offsets from computeOffsets.
+ */
+export function findVisibleRange(
+  offsets: number[],
+  from: number,
+  to: number,
+): { start: number; end: number } {
+  const count = offsets.length - 1;
+  // First item whose bottom is below `from`
+  let lo = 0;
+  let hi = count;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (offsets[mid + 1]! > from) hi = mid;
+    else lo = mid + 1;
+  }
+  const start = lo;
+  // First item whose top is at or below `to`
+  hi = count;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (offsets[mid]! >= to) hi = mid;
+    else lo = mid + 1;
+  }
+  return { start, end: Math.max(start, lo) };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Scroll to element
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** A mounted virtualized list, as seen by scrollToElement */
+export interface VirtualListHandle {
+  /** Index of the item that is `key` or contains it, or -1 */
+  indexOf(key: string): number;
+  isMounted(index: number): boolean;
+  /** Scroll so the item's estimated position is in view (mounts it) */
+  scrollToIndex(index: number): void;
+}
+
+const lists = new Set<VirtualListHandle>();
+
+export function registerVirtualList(list: VirtualListHandle): () => void {
+  lists.add(list);
+  return () => {
+    lists.delete(list);
+  };
+}
+
+// Parent of every element, for trees whose elements lack parentKey
+const parentMaps = new WeakMap<UITree, Map<string, string>>();
+
+/** Parent key of an element (parentKey, or found through the children lists) */
+export function findParentKey(tree: UITree, key: string): string | null {
+  const parentKey = tree.elements[key]?.parentKey;
+  if (parentKey) return parentKey;
+
+  let parents = parentMaps.get(tree);
+  if (!parents) {
+    parents = new Map();
+    for (const element of Object.values(tree.elements)) {
+      for (const childKey of element.children ?? []) parents.set(childKey, element.key);
+    }
+    parentMaps.set(tree, parents);
+  }
+  return parents.get(key) ?? null;
+}
+
+/** Lists can nest, so mounting a target may take a few rounds */
+const MAX_SCROLL_ATTEMPTS = 5;
+
+function findRendered(key: string): Element | null {
+  const escaped = CSS.escape(key);
+  return (
+    document.querySelector(`[data-element-key="${escaped}"]`) ??
+    document.querySelector(`[data-virtual-key="${escaped}"]`)
+  );
+}
+
+function nextFrame(): Promise<void> {
+  return new Promise((resolve) => requestAnimationFrame(() => resolve()));
+}
+
+/**
+ * Scroll a rendered element into view, first scrolling any virtualized list
+ * that has not mounted it. Resolves to whether the element was found.
+ */
+export async function scrollToElement(
+  key: string,
+  options: ScrollIntoViewOptions = { block: "start" },
+): Promise<boolean> {
+  if (typeof document === "undefined") return false;
+
+  for (let attempt = 0; attempt <= MAX_SCROLL_ATTEMPTS; attempt++) {
+    const node = findRendered(key);
+    if (node) {
+      node.scrollIntoView(options);
+      return true;
+    }
+
+    let scrolled = false;
+    for (const list of lists) {
+      const index = list.indexOf(key);
+      if (index !== -1 && !list.isMounted(index)) {
+        list.scrollToIndex(index);
+        scrolled = true;
+        break;
+      }
+    }
+    if (!scrolled) return false;
+    await nextFrame();
+  }
+  return false;
+}
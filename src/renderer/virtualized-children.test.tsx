@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import React, { useEffect } from "react";
+import { render } from "@testing-library/react";
+import type { UITree } from "@onegenui/core";
+import { Renderer } from "../renderer";
+import { JSONUIProvider } from "./provider";
+import type { ComponentRegistry } from "./types";
+
+const mounts: string[] = [];
+
+function Item({ element }: { element: { key: string } }) {
+  useEffect(() => {
+    mounts.push(element.key);
+  }, []);
+  return <p>{element.key}</p>;
+}
+
+const registry: ComponentRegistry = {
+  List: Object.assign(({ children }: { children?: React.ReactNode }) => <div>{children}</div>, {
+    virtualize: { minChildren: 3 },
+  }),
+  Item,
+};
+
+const fixed = { resizable: false };
+
+function listTree(itemKeys: string[]): UITree {
+  const elements: Record<string, unknown> = {
+    root: { key: "root", type: "List", props: {}, children: itemKeys, layout: fixed },
+  };
+  for (const key of itemKeys) {
+    elements[key] = { key, type: "Item", props: {}, parentKey: "root", layout: fixed };
+  }
+  return { root: "root", elements } as unknown as UITree;
+}
+
+function renderList(itemKeys: string[]) {
+  const view = render(
+    <JSONUIProvider registry={registry}>
+      <Renderer tree={listTree(itemKeys)} registry={registry} autoGrid={false} />
+    </JSONUIProvider>,
+  );
+  return {
+    view,
+    update: (keys: string[]) =>
+      view.rerender(
+        <JSONUIProvider registry={registry}>
+          <Renderer tree={listTree(keys)} registry={registry} autoGrid={false} />
+        </JSONUIProvider>,
+      ),
+  };
+}
+
+describe("VirtualizedChildren", () => {
+  it("keeps items mounted when a list grows past minChildren", () => {
+    mounts.length = 0;
+    const { view, update } = renderList(["a", "b"]);
+
+    update(["a", "b", "c"]);
+
+    expect(view.container.querySelector("[data-virtualized]")).not.toBeNull();
+    expect(view.container.textContent).toBe("abc");
+    expect(mounts).toEqual(["a", "b", "c"]);
+  });
+
+  it("keeps items mounted when one is inserted before them", () => {
+    mounts.length = 0;
+    const { view, update } = renderList(["a", "b", "c"]);
+
+    update(["z", "a", "b", "c"]);
+
+    expect(view.container.textContent).toBe("zabc");
+    expect(mounts).toEqual(["a", "b", "c", "z"]);
+  });
+});
@@ -0,0 +1,272 @@
+"use client";
+
+/**
+ * Virtualized Children - Renders only the children near the visible area
+ *
+ * Rendered items stay in normal flow between spacers, so this suits
+ * containers that stack their children vertically (lists, feeds, rows).
+ * Lists shorter than `minChildren` render every item in the same wrappers,
+ * so a growing list keeps its items mounted when windowing starts.
+ * Item heights are measured with a ResizeObserver and remembered by element
+ * key; items not measured yet use the estimated height.
+ *
+ * The item holding the selected element and the item holding focus stay
+ * mounted while scrolled away, so selection and in-progress edits survive.
+ * Items scrolled back into view are rendered from the tree again: edit mode
+ * comes from context and sizes saved through onResize (`layout.size`) are
+ * restored by ResizableWrapper.
+ */
+
+import {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+  type FocusEvent,
+  type ReactNode,
+} from "react";
+import type { UITree } from "@onegenui/core";
+import {
+  computeOffsets,
+  findParentKey,
+  findVisibleRange,
+  registerVirtualList,
+  type VirtualizeOptions,
+} from "./virtualization";
+
+export interface VirtualizedChildrenProps {
+  childKeys: string[];
+  tree: UITree;
+  options: Required<VirtualizeOptions>;
+  renderChild: (childKey: string, index: number) => ReactNode;
+  /** Element kept mounted even when off-screen (the selected one) */
+  pinnedKey?: string | null;
+}
+
+function findScrollParent(node: HTMLElement): HTMLElement | null {
+  for (let parent = node.parentElement; parent; parent = parent.parentElement) {
+    const { overflowY } = getComputedStyle(parent);
+    if (overflowY === "auto" || overflowY === "scroll" || overflowY === "overlay") {
+      return parent;
+    }
+  }
+  return null;
+}
+
+export function VirtualizedChildren({
+  childKeys,
+  tree,
+  options,
+  renderChild,
+  pinnedKey,
+}: VirtualizedChildrenProps) {
+  const { estimatedItemHeight, overscan } = options;
+  const containerRef = useRef<HTMLDivElement>(null);
+  // undefined until looked up (needs the mounted node)
+  const scrollParentRef = useRef<HTMLElement | null | undefined>(undefined);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const heightsRef = useRef(new Map<string, number>());
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [focusedKey, setFocusedKey] = useState<string | null>(null);
+  // Visible area relative to the list, overscan included. Kept in pixels so
+  // items inserted or removed above it do not shift the rendered range for
+  // a render. Before the first measurement (and on the server): a screen.
+  const [visibleArea, setVisibleArea] = useState(() => ({ top: 0, bottom: 2 * overscan }));
+
+  const offsets = useMemo(
+    () => computeOffsets(childKeys, heightsRef.current, estimatedItemHeight),
+    // measureVersion: heightsRef changed
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [childKeys, estimatedItemHeight, measureVersion],
+  );
+
+  const range = useMemo(
+    () => findVisibleRange(offsets, visibleArea.top, visibleArea.bottom),
+    [offsets, visibleArea],
+  );
+
+  const keyIndex = useMemo(
+    () => new Map(childKeys.map((key, index) => [key, index])),
+    [childKeys],
+  );
+
+  /** Index of the item that is `key` or one of its ancestors */
+  const indexOf = useCallback(
+    (key: string): number => {
+      const seen = new Set<string>();
+      for (let current: string | null = key; current && !seen.has(current); current = findParentKey(tree, current)) {
+        seen.add(current);
+        const index = keyIndex.get(current);
+        if (index !== undefined) return index;
+      }
+      return -1;
+    },
+    [tree, keyIndex],
+  );
+
+  const updateRange = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    if (scrollParentRef.current === undefined) {
+      scrollParentRef.current = findScrollParent(container);
+    }
+
+    // Visible area: the viewport, clipped by the scroll container
+    let top = 0;
+    let bottom = window.innerHeight;
+    const scrollParent = scrollParentRef.current;
+    if (scrollParent) {
+      const parentRect = scrollParent.getBoundingClientRect();
+      top = Math.max(top, parentRect.top);
+      bottom = Math.min(bottom, parentRect.bottom);
+    }
+
+    const rect = container.getBoundingClientRect();
+    const next = { top: top - rect.top - overscan, bottom: bottom - rect.top + overscan };
+    setVisibleArea((prev) => (prev.top === next.top && prev.bottom === next.bottom ? prev : next));
+  }, [overscan]);
+
+  useLayoutEffect(() => {
+    updateRange();
+  }, [updateRange]);
+
+  const updateRangeRef = useRef(updateRange);
+  updateRangeRef.current = updateRange;
+
+  useEffect(() => {
+    // Capture: scrolls of any ancestor, not only the window
+    let frame: number | null = null;
+    const onScroll = () => {
+      if (frame !== null) return;
+      frame = requestAnimationFrame(() => {
+        frame = null;
+        updateRangeRef.current();
+      });
+    };
+    window.addEventListener("scroll", onScroll, { capture: true, passive: true });
+    window.addEventListener("resize", onScroll);
+    return () => {
+      window.removeEventListener("scroll", onScroll, { capture: true });
+      window.removeEventListener("resize", onScroll);
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver((entries) => {
+      let changed = false;
+      for (const entry of entries) {
+        const item = entry.target as HTMLElement;
+        const key = item.dataset.virtualKey;
+        if (!key || heightsRef.current.get(key) === item.offsetHeight) continue;
+        heightsRef.current.set(key, item.offsetHeight);
+        changed = true;
+      }
+      if (changed) setMeasureVersion((version) => version + 1);
+    });
+    observerRef.current = observer;
+    // Items mounted before the observer existed
+    for (const item of Array.from(containerRef.current?.children ?? [])) {
+      if (item instanceof HTMLElement && item.dataset.virtualKey) observer.observe(item);
+    }
+    return () => {
+      observer.disconnect();
+      observerRef.current = null;
+    };
+  }, []);
+
+  const observeItem = useCallback((node: HTMLDivElement | null) => {
+    if (!node) return;
+    observerRef.current?.observe(node);
+    return () => observerRef.current?.unobserve(node);
+  }, []);
+
+  // Items to render: the visible range plus pinned items outside it
+  const windowed = childKeys.length >= options.minChildren;
+  const start = windowed ? range.start : 0;
+  const end = windowed ? Math.min(range.end, childKeys.length) : childKeys.length;
+  const mounted = new Set<number>();
+  for (let index = start; index < end; index++) mounted.add(index);
+  for (const key of [pinnedKey, focusedKey]) {
+    const index = key ? indexOf(key) : -1;
+    if (index !== -1) mounted.add(index);
+  }
+  const mountedIndices = Array.from(mounted).sort((a, b) => a - b);
+
+  const stateRef = useRef({ offsets, mounted, indexOf });
+  stateRef.current = { offsets, mounted, indexOf };
+
+  useEffect(
+    () =>
+      registerVirtualList({
+        indexOf: (key) => stateRef.current.indexOf(key),
+        isMounted: (index) => stateRef.current.mounted.has(index),
+        scrollToIndex: (index) => {
+          const container = containerRef.current;
+          if (!container) return;
+          const top = container.getBoundingClientRect().top + (stateRef.current.offsets[index] ?? 0);
+          const scrollParent = scrollParentRef.current;
+          if (scrollParent) {
+            scrollParent.scrollTop += top - scrollParent.getBoundingClientRect().top;
+          } else {
+            window.scrollBy(0, top);
+          }
+          updateRangeRef.current();
+        },
+      }),
+    [],
+  );
+
+  /** Key of this list's item containing a node */
+  const itemKeyOf = (node: EventTarget | null): string | null => {
+    let current = node instanceof Node ? node : null;
+    while (current && current.parentNode !== containerRef.current) current = current.parentNode;
+    return current instanceof HTMLElement ? current.dataset.virtualKey ?? null : null;
+  };
+
+  const onFocus = (event: FocusEvent<HTMLDivElement>) => {
+    const key = itemKeyOf(event.target);
+    if (key !== focusedKey) setFocusedKey(key);
+  };
+
+  const onBlur = (event: FocusEvent<HTMLDivElement>) => {
+    if (!containerRef.current?.contains(event.relatedTarget as Node | null)) {
+      setFocusedKey(null);
+    }
+  };
+
+  const nodes: ReactNode[] = [];
+  let cursor = 0;
+  const spacer = (from: number, to: number) => {
+    const height = offsets[to]! - offsets[from]!;
+    if (height > 0) {
+      nodes.push(<div key={`spacer-${from}`} aria-hidden style={{ height }} />);
+    }
+  };
+  for (const index of mountedIndices) {
+    spacer(cursor, index);
+    const key = childKeys[index]!;
+    nodes.push(
+      <div
+        key={key}
+        ref={observeItem}
+        data-virtual-key={key}
+        // flow-root: the measured height includes the child's margins
+        style={{ display: "flow-root" }}
+      >
+        {renderChild(key, index)}
+      </div>,
+    );
+    cursor = index + 1;
+  }
+  spacer(cursor, childKeys.length);
+
+  return (
+    <div ref={containerRef} data-virtualized onFocus={onFocus} onBlur={onBlur}>
+      {nodes}
+    </div>
+  );
+}
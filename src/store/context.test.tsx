@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import React from "react";
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { createWireFrame, type UITree } from "@onegenui/core";
+import { useStore, createOneGenUIStore, OneGenUIStoreProvider } from ".";
+import { DataProvider, useData } from "../contexts/data";
+import { defaultUndoManager, useUndoManager } from "../contexts/undo-manager";
+import { useUIStream } from "../hooks/useUIStream";
+import { createInMemoryTransport } from "../hooks/ui-stream/transports/in-memory";
+
+const tree = (title: string): UITree => ({
+  root: "root",
+  elements: { root: { key: "root", type: "Card", props: { title } } },
+});
+
+function frame(sequence: number, event: unknown) {
+  return createWireFrame({ correlationId: "corr", sequence, event } as never);
+}
+
+describe("OneGenUIStoreProvider", () => {
+  it("scopes useStore to the nearest provider", () => {
+    const chat = createOneGenUIStore({ uiTree: tree("chat") });
+    const assistant = createOneGenUIStore({ uiTree: tree("assistant") });
+
+    const chatHook = renderHook(() => useStore((s) => s.uiTree), {
+      wrapper: ({ children }) => (
+        <OneGenUIStoreProvider store={chat}>{children}</OneGenUIStoreProvider>
+      ),
+    });
+    const assistantHook = renderHook(() => useStore((s) => s.uiTree), {
+      wrapper: ({ children }) => (
+        <OneGenUIStoreProvider store={assistant}>{children}</OneGenUIStoreProvider>
+      ),
+    });
+
+    expect(chatHook.result.current?.elements.root?.props.title).toBe("chat");
+    expect(assistantHook.result.current?.elements.root?.props.title).toBe("assistant");
+  });
+
+  it("keeps providers' state apart", () => {
+    const chat = createOneGenUIStore();
+    const assistant = createOneGenUIStore();
+    const wrapper =
+      (store: typeof chat) =>
+      ({ children }: { children: React.ReactNode }) => (
+        <OneGenUIStoreProvider store={store}>
+          <DataProvider>{children}</DataProvider>
+        </OneGenUIStoreProvider>
+      );
+
+    const chatHook = renderHook(() => useData(), { wrapper: wrapper(chat) });
+    const assistantHook = renderHook(() => useData(), { wrapper: wrapper(assistant) });
+
+    act(() => chatHook.result.current.set("/user/name", "Ada"));
+
+    expect(chatHook.result.current.data).toEqual({ user: { name: "Ada" } });
+    expect(assistantHook.result.current.data).toEqual({});
+    expect(useStore.getState().dataModel).toEqual({});
+  });
+
+  it("falls back to the default store without a provider", () => {
+    const { result } = renderHook(() => useStore((s) => s.setTheme));
+
+    act(() => result.current("dark"));
+
+    expect(useStore.getState().theme).toBe("dark");
+  });
+
+  it("gives each provider's store its own undo stack", () => {
+    const wrapper =
+      (store: ReturnType<typeof createOneGenUIStore>) =>
+      ({ children }: { children: React.ReactNode }) => (
+        <OneGenUIStoreProvider store={store}>{children}</OneGenUIStoreProvider>
+      );
+    const chat = createOneGenUIStore();
+    const chatHook = renderHook(() => useUndoManager(), { wrapper: wrapper(chat) });
+    const chatAgain = renderHook(() => useUndoManager(), { wrapper: wrapper(chat) });
+    const assistantHook = renderHook(() => useUndoManager(), {
+      wrapper: wrapper(createOneGenUIStore()),
+    });
+
+    chatHook.result.current.record({ label: "Edit", source: "tree", undo: () => {}, redo: () => {} });
+
+    expect(chatAgain.result.current).toBe(chatHook.result.current);
+    expect(assistantHook.result.current.canUndo()).toBe(false);
+    expect(defaultUndoManager.canUndo()).toBe(false);
+  });
+
+  it("keeps two panels streaming side by side in their own stores and undo stacks", async () => {
+    let release!: () => void;
+    const bothStarted = new Promise<void>((resolve) => { release = resolve; });
+    let started = 0;
+    const transport = createInMemoryTransport(async function* (request) {
+      const { prompt } = JSON.parse(request.body as string) as { prompt: string };
+      yield frame(0, { kind: "control", action: "start", data: { capabilities: [] } });
+      if (++started === 2) release();
+      await bothStarted;
+      yield frame(1, {
+        kind: "patch",
+        patches: [
+          { op: "set", path: "/root", value: "root" },
+          { op: "add", path: "/elements/root", value: { key: "root", type: "Card", props: { title: prompt } } },
+        ],
+      });
+      yield frame(2, { kind: "done" });
+    });
+    const panel = (store: ReturnType<typeof createOneGenUIStore>) =>
+      renderHook(
+        () => ({ stream: useUIStream({ api: "/api/generate", transport }), undo: useUndoManager() }),
+        {
+          wrapper: ({ children }) => (
+            <OneGenUIStoreProvider store={store}>{children}</OneGenUIStoreProvider>
+          ),
+        },
+      );
+    const chat = createOneGenUIStore();
+    const assistant = createOneGenUIStore();
+    const chatPanel = panel(chat);
+    const assistantPanel = panel(assistant);
+
+    await act(() =>
+      Promise.all([
+        chatPanel.result.current.stream.send("chat"),
+        assistantPanel.result.current.stream.send("assistant"),
+      ]),
+    );
+    await waitFor(() => expect(assistantPanel.result.current.stream.isStreaming).toBe(false));
+
+    expect(chat.getState().uiTree?.elements.root?.props.title).toBe("chat");
+    expect(assistant.getState().uiTree?.elements.root?.props.title).toBe("assistant");
+    expect(useStore.getState().uiTree).toBeNull();
+
+    act(() => chatPanel.result.current.stream.removeElement("root"));
+
+    expect(chatPanel.result.current.undo.canUndo()).toBe(true);
+    expect(assistantPanel.result.current.undo.canUndo()).toBe(false);
+    expect(assistant.getState().uiTree?.elements.root?.props.title).toBe("assistant");
+  });
+});
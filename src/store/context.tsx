@@ -0,0 +1,58 @@
+"use client";
+
+/**
+ * Store Context - Scopes a store instance to a React subtree
+ *
+ * Hooks built on `useStore(selector)` read the nearest provider's store and
+ * fall back to the module-level store, so apps without a provider keep
+ * working unchanged.
+ */
+import { createContext, useState, type ReactNode } from "react";
+import {
+  createOneGenUIStore,
+  type OneGenUIStore,
+  type StoreSnapshot,
+} from "./create-store";
+
+export const OneGenUIStoreContext = createContext<OneGenUIStore | null>(null);
+
+export interface OneGenUIStoreProviderProps {
+  /** Store to provide (e.g. created per server request) */
+  store?: OneGenUIStore;
+  /**
+   * Without `store`: initial state of the store created for this provider
+   * (e.g. the server's getStoreSnapshot(), for hydration)
+   */
+  snapshot?: StoreSnapshot;
+  children: ReactNode;
+}
+
+/**
+ * Provide a store to everything below. Without `store`, one is created on
+ * mount from `snapshot` and kept for the provider's lifetime.
+ *
+ * @example
+ * ```tsx
+ * // Server
+ * const store = createOneGenUIStore({ uiTree });
+ * const html = renderToString(
+ *   <OneGenUIStoreProvider store={store}><Dashboard /></OneGenUIStoreProvider>,
+ * );
+ * const snapshot = getStoreSnapshot(store); // embed as JSON
+ *
+ * // Client
+ * hydrateRoot(el, <OneGenUIStoreProvider snapshot={snapshot}><Dashboard /></OneGenUIStoreProvider>);
+ * ```
+ */
+export function OneGenUIStoreProvider({
+  store,
+  snapshot,
+  children,
+}: OneGenUIStoreProviderProps) {
+  const [ownStore] = useState(() => store ?? createOneGenUIStore(snapshot));
+  return (
+    <OneGenUIStoreContext.Provider value={store ?? ownStore}>
+      {children}
+    </OneGenUIStoreContext.Provider>
+  );
+}
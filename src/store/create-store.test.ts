@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import type { UITree } from "@onegenui/core";
+import { createOneGenUIStore, getStoreSnapshot } from "./create-store";
+
+const tree: UITree = {
+  root: "root",
+  elements: { root: { key: "root", type: "Card", props: { title: "Hi" } } },
+};
+
+describe("createOneGenUIStore", () => {
+  it("starts from the snapshot", () => {
+    const store = createOneGenUIStore({ uiTree: tree, theme: "dark" });
+
+    expect(store.getState().uiTree).toBe(tree);
+    expect(store.getState().theme).toBe("dark");
+    expect(store.getInitialState().uiTree).toBe(tree);
+  });
+
+  it("creates isolated instances", () => {
+    const a = createOneGenUIStore();
+    const b = createOneGenUIStore();
+
+    a.getState().setUITree(tree);
+
+    expect(a.getState().uiTree).toBe(tree);
+    expect(b.getState().uiTree).toBeNull();
+  });
+
+  it("round-trips through a JSON snapshot", () => {
+    const store = createOneGenUIStore({ uiTree: tree });
+    const snapshot = JSON.parse(JSON.stringify(getStoreSnapshot(store)));
+
+    const hydrated = createOneGenUIStore(snapshot);
+
+    expect(hydrated.getState().uiTree).toEqual(tree);
+    expect(Object.keys(snapshot)).toEqual([
+      "uiTree",
+      "treeVersion",
+      "dataModel",
+      "componentState",
+      "theme",
+      "compactMode",
+    ]);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Store Factory - Creates independent store instances
+ *
+ * The module-level `useStore` is one instance. Servers create one per
+ * request (so one request's tree never leaks into another's) and pass it
+ * down with OneGenUIStoreProvider.
+ *
+ * A snapshot becomes part of the store's initial state, which is also what
+ * React reads while rendering on the server and while hydrating, so the
+ * client's first render matches the server HTML.
+ */
+import { create } from "zustand";
+import { devtools, subscribeWithSelector } from "zustand/middleware";
+import { immer } from "zustand/middleware/immer";
+import { enableMapSet } from "immer";
+import type { StoreApi, UseBoundStore } from "zustand";
+
+// Enable Immer MapSet plugin for Set/Map support in store
+enableMapSet();
+
+import {
+  createDomainSlice,
+  createUISlice,
+  createSelectionSlice,
+  createSettingsSlice,
+  createAnalyticsSlice,
+  createActionsSlice,
+  createValidationSlice,
+  createToolProgressSlice,
+  createPlanExecutionSlice,
+  createDeepResearchSlice,
+  createUITreeSlice,
+  createWorkspaceSlice,
+  createCanvasSlice,
+  createComponentStateSlice,
+  createMcpSlice,
+} from "./slices";
+
+import type { StoreState } from "./types";
+
+/**
+ * Public store hook type - hides internal immer types
+ */
+export type OneGenUIStore = UseBoundStore<StoreApi<StoreState>>;
+
+/** State that is serialized for hydration (JSON-safe, needed for first paint) */
+export const STORE_SNAPSHOT_KEYS = [
+  "uiTree",
+  "treeVersion",
+  "dataModel",
+  "componentState",
+  "theme",
+  "compactMode",
+] as const;
+
+export type StoreSnapshot = Partial<
+  Pick<StoreState, (typeof STORE_SNAPSHOT_KEYS)[number]>
+>;
+
+export interface CreateStoreOptions {
+  /** Devtools instance name (default "onegenui-store") */
+  name?: string;
+}
+
+/**
+ * Create a store instance, optionally starting from a snapshot
+ *
+ * @example
+ * ```ts
+ * // Per server request
+ * const store = createOneGenUIStore({ uiTree: dashboard.tree });
+ * ```
+ */
+export function createOneGenUIStore(
+  snapshot?: StoreSnapshot,
+  options: CreateStoreOptions = {},
+): OneGenUIStore {
+  return create<StoreState>()(
+    devtools(
+      subscribeWithSelector(
+        immer((...args) => ({
+          ...createDomainSlice(...args),
+          ...createUISlice(...args),
+          ...createSelectionSlice(...args),
+          ...createSettingsSlice(...args),
+          ...createAnalyticsSlice(...args),
+          ...createActionsSlice(...args),
+          ...createValidationSlice(...args),
+          ...createToolProgressSlice(...args),
+          ...createPlanExecutionSlice(...args),
+          ...createDeepResearchSlice(...args),
+          ...createUITreeSlice(...args),
+          ...createWorkspaceSlice(...args),
+          ...createCanvasSlice(...args),
+          ...createComponentStateSlice(...args),
+          ...createMcpSlice(...args),
+          ...snapshot,
+        })),
+      ),
+      {
+        name: options.name ?? "onegenui-store",
+        enabled:
+          typeof window !== "undefined" &&
+          typeof process !== "undefined" &&
+          process.env?.NODE_ENV !== "production",
+      },
+    ),
+  ) as OneGenUIStore;
+}
+
+/**
+ * Serializable part of a store's state, for hydrating a client store
+ * (pass it to OneGenUIStoreProvider's `snapshot`)
+ */
+export function getStoreSnapshot(store: StoreApi<StoreState>): StoreSnapshot {
+  const state = store.getState();
+  const snapshot: Record<string, unknown> = {};
+  for (const key of STORE_SNAPSHOT_KEYS) {
+    snapshot[key] = state[key];
+  }
+  return snapshot as StoreSnapshot;
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from "vitest";
+import React from "react";
+import { act } from "@testing-library/react";
+import { renderToString } from "react-dom/server";
+import { hydrateRoot } from "react-dom/client";
+import type { UITree } from "@onegenui/core";
+import { Renderer } from "../renderer";
+import { JSONUIProvider } from "../renderer/provider";
+import type { ComponentRegistry } from "../renderer/types";
+import { createOneGenUIStore, getStoreSnapshot, OneGenUIStoreProvider, useStore, type StoreSnapshot } from ".";
+
+const fixed = { resizable: false };
+const tree: UITree = {
+  root: "root",
+  elements: {
+    root: { key: "root", type: "Card", props: { title: "Revenue" }, children: ["total"], layout: fixed },
+    total: { key: "total", type: "Text", props: { text: "42" }, parentKey: "root", layout: fixed },
+  },
+};
+
+const registry: ComponentRegistry = {
+  Card: ({ element, children }) => <section><h2>{String(element.props.title)}</h2>{children}</section>,
+  Text: ({ element }) => <p>{String(element.props.text)}</p>,
+};
+
+function Dashboard() {
+  const uiTree = useStore((s) => s.uiTree);
+  return (
+    <JSONUIProvider registry={registry}>
+      <Renderer tree={uiTree} registry={registry} />
+    </JSONUIProvider>
+  );
+}
+
+describe("hydration", () => {
+  it("hydrates server markup from the store snapshot without mismatches", () => {
+    const server = createOneGenUIStore({ uiTree: tree });
+    const html = renderToString(
+      <OneGenUIStoreProvider store={server}><Dashboard /></OneGenUIStoreProvider>,
+    );
+    const snapshot = JSON.parse(JSON.stringify(getStoreSnapshot(server))) as StoreSnapshot;
+    const client = createOneGenUIStore(snapshot);
+
+    const container = document.createElement("div");
+    container.innerHTML = html;
+    document.body.append(container);
+    const onRecoverableError = vi.fn();
+    let root!: ReturnType<typeof hydrateRoot>;
+    act(() => {
+      root = hydrateRoot(
+        container,
+        <OneGenUIStoreProvider store={client}><Dashboard /></OneGenUIStoreProvider>,
+        { onRecoverableError },
+      );
+    });
+
+    expect(onRecoverableError).not.toHaveBeenCalled();
+    expect(container.querySelector("h2")?.textContent).toBe("Revenue");
+    expect(container.querySelector("p")?.textContent).toBe("42");
+    expect(container.innerHTML).toBe(html);
+
+    // The hydrated tree is live: it follows the client store
+    act(() => client.getState().setUITree({
+      ...tree,
+      elements: { ...tree.elements, root: { ...tree.elements.root!, props: { title: "Profit" } } },
+    }));
+    expect([...container.querySelectorAll("h2")].map((h) => h.textContent)).toEqual(["Profit"]);
+
+    act(() => root.unmount());
+    container.remove();
+  });
+});
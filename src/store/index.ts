@@ -4,36 +4,27 @@
  * Uses the official Zustand slice pattern with immer middleware.
  * See: https://zustand.docs.pmnd.rs/guides/typescript#slices-pattern
  */
-import { create } from "zustand";
-import { devtools, subscribeWithSelector } from "zustand/middleware";
-import { immer } from "zustand/middleware/immer";
-import { enableMapSet } from "immer";
+import { useContext } from "react";
+import { useStore as useZustandStore } from "zustand";
 import { useShallow } from "zustand/react/shallow";
-import type { StoreApi, UseBoundStore } from "zustand";
-
-// Enable Immer MapSet plugin for Set/Map support in store
-enableMapSet();
-
-import {
-  createDomainSlice,
-  createUISlice,
-  createSelectionSlice,
-  createSettingsSlice,
-  createAnalyticsSlice,
-  createActionsSlice,
-  createValidationSlice,
-  createToolProgressSlice,
-  createPlanExecutionSlice,
-  createDeepResearchSlice,
-  createUITreeSlice,
-  createWorkspaceSlice,
-  createCanvasSlice,
-  createComponentStateSlice,
-  createMcpSlice,
-} from "./slices";
+import { createOneGenUIStore, type OneGenUIStore } from "./create-store";
+import { OneGenUIStoreContext } from "./context";
 
 import type { StoreState } from "./types";
 export type { StoreState } from "./types";
+export {
+  createOneGenUIStore,
+  getStoreSnapshot,
+  STORE_SNAPSHOT_KEYS,
+  type OneGenUIStore,
+  type StoreSnapshot,
+  type CreateStoreOptions,
+} from "./create-store";
+export {
+  OneGenUIStoreContext,
+  OneGenUIStoreProvider,
+  type OneGenUIStoreProviderProps,
+} from "./context";
 export type { UITreeSlice } from "./slices/ui-tree";
 export type { DeepSelectionInfo, DeepSelectionInput } from "./slices/selection";
 export type {
@@ -55,53 +46,41 @@ export type {
 } from "./slices/deep-research";
 
 // =============================================================================
-// Store Type (exported for external use)
+// Store Creation
 // =============================================================================
 
+/** Store used when no OneGenUIStoreProvider is above */
+const defaultStore = createOneGenUIStore();
+
 /**
- * Public store hook type - hides internal immer types
+ * Store of the nearest OneGenUIStoreProvider, or the default store
  */
-export type OneGenUIStore = UseBoundStore<StoreApi<StoreState>>;
-
-// =============================================================================
-// Store Creation
-// =============================================================================
+export function useOneGenUIStore(): OneGenUIStore {
+  return useContext(OneGenUIStoreContext) ?? defaultStore;
+}
+
+function useContextStore<U>(selector?: (state: StoreState) => U): U {
+  return useZustandStore(
+    useOneGenUIStore(),
+    selector ?? ((state) => state as unknown as U),
+  );
+}
 
 /**
  * Main store hook. Use this to access the store state and actions.
  *
+ * As a hook it reads the nearest OneGenUIStoreProvider's store; its
+ * `getState` / `setState` / `subscribe` always address the default store.
+ *
  * @example
  * ```tsx
  * const theme = useStore((s) => s.theme);
  * const setTheme = useStore((s) => s.setTheme);
  * ```
  */
-export const useStore: OneGenUIStore = create<StoreState>()(
-  devtools(
-    subscribeWithSelector(
-      immer((...args) => ({
-        ...createDomainSlice(...args),
-        ...createUISlice(...args),
-        ...createSelectionSlice(...args),
-        ...createSettingsSlice(...args),
-        ...createAnalyticsSlice(...args),
-        ...createActionsSlice(...args),
-        ...createValidationSlice(...args),
-        ...createToolProgressSlice(...args),
-        ...createPlanExecutionSlice(...args),
-        ...createDeepResearchSlice(...args),
-        ...createUITreeSlice(...args),
-        ...createWorkspaceSlice(...args),
-        ...createCanvasSlice(...args),
-        ...createComponentStateSlice(...args),
-        ...createMcpSlice(...args),
-      })),
-    ),
-    {
-      name: "onegenui-store",
-      enabled: typeof process !== "undefined" && process.env?.NODE_ENV !== "production",
-    },
-  ),
+export const useStore: OneGenUIStore = Object.assign(
+  useContextStore,
+  defaultStore,
 ) as OneGenUIStore;
 
 /**
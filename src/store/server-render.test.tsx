@@ -0,0 +1,51 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import React from "react";
+import { renderToString } from "react-dom/server";
+import type { UITree } from "@onegenui/core";
+import { Renderer } from "../renderer";
+import { JSONUIProvider } from "../renderer/provider";
+import type { ComponentRegistry } from "../renderer/types";
+import { createOneGenUIStore, getStoreSnapshot, OneGenUIStoreProvider, useStore } from ".";
+
+const tree: UITree = {
+  root: "root",
+  elements: {
+    root: { key: "root", type: "Card", props: { title: "Revenue" }, children: ["total"] },
+    total: { key: "total", type: "Text", props: { text: "42" }, parentKey: "root" },
+  },
+};
+
+const registry: ComponentRegistry = {
+  Card: ({ element, children }) => <section><h2>{String(element.props.title)}</h2>{children}</section>,
+  Text: ({ element }) => <p>{String(element.props.text)}</p>,
+};
+
+function Dashboard() {
+  const uiTree = useStore((s) => s.uiTree);
+  return (
+    <JSONUIProvider registry={registry}>
+      <Renderer tree={uiTree} registry={registry} />
+    </JSONUIProvider>
+  );
+}
+
+describe("server rendering", () => {
+  it("renders the provider's tree without browser APIs", () => {
+    expect(typeof window).toBe("undefined");
+    const store = createOneGenUIStore({ uiTree: tree });
+
+    const html = renderToString(
+      <OneGenUIStoreProvider store={store}><Dashboard /></OneGenUIStoreProvider>,
+    );
+
+    expect(html).toContain("<h2>Revenue</h2>");
+    expect(html).toContain("<p>42</p>");
+    expect(useStore.getState().uiTree).toBeNull();
+
+    const snapshot = JSON.parse(JSON.stringify(getStoreSnapshot(store)));
+    expect(
+      renderToString(<OneGenUIStoreProvider snapshot={snapshot}><Dashboard /></OneGenUIStoreProvider>),
+    ).toBe(html);
+  });
+});
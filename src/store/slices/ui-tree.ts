@@ -8,6 +8,7 @@
 import type { UITree, UIElement, JsonPatch } from "@onegenui/core";
 import { loggers } from "@onegenui/utils";
 import type { SliceCreator } from "../types";
+import { touchAncestors } from "../../hooks/patches/structural-sharing";
 
 const log = loggers.react;
 
@@ -61,6 +62,7 @@ export const createUITreeSlice: SliceCreator<UITreeSlice> = (set, get) => ({
     set((state) => {
       if (state.uiTree) {
         state.uiTree.elements[key] = element;
+        touchAncestors(state.uiTree.elements, [key], { root: state.uiTree.root });
         state.treeVersion += 1;
       }
     }),
@@ -68,6 +70,8 @@ export const createUITreeSlice: SliceCreator<UITreeSlice> = (set, get) => ({
   removeElement: (key) =>
     set((state) => {
       if (state.uiTree && state.uiTree.elements[key]) {
+        // Before deleting: the parent is found through the element
+        touchAncestors(state.uiTree.elements, [key], { root: state.uiTree.root });
         delete state.uiTree.elements[key];
         state.treeVersion += 1;
       }
@@ -102,6 +106,7 @@ export const createUITreeSlice: SliceCreator<UITreeSlice> = (set, get) => ({
               patch.value,
             );
           }
+          touchAncestors(state.uiTree.elements, [key], { root: state.uiTree.root });
           state.treeVersion += 1;
         }
       }